@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { ProfileHeader } from "@/components/profile/ProfileHeader";
 import { StatCard } from "@/components/common/StatCard";
 import { ProfileTabs } from "@/components/profile/ProfileTabs";
+import { ScorerToggle } from "@/components/common/ScorerToggle";
 import { Button } from "@/components/ui/button";
 import {
   formatNumberWithSuffix,
@@ -16,6 +17,8 @@ import { useProfileCreatorScore } from "@/hooks/useProfileCreatorScore";
 import { useProfileSocialAccounts } from "@/hooks/useProfileSocialAccounts";
 import { useProfileTotalEarnings } from "@/hooks/useProfileTotalEarnings";
 import { useProfileActions } from "@/hooks/useProfileActions";
+import { useScorer } from "@/hooks/useScorer";
+import { withScorerParam } from "@/lib/scorer";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Callout } from "@/components/common/Callout";
 import { Share, RotateCcw, Loader2 } from "lucide-react";
@@ -32,6 +35,7 @@ export function ProfileLayoutContent({
   children,
 }: ProfileLayoutContentProps) {
   const router = useRouter();
+  const { scorerSlug, scorerLabel, setScorer } = useScorer();
 
   // Use hooks to fetch all data
   const {
@@ -46,7 +50,7 @@ export function ProfileLayoutContent({
     loading: scoreLoading,
     refetch: refetchScore,
     hasNoScore,
-  } = useProfileCreatorScore(talentUUID);
+  } = useProfileCreatorScore(talentUUID, scorerSlug);
   const { socialAccounts } = useProfileSocialAccounts(talentUUID);
   const { totalEarnings, loading: earningsLoading } =
     useProfileTotalEarnings(talentUUID);
@@ -56,7 +60,6 @@ export function ProfileLayoutContent({
 
   // Use profile actions hook for buttons and user logic
   const {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     isOwnProfile,
     isCalculatingOrRefreshing,
     isInCooldown,
@@ -68,6 +71,7 @@ export function ProfileLayoutContent({
     handleRefreshScore,
   } = useProfileActions({
     talentUUID,
+    scorerSlug,
     refetchScore,
     profile,
     creatorScore,
@@ -124,7 +128,7 @@ export function ProfileLayoutContent({
           hasCreatorScore={!hasNoScore}
         />
 
-        {/* Action buttons - show for all profiles */}
+        {/* Action buttons - only the profile owner can refresh their score */}
         <div className="flex flex-row gap-4 w-full -mb-2">
           <Button
             onClick={handleShareStats}
@@ -134,33 +138,37 @@ export function ProfileLayoutContent({
             <Share className="w-4 h-4 mr-2" />
             Share Stats
           </Button>
-          <Button
-            onClick={handleRefreshScore}
-            variant="outline"
-            className={`flex-1 bg-white border-gray-300 hover:bg-gray-50 shadow-none ${
-              refreshError ? "border-red-300 text-red-500 hover:bg-red-25" : ""
-            }`}
-            disabled={
-              isCalculatingOrRefreshing || !!refreshError || isInCooldown
-            }
-          >
-            {isCalculatingOrRefreshing ? (
-              <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                {pendingText}
-              </>
-            ) : refreshError ? (
-              <>
-                <RotateCcw className="w-4 h-4 mr-2 text-red-500" />
-                {failedText}
-              </>
-            ) : (
-              <>
-                <RotateCcw className="w-4 h-4 mr-2" />
-                {buttonText}
-              </>
-            )}
-          </Button>
+          {isOwnProfile && (
+            <Button
+              onClick={handleRefreshScore}
+              variant="outline"
+              className={`flex-1 bg-white border-gray-300 hover:bg-gray-50 shadow-none ${
+                refreshError
+                  ? "border-red-300 text-red-500 hover:bg-red-25"
+                  : ""
+              }`}
+              disabled={
+                isCalculatingOrRefreshing || !!refreshError || isInCooldown
+              }
+            >
+              {isCalculatingOrRefreshing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {pendingText}
+                </>
+              ) : refreshError ? (
+                <>
+                  <RotateCcw className="w-4 h-4 mr-2 text-red-500" />
+                  {failedText}
+                </>
+              ) : (
+                <>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  {buttonText}
+                </>
+              )}
+            </Button>
+          )}
         </div>
 
         {/* Profile stat cards */}
@@ -175,18 +183,23 @@ export function ProfileLayoutContent({
                   : formatNumberWithSuffix(totalEarnings)
             }
             onClick={() => {
-              router.push(`/${identifier}/stats`);
+              router.push(withScorerParam(`/${identifier}/stats`, scorerSlug));
             }}
           />
           <StatCard
-            title="Creator Score"
+            title={scorerLabel}
             value={scoreLoading ? "—" : (creatorScore?.toLocaleString() ?? "—")}
             onClick={() => {
-              router.push(`/${identifier}/score`);
+              router.push(withScorerParam(`/${identifier}/score`, scorerSlug));
             }}
           />
         </div>
-        <ProfileTabs talentUUID={talentUUID} identifier={identifier} />
+        <ScorerToggle value={scorerSlug} onChange={setScorer} />
+        <ProfileTabs
+          talentUUID={talentUUID}
+          identifier={identifier}
+          scorerSlug={scorerSlug}
+        />
         <div className="mt-6">{children}</div>
       </div>
     </main>
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Accordion } from "@/components/ui/accordion";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Callout } from "@/components/common/Callout";
+import { BadgeModal, BadgeSectionComponent } from "@/components/badges";
+import { useBadges } from "@/hooks/useBadges";
+import { useProfileHeaderData } from "@/hooks/useProfileHeaderData";
+import type { BadgeItem } from "@/lib/badge-data";
+
+interface ProfileBadgesPageProps {
+  params: { identifier: string };
+}
+
+export default function ProfileBadgesPage({ params }: ProfileBadgesPageProps) {
+  const { profile } = useProfileHeaderData(params.identifier);
+  const talentUUID = profile?.id;
+  const { data: sections, loading, error } = useBadges(talentUUID);
+  const [selectedBadge, setSelectedBadge] = useState<BadgeItem | null>(null);
+
+  if (error) {
+    return (
+      <Callout>
+        <strong>Error loading badges:</strong> {error}
+      </Callout>
+    );
+  }
+
+  if (!sections || loading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-14 w-full rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Every section starts open; locked badges are shown dimmed */}
+      <Accordion
+        type="multiple"
+        defaultValue={sections.map((section) => section.id)}
+        className="w-full space-y-2"
+      >
+        {sections.map((section) => (
+          <BadgeSectionComponent
+            key={section.id}
+            section={section}
+            onBadgeClick={setSelectedBadge}
+          />
+        ))}
+      </Accordion>
+
+      <BadgeModal
+        badge={selectedBadge}
+        onClose={() => setSelectedBadge(null)}
+      />
+    </>
+  );
+}
@@ -1,6 +1,7 @@
 import { resolveTalentUser } from "@/lib/user-resolver";
+import { headers } from "next/headers";
 import { redirect } from "next/navigation";
-import { RESERVED_WORDS } from "@/lib/constants";
+import { REQUEST_PATH_HEADER, RESERVED_WORDS } from "@/lib/constants";
 import { CreatorNotFoundCard } from "@/components/common/CreatorNotFoundCard";
 import { ProfileLayoutContent } from "./ProfileLayoutContent";
 
@@ -30,15 +31,14 @@ export default async function ProfileLayout({
     params.identifier !== canonical &&
     params.identifier !== undefined
   ) {
-    // Preserve the current path when redirecting to canonical
-    const currentPath = params.identifier;
-    if (currentPath.includes("/")) {
-      const pathParts = currentPath.split("/");
-      const tabPart = pathParts[pathParts.length - 1];
-      redirect(`/${canonical}/${tabPart}`);
-    } else {
-      redirect(`/${canonical}/stats`);
-    }
+    // Keep the tab and query after the identifier, e.g. /0xwallet/badges
+    const requestPath = headers().get(REQUEST_PATH_HEADER) ?? "";
+    const rest = requestPath.replace(/^\/[^/?]*/, "");
+    redirect(
+      rest.startsWith("/")
+        ? `/${canonical}${rest}`
+        : `/${canonical}/stats${rest}`,
+    );
   }
 
   return (
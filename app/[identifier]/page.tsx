@@ -1,11 +1,25 @@
 import { redirect } from "next/navigation";
+import {
+  SCORER_QUERY_PARAM,
+  parseScorerSlug,
+  withScorerParam,
+} from "@/lib/scorer";
 
 export default async function PublicProfilePage({
   params,
+  searchParams,
 }: {
   params: { identifier: string };
+  searchParams: { [key: string]: string | string[] | undefined };
 }) {
   // Always redirect to stats tab by default
   // Layout already handles user resolution and canonical redirects
-  redirect(`/${params.identifier}/stats`);
+  // Keep the selected scorer so shared links open on the same score
+  const scorer = searchParams[SCORER_QUERY_PARAM];
+  redirect(
+    withScorerParam(
+      `/${params.identifier}/stats`,
+      parseScorerSlug(typeof scorer === "string" ? scorer : null),
+    ),
+  );
 }
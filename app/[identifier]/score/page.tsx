@@ -2,8 +2,10 @@
 
 import { ScoreProgressAccordion } from "@/components/profile/ScoreProgressAccordion";
 import { ScoreDataPoints } from "@/components/profile/ScoreDataPoints";
+import { CredentialChangesPanel } from "@/components/profile/CredentialChangesPanel";
 import { CredentialIdeasCallout } from "@/components/profile/CredentialIdeasCallout";
 import { useProfileHeaderData } from "@/hooks/useProfileHeaderData";
+import { useScorer } from "@/hooks/useScorer";
 
 interface ProfileScorePageProps {
   params: { identifier: string };
@@ -12,11 +14,19 @@ interface ProfileScorePageProps {
 export default function ProfileScorePage({ params }: ProfileScorePageProps) {
   const { profile } = useProfileHeaderData(params.identifier);
   const talentUUID = profile?.id;
+  const { scorerSlug } = useScorer();
 
   return (
     <div className="space-y-6">
-      <ScoreProgressAccordion talentUUID={talentUUID || ""} />
-      <ScoreDataPoints talentUUID={talentUUID || ""} />
+      <ScoreProgressAccordion
+        talentUUID={talentUUID || ""}
+        scorerSlug={scorerSlug}
+      />
+      <CredentialChangesPanel
+        talentUUID={talentUUID || ""}
+        scorerSlug={scorerSlug}
+      />
+      <ScoreDataPoints talentUUID={talentUUID || ""} scorerSlug={scorerSlug} />
       <CredentialIdeasCallout />
     </div>
   );
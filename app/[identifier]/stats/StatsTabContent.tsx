@@ -1,12 +1,15 @@
 "use client";
 
 import { SegmentedBar } from "@/components/common/SegmentedBar";
-import { useProfilePostsAll } from "@/hooks/useProfilePostsAll";
+import { useProfilePostStats } from "@/hooks/useProfilePostStats";
 import { useProfileSocialAccounts } from "@/hooks/useProfileSocialAccounts";
 import { useProfileEarningsBreakdown } from "@/hooks/useProfileEarningsBreakdown";
 import { useProfileCreatorScore } from "@/hooks/useProfileCreatorScore";
+import { useProfileScoreHistory } from "@/hooks/useProfileScoreHistory";
+import { useScorer } from "@/hooks/useScorer";
 import { calculateTotalFollowers, formatRewardValue } from "@/lib/utils";
 import { CreatorCategoryCard } from "@/components/profile/CreatorCategoryCard";
+import { ScoreHistoryChart } from "@/components/profile/ScoreHistoryChart";
 import { useProfileHeaderData } from "@/hooks/useProfileHeaderData";
 import type { SocialAccount } from "@/app/services/types";
 
@@ -79,10 +82,11 @@ export function StatsTabContent({ identifier }: StatsTabContentProps) {
   const talentUUID = profile?.id;
 
   const {
-    posts,
+    totalPosts,
+    platformCounts,
     loading: postsLoading,
     error: postsError,
-  } = useProfilePostsAll(talentUUID || "");
+  } = useProfilePostStats(talentUUID || "");
   const {
     socialAccounts,
     loading: socialAccountsLoading,
@@ -94,6 +98,12 @@ export function StatsTabContent({ identifier }: StatsTabContentProps) {
     error: earningsError,
   } = useProfileEarningsBreakdown(talentUUID || "");
   const { lastCalculatedAt } = useProfileCreatorScore(talentUUID || "");
+  const { scorerSlug, scorerLabel } = useScorer();
+  const {
+    history: scoreHistory,
+    loading: scoreHistoryLoading,
+    error: scoreHistoryError,
+  } = useProfileScoreHistory(talentUUID || "", scorerSlug);
 
   if (!talentUUID) {
     return <div>Loading...</div>;
@@ -187,24 +197,15 @@ export function StatsTabContent({ identifier }: StatsTabContentProps) {
 
   // Process posts breakdown by platform
   const processPostsBreakdown = () => {
-    if (!posts || posts.length === 0) {
+    if (!totalPosts) {
       return {
         totalPosts: 0,
         segments: [],
       };
     }
 
-    // Group posts by platform
-    const platformCounts = new Map<string, number>();
-    posts.forEach((post) => {
-      const platform = post.platform;
-      platformCounts.set(platform, (platformCounts.get(platform) || 0) + 1);
-    });
-
-    const totalPosts = posts.length;
-
     // Convert to segments format, only include platforms that have posts
-    const segments = Array.from(platformCounts.entries())
+    const segments = Object.entries(platformCounts)
       .map(([platform, count]) => {
         // Map platform names to display names
         const displayNames: Record<string, string> = {
@@ -240,6 +241,12 @@ export function StatsTabContent({ identifier }: StatsTabContentProps) {
         talentUUID={talentUUID}
         lastCalculatedAt={lastCalculatedAt}
       />
+      <ScoreHistoryChart
+        history={scoreHistory}
+        loading={scoreHistoryLoading}
+        error={scoreHistoryError}
+        scorerLabel={scorerLabel}
+      />
       <SegmentedBar
         title="Total Earnings"
         total={earningsBreakdownWithUrls?.totalEarnings || 0}
@@ -1,12 +1,16 @@
 "use client";
 
 import { SegmentedBar } from "@/components/common/SegmentedBar";
-import { useProfilePostsAll } from "@/hooks/useProfilePostsAll";
+import { useProfilePostStats } from "@/hooks/useProfilePostStats";
 import { useProfileSocialAccounts } from "@/hooks/useProfileSocialAccounts";
 import { useProfileEarningsBreakdown } from "@/hooks/useProfileEarningsBreakdown";
 import { useProfileCreatorScore } from "@/hooks/useProfileCreatorScore";
+import { useProfileScoreHistory } from "@/hooks/useProfileScoreHistory";
+import { useScorer } from "@/hooks/useScorer";
 import { calculateTotalFollowers, formatRewardValue } from "@/lib/utils";
 import { CreatorCategoryCard } from "@/components/profile/CreatorCategoryCard";
+import { ScoreHistoryChart } from "@/components/profile/ScoreHistoryChart";
+import { PostingStreakCard } from "@/components/profile/PostingStreakCard";
 import { useProfileHeaderData } from "@/hooks/useProfileHeaderData";
 import type { SocialAccount } from "@/app/services/types";
 
@@ -40,10 +44,12 @@ export default function ProfileStatsPage({ params }: ProfileStatsPageProps) {
   const { profile } = useProfileHeaderData(params.identifier);
   const talentUUID = profile?.id;
   const {
-    posts,
+    totalPosts,
+    platformCounts,
+    streaks: postingStreaks,
     loading: postsLoading,
     error: postsError,
-  } = useProfilePostsAll(talentUUID || "");
+  } = useProfilePostStats(talentUUID || "");
   const {
     socialAccounts,
     loading: socialAccountsLoading,
@@ -55,6 +61,12 @@ export default function ProfileStatsPage({ params }: ProfileStatsPageProps) {
     error: earningsError,
   } = useProfileEarningsBreakdown(talentUUID || "");
   const { lastCalculatedAt } = useProfileCreatorScore(talentUUID || "");
+  const { scorerSlug, scorerLabel } = useScorer();
+  const {
+    history: scoreHistory,
+    loading: scoreHistoryLoading,
+    error: scoreHistoryError,
+  } = useProfileScoreHistory(talentUUID || "", scorerSlug);
 
   const followersBreakdown = () => {
     if (!socialAccounts?.length) return { totalFollowers: 0, segments: [] };
@@ -115,15 +127,7 @@ export default function ProfileStatsPage({ params }: ProfileStatsPageProps) {
       : earningsBreakdown;
 
   const postsBreakdown = () => {
-    if (!posts?.length) return { totalPosts: 0, segments: [] };
-    const platformCounts = new Map<string, number>();
-    posts.forEach((post) =>
-      platformCounts.set(
-        post.platform,
-        (platformCounts.get(post.platform) || 0) + 1,
-      ),
-    );
-    const totalPosts = posts.length;
+    if (!totalPosts) return { totalPosts: 0, segments: [] };
     const displayNames: Record<string, string> = {
       paragraph: "Paragraph",
       zora: "Zora",
@@ -131,7 +135,7 @@ export default function ProfileStatsPage({ params }: ProfileStatsPageProps) {
       farcaster: "Farcaster",
       lens: "Lens",
     };
-    const segments = Array.from(platformCounts.entries())
+    const segments = Object.entries(platformCounts)
       .map(([platform, count]) => ({
         name: displayNames[platform] || platform,
         value: count,
@@ -151,6 +155,12 @@ export default function ProfileStatsPage({ params }: ProfileStatsPageProps) {
         talentUUID={talentUUID}
         lastCalculatedAt={lastCalculatedAt}
       />
+      <ScoreHistoryChart
+        history={scoreHistory}
+        loading={scoreHistoryLoading}
+        error={scoreHistoryError}
+        scorerLabel={scorerLabel}
+      />
       <SegmentedBar
         title="Total Earnings"
         total={earningsBreakdownWithUrls?.totalEarnings || 0}
@@ -178,6 +188,11 @@ export default function ProfileStatsPage({ params }: ProfileStatsPageProps) {
         loading={postsLoading}
         error={postsError}
       />
+      <PostingStreakCard
+        streaks={postingStreaks}
+        loading={postsLoading}
+        error={postsError}
+      />
     </div>
   );
 }
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { createAuthNonce } from "@/lib/auth";
+import { createServerErrorResponse } from "@/lib/api-utils";
+
+export async function GET() {
+  const nonce = await createAuthNonce();
+  if (!nonce) {
+    return createServerErrorResponse("Sign in is not available");
+  }
+
+  return NextResponse.json({ nonce });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuthSession, verifySignIn } from "@/lib/auth";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+
+/**
+ * Exchanges a signed Sign In With Farcaster message for a session token
+ */
+export async function POST(req: NextRequest) {
+  const { message, signature } = await req.json().catch(() => ({}));
+  if (typeof message !== "string" || typeof signature !== "string") {
+    return createBadRequestResponse("Missing message or signature");
+  }
+
+  try {
+    const fid = await verifySignIn(message, signature);
+    if (!fid) {
+      return createErrorResponse("Invalid sign in", 401);
+    }
+
+    const token = await createAuthSession(fid);
+    if (!token) {
+      return createServerErrorResponse("Sign in is not available");
+    }
+
+    return NextResponse.json({ token, fid });
+  } catch (error) {
+    logApiError(
+      "verifySignIn",
+      "session",
+      error instanceof Error ? error.message : String(error),
+    );
+    return createErrorResponse("Invalid sign in", 401);
+  }
+}
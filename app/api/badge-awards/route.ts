@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { talentApiClient } from "@/lib/talent-api-client";
+import { getBadges } from "@/lib/badges";
+import { getNotificationFids } from "@/lib/notification";
+import {
+  createServerErrorResponse,
+  logApiError,
+  verifyCronRequest,
+} from "@/lib/api-utils";
+
+// Each creator's badges walk their credentials and every page of their posts
+export const maxDuration = 300;
+
+type EvaluationResult = "evaluated" | "skipped" | "failed";
+
+async function evaluateBadges(fid: number): Promise<EvaluationResult> {
+  const response = await talentApiClient.getProfile({
+    id: String(fid),
+    account_source: "farcaster",
+  });
+  if (response.status === 404) {
+    return "skipped"; // no Talent profile for this user
+  }
+  if (!response.ok) {
+    return "failed";
+  }
+
+  const profile = await response.json();
+  await getBadges(profile.id, true);
+  return "evaluated";
+}
+
+/**
+ * Evaluates the badges of every creator with notifications enabled, recording the
+ * ones they've unlocked since the last evaluation and notifying them about it.
+ * Meant to be called by a cron job.
+ */
+export async function GET(req: NextRequest) {
+  const unauthorized = verifyCronRequest(req);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const fids = await getNotificationFids();
+    const summary: Record<EvaluationResult, number> = {
+      evaluated: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    // One at a time, so a run doesn't burst the Talent API with every creator at once
+    for (const fid of fids) {
+      const result = await evaluateBadges(fid).catch(
+        (error): EvaluationResult => {
+          console.error(`[badgeAwards] Failed to evaluate fid ${fid}:`, error);
+          return "failed";
+        },
+      );
+      summary[result]++;
+    }
+
+    return NextResponse.json({ checked: fids.length, ...summary });
+  } catch (error) {
+    logApiError(
+      "evaluateBadgeAwards",
+      "all",
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to evaluate badge awards");
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBadges } from "@/lib/badges";
+import { getAuthenticatedFid, isProfileOwner } from "@/lib/auth";
+import { setCreatorTimeZone } from "@/lib/creator-timezones";
+import {
+  createBadRequestResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+
+/**
+ * Returns which badges a creator has unlocked. The signed-in profile owner's own
+ * requests record new awards, as the api/badge-awards cron does for everyone with
+ * notifications enabled; their `timezone` param (an IANA name) is then kept as
+ * the creator's for streaks.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const talentId = searchParams.get("talent_id");
+
+  if (!talentId) {
+    return createBadRequestResponse("Missing talent_id");
+  }
+
+  try {
+    const fid = await getAuthenticatedFid(req);
+    const isOwner = fid !== null && (await isProfileOwner(fid, talentId));
+    const timeZone = searchParams.get("timezone");
+    if (isOwner && timeZone) {
+      await setCreatorTimeZone(talentId, timeZone);
+    }
+    return NextResponse.json(await getBadges(talentId, isOwner));
+  } catch (error) {
+    logApiError(
+      "getBadges",
+      talentId,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to fetch badges");
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refreshCategoryLeaderboards } from "@/lib/category-leaderboards";
+import {
+  createServerErrorResponse,
+  logApiError,
+  verifyCronRequest,
+} from "@/lib/api-utils";
+
+// Checking every candidate's credentials takes a while
+export const maxDuration = 300;
+
+/**
+ * Recomputes the per-category leaderboards. Meant to be called by a cron job.
+ */
+export async function GET(req: NextRequest) {
+  const unauthorized = verifyCronRequest(req);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const apiKey = process.env.TALENT_API_KEY;
+  if (!apiKey) {
+    return createServerErrorResponse("Missing Talent API key");
+  }
+
+  try {
+    const counts = await refreshCategoryLeaderboards(apiKey);
+    return NextResponse.json({ categories: counts });
+  } catch (error) {
+    logApiError(
+      "refreshCategoryLeaderboards",
+      "all",
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to refresh category leaderboards");
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedFid, isProfileOwner } from "@/lib/auth";
+import {
+  isCreatorCategory,
+  setSelfReportedCategory,
+} from "@/lib/creator-categories";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+
+/**
+ * Saves the category a creator picked for their own profile; null clears it
+ */
+export async function POST(req: NextRequest) {
+  const { talent_protocol_id, category } = await req.json().catch(() => ({}));
+
+  if (!talent_protocol_id) {
+    return createBadRequestResponse("Missing talent_protocol_id");
+  }
+  if (category !== null && !isCreatorCategory(category)) {
+    return createBadRequestResponse("Invalid category");
+  }
+
+  const fid = await getAuthenticatedFid(req);
+  if (!fid) {
+    return createErrorResponse("Sign in to set your category", 401);
+  }
+  if (!(await isProfileOwner(fid, talent_protocol_id))) {
+    return createErrorResponse("You can only set your own category", 403);
+  }
+
+  try {
+    await setSelfReportedCategory(talent_protocol_id, category);
+    return NextResponse.json({ category });
+  } catch (error) {
+    logApiError(
+      "setSelfReportedCategory",
+      talent_protocol_id,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to save category");
+  }
+}
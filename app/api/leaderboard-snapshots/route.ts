@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getActiveRounds } from "@/lib/rounds";
+import {
+  getPreviousDaySnapshot,
+  takeLeaderboardSnapshot,
+} from "@/lib/leaderboard-snapshots";
+import { raiseModerationFlags } from "@/lib/moderation";
+import {
+  createServerErrorResponse,
+  logApiError,
+  verifyCronRequest,
+} from "@/lib/api-utils";
+
+/**
+ * Records the daily leaderboard snapshot of every running round, used for
+ * rank movement, and raises moderation flags when MODERATION_AUTO_FLAGS=true.
+ * Meant to be called by a cron job once a day.
+ */
+export async function GET(req: NextRequest) {
+  const unauthorized = verifyCronRequest(req);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const apiKey = process.env.TALENT_API_KEY;
+  if (!apiKey) {
+    return createServerErrorResponse("Missing Talent API key");
+  }
+
+  const autoFlags = process.env.MODERATION_AUTO_FLAGS === "true";
+  const snapshots: Record<string, number> = {};
+  const flagged: Record<string, number> = {};
+  for (const round of await getActiveRounds()) {
+    try {
+      const snapshot = await takeLeaderboardSnapshot(round, apiKey);
+      snapshots[round.id] = snapshot.entries.length;
+
+      if (autoFlags) {
+        flagged[round.id] = await raiseModerationFlags(
+          snapshot,
+          await getPreviousDaySnapshot(snapshot),
+        );
+      }
+    } catch (error) {
+      logApiError(
+        "takeLeaderboardSnapshot",
+        round.id,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  return NextResponse.json({ snapshots, ...(autoFlags ? { flagged } : {}) });
+}
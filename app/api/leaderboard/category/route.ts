@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCategoryLeaderboard } from "@/lib/category-leaderboards";
+import { isCreatorCategory } from "@/lib/creator-categories";
+import {
+  createBadRequestResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+import type { CategoryLeaderboardResponse } from "@/app/services/types";
+
+/**
+ * Returns a page of creators ranked by their points in one category,
+ * as of the last refresh
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const category = searchParams.get("category");
+  const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+  const perPage = Math.min(
+    Math.max(parseInt(searchParams.get("per_page") || "25", 10) || 25, 1),
+    100,
+  );
+
+  if (!isCreatorCategory(category)) {
+    return createBadRequestResponse("Invalid category");
+  }
+
+  try {
+    const leaderboard = await getCategoryLeaderboard(category);
+    const entries = leaderboard?.entries ?? [];
+    const response: CategoryLeaderboardResponse = {
+      category,
+      entries: entries.slice((page - 1) * perPage, page * perPage),
+      total: entries.length,
+      updatedAt: leaderboard?.updatedAt ?? null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    logApiError(
+      "getCategoryLeaderboard",
+      category,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to fetch category leaderboard");
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFollowingLeaderboard } from "@/lib/following-leaderboard";
+import { getAuthenticatedFid } from "@/lib/auth";
+import {
+  createErrorResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+
+/**
+ * Returns the creators the signed-in Farcaster user follows, and the user, ranked
+ * by Creator Score
+ */
+export async function GET(req: NextRequest) {
+  const fid = await getAuthenticatedFid(req);
+  if (!fid) {
+    return createErrorResponse("Sign in to see who you follow", 401);
+  }
+
+  try {
+    return NextResponse.json(await getFollowingLeaderboard(fid));
+  } catch (error) {
+    logApiError(
+      "getFollowingLeaderboard",
+      `fid:${fid}`,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to fetch following leaderboard");
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SCORER_SLUGS, type RewardsRound } from "@/app/services/types";
+import { GET } from "./route";
+
+const round: RewardsRound = {
+  id: "test-round",
+  name: "Test Round",
+  startsAt: "2025-07-01T00:00:00Z",
+  endsAt: "2025-07-31T23:59:59Z",
+  status: "active",
+  scorerSlug: SCORER_SLUGS.CREATOR,
+  eligibilityRules: [{ type: "humanity" }],
+  eligibilityMinScore: 1,
+  distribution: { type: "proportional" },
+  maxPayoutPerCreator: null,
+  poolAmount: 100,
+  poolAddress: "0x0000000000000000000000000000000000000000",
+  sponsors: [],
+};
+
+vi.mock("@/lib/rounds", () => ({
+  getRewardsRound: async () => round,
+}));
+vi.mock("@/lib/payouts", () => ({
+  getRewardsByTalentId: async () => new Map<string, string>(),
+}));
+vi.mock("@/lib/moderation", () => ({
+  getHiddenIds: async () => new Set<string>(),
+  getHiddenScores: async () => ({}),
+  countHiddenWithMinScore: () => 0,
+}));
+vi.mock("@/lib/leaderboard", () => ({
+  countProfilesWithMinScore: async () => 1,
+  fetchLeaderboardEntryAt: async () => null,
+  getRankForScore: async () => 1,
+}));
+
+// Stands in for the Talent API, which getProfile flattens before the route reads it
+function stubTalentApi(humanCheckmark: boolean) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const { pathname } = new URL(url);
+      const body =
+        pathname === "/profile"
+          ? {
+              profile: {
+                id: "talent-1",
+                display_name: "Creator",
+                human_checkmark: humanCheckmark,
+                accounts: [],
+              },
+            }
+          : { score: { points: 120, last_calculated_at: null } };
+      return new Response(JSON.stringify(body), {
+        headers: { "content-type": "application/json" },
+      });
+    }),
+  );
+}
+
+function rankRequest() {
+  return new NextRequest(
+    `http://localhost/api/leaderboard/rank?talent_id=talent-1&scorer_slug=${SCORER_SLUGS.CREATOR}`,
+  );
+}
+
+describe("GET /api/leaderboard/rank", () => {
+  beforeEach(() => {
+    vi.stubEnv("TALENT_API_KEY", "test-key");
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("counts a verified human as eligible", async () => {
+    stubTalentApi(true);
+
+    const res = await GET(rankRequest());
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).ineligibleReason).toBeNull();
+  });
+
+  it("reports the humanity rule for a creator without the checkmark", async () => {
+    stubTalentApi(false);
+
+    const res = await GET(rankRequest());
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).ineligibleReason).toBe("humanity");
+  });
+});
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from "next/server";
+import { talentApiClient } from "@/lib/talent-api-client";
+import { parseScorerSlug } from "@/lib/scorer";
+import {
+  countProfilesWithMinScore,
+  fetchLeaderboardEntryAt,
+  getRankForScore,
+} from "@/lib/leaderboard";
+import { getRewardsRound } from "@/lib/rounds";
+import { getRewardsByTalentId } from "@/lib/payouts";
+import { getIneligibleReason, requiresHumanity } from "@/lib/eligibility";
+import {
+  countHiddenWithMinScore,
+  getHiddenIds,
+  getHiddenScores,
+  type HiddenScores,
+} from "@/lib/moderation";
+import {
+  createBadRequestResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+import type {
+  LeaderboardEntry,
+  LeaderboardPosition,
+  RewardsRound,
+  ScorerSlug,
+} from "@/app/services/types";
+
+// Creators shown on each side of the requested one
+const NEIGHBOURS = 2;
+
+async function getScore(
+  talentId: string,
+  scorerSlug: ScorerSlug,
+): Promise<number> {
+  const res = await talentApiClient.getScore({
+    talent_protocol_id: talentId,
+    scorer_slug: scorerSlug,
+  });
+  const data = await res.json();
+  if (!res.ok || data.error) {
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return data.score?.points ?? 0;
+}
+
+// Read from the profile, like the leaderboard entries the payouts are calculated from.
+// getProfile returns the profile flattened, so the checkmark sits at the top level.
+async function getHumanCheckmark(talentId: string): Promise<boolean> {
+  const res = await talentApiClient.getProfile({ id: talentId });
+  const data = await res.json();
+  if (!res.ok || data.error) {
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return data.human_checkmark === true;
+}
+
+/**
+ * Walks away from the creator one position at a time from offset, skipping
+ * hidden profiles, until NEIGHBOURS creators are found or the leaderboard ends
+ */
+async function getNeighbours(
+  scorerSlug: ScorerSlug,
+  offset: number,
+  direction: 1 | -1,
+  total: number,
+  apiKey: string,
+  hiddenIds: Set<string>,
+  hiddenScores: HiddenScores,
+  round: RewardsRound | null,
+  rewards: Map<string, string> | null,
+): Promise<LeaderboardEntry[]> {
+  const entries: Omit<LeaderboardEntry, "rank">[] = [];
+  for (
+    let at = offset;
+    entries.length < NEIGHBOURS && at >= 0 && at < total;
+    at += direction
+  ) {
+    const entry = await fetchLeaderboardEntryAt(scorerSlug, at, apiKey);
+    if (!entry) break;
+    if (!hiddenIds.has(entry.id)) entries.push(entry);
+  }
+  if (direction === -1) {
+    entries.reverse();
+  }
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      ...entry,
+      rewards: rewards ? (rewards.get(entry.id) ?? "$0") : "-",
+      ...(round ? { ineligibleReason: getIneligibleReason(round, entry) } : {}),
+      rank:
+        (await getRankForScore(scorerSlug, entry.score, apiKey)) -
+        countHiddenWithMinScore(hiddenScores, Math.floor(entry.score) + 1),
+    })),
+  );
+}
+
+/**
+ * Returns a creator's exact rank on the full leaderboard, how many creators
+ * share it, the creators just above and below them, and which of the rewards
+ * round's rules they miss
+ */
+export async function GET(req: NextRequest) {
+  const apiKey = process.env.TALENT_API_KEY;
+  if (!apiKey) {
+    return createServerErrorResponse("Missing Talent API key");
+  }
+
+  const { searchParams } = req.nextUrl;
+  const talentId = searchParams.get("talent_id");
+  const scorerSlug = parseScorerSlug(searchParams.get("scorer_slug"));
+
+  if (!talentId) {
+    return createBadRequestResponse("Missing talent_id");
+  }
+
+  try {
+    const rewardsRound = await getRewardsRound();
+    const round = rewardsRound?.scorerSlug === scorerSlug ? rewardsRound : null;
+
+    const hiddenIds = await getHiddenIds();
+    const [score, humanCheckmark, listed, hiddenScores] = await Promise.all([
+      getScore(talentId, scorerSlug),
+      round && requiresHumanity(round)
+        ? getHumanCheckmark(talentId)
+        : undefined,
+      countProfilesWithMinScore(scorerSlug, 1, apiKey),
+      getHiddenScores(scorerSlug),
+    ]);
+    const eligibility = round
+      ? {
+          ineligibleReason: getIneligibleReason(round, {
+            score,
+            humanCheckmark,
+          }),
+        }
+      : {};
+    // Counts from the search API include hidden profiles, which are taken back out
+    const total = listed - countHiddenWithMinScore(hiddenScores, 1);
+
+    // Hidden creators aren't ranked, like creators without a score
+    if (score < 1 || hiddenIds.has(talentId)) {
+      const position: LeaderboardPosition = {
+        talent_protocol_id: talentId,
+        score,
+        rank: null,
+        tiedWith: 0,
+        total,
+        above: [],
+        below: [],
+        ...eligibility,
+      };
+      return NextResponse.json(position);
+    }
+
+    // Everyone with a higher score ranks above; everyone with the same score shares the rank
+    const [listedHigher, listedAtLeast] = await Promise.all([
+      countProfilesWithMinScore(scorerSlug, Math.floor(score) + 1, apiKey),
+      countProfilesWithMinScore(scorerSlug, Math.floor(score), apiKey),
+    ]);
+    const higher =
+      listedHigher -
+      countHiddenWithMinScore(hiddenScores, Math.floor(score) + 1);
+    const atLeast =
+      listedAtLeast - countHiddenWithMinScore(hiddenScores, Math.floor(score));
+
+    const rewards = round ? await getRewardsByTalentId(round) : null;
+
+    // Neighbours are found by position in the search API, hidden profiles included
+    const [above, below] = await Promise.all([
+      getNeighbours(
+        scorerSlug,
+        listedHigher - 1,
+        -1,
+        listed,
+        apiKey,
+        hiddenIds,
+        hiddenScores,
+        round,
+        rewards,
+      ),
+      getNeighbours(
+        scorerSlug,
+        listedAtLeast,
+        1,
+        listed,
+        apiKey,
+        hiddenIds,
+        hiddenScores,
+        round,
+        rewards,
+      ),
+    ]);
+
+    const position: LeaderboardPosition = {
+      talent_protocol_id: talentId,
+      score,
+      rank: higher + 1,
+      tiedWith: Math.max(atLeast - higher - 1, 0),
+      total,
+      above,
+      below,
+      ...eligibility,
+    };
+    return NextResponse.json(position);
+  } catch (error) {
+    logApiError(
+      "getLeaderboardPosition",
+      talentId,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to fetch leaderboard position");
+  }
+}
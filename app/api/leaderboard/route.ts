@@ -1,12 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
-
-type Profile = {
-  id: string;
-  display_name?: string;
-  name?: string;
-  image_url?: string;
-  scores?: { slug: string; points?: number }[];
-};
+import { parseScorerSlug } from "@/lib/scorer";
+import {
+  TalentApiSchemaError,
+  createSchemaErrorResponse,
+} from "@/lib/talent-api-schemas";
+import {
+  type LeaderboardProfile,
+  type ProfilesSearchResult,
+  buildProfilesSearchQueryString,
+  fetchProfilesSearch,
+  fetchVisibleLeaderboardPage,
+  rankLeaderboardPage,
+  toLeaderboardEntry,
+} from "@/lib/leaderboard";
+import { getRewardsRound } from "@/lib/rounds";
+import { getRewardsByTalentId } from "@/lib/payouts";
+import { getLatestSnapshot, withMovement } from "@/lib/leaderboard-snapshots";
+import { getIneligibleReason } from "@/lib/eligibility";
+import {
+  countHiddenWithMinScore,
+  getHiddenIds,
+  getHiddenScores,
+  type HiddenScores,
+} from "@/lib/moderation";
+import { LEVEL_RANGES } from "@/lib/constants";
+import { createServerErrorResponse, logApiError } from "@/lib/api-utils";
+import type { LeaderboardEntry, RewardsRound } from "@/app/services/types";
+
+// Outside the rewards round's scorer, "eligible" means Level 3+
+const LEVEL_3_MIN_SCORE = LEVEL_RANGES[2].min;
+
+function createLeaderboardErrorResponse(
+  error: unknown,
+  scorerSlug: string,
+): NextResponse {
+  if (error instanceof TalentApiSchemaError) {
+    return createSchemaErrorResponse(error);
+  }
+  logApiError(
+    "getLeaderboard",
+    scorerSlug,
+    error instanceof Error ? error.message : String(error),
+  );
+  return createServerErrorResponse("Failed to fetch leaderboard");
+}
 
 export async function GET(req: NextRequest) {
   const apiKey = process.env.TALENT_API_KEY;
@@ -23,93 +60,67 @@ export async function GET(req: NextRequest) {
     10,
   );
   const statsOnly = searchParams.get("statsOnly") === "true";
+  const scorerSlug = parseScorerSlug(searchParams.get("scorer_slug"));
 
-  const baseUrl = "https://api.talentprotocol.com/search/advanced/profiles";
-
-  // Build query object based on what we need
-  const query: {
-    score: {
-      min: number;
-      scorer: string;
-    };
-  } = {
-    score: {
-      min: 1,
-      scorer: "Creator Score",
-    },
-  };
-
-  const data = {
-    query,
-    sort: {
-      score: { order: "desc", scorer: "Creator Score" },
-      id: { order: "desc" },
-    },
+  const queryString = buildProfilesSearchQueryString({
+    scorerSlug,
     page,
-    per_page: perPage,
-  };
-
-  const queryString = [
-    `query=${encodeURIComponent(JSON.stringify(data.query))}`,
-    `sort=${encodeURIComponent(JSON.stringify(data.sort))}`,
-    `page=${page}`,
-    `per_page=${perPage}`,
-  ].join("&");
-
-  const res = await fetch(`${baseUrl}?${queryString}`, {
-    headers: {
-      Accept: "application/json",
-      "X-API-KEY": apiKey,
-    },
+    perPage,
   });
+
+  let rewardsRound: RewardsRound | null;
+  let res: ProfilesSearchResult;
+  let hiddenIds: Set<string>;
+  let hiddenScores: HiddenScores;
+  try {
+    rewardsRound = await getRewardsRound();
+    res = await fetchProfilesSearch(queryString, apiKey);
+    // Hidden profiles are left out of pages, ranks and counts alike
+    hiddenIds = await getHiddenIds();
+    hiddenScores = await getHiddenScores(scorerSlug);
+  } catch (error) {
+    return createLeaderboardErrorResponse(error, scorerSlug);
+  }
   if (!res.ok) {
-    const errorText = await res.text();
-    return NextResponse.json({ error: errorText }, { status: res.status });
+    return NextResponse.json({ error: res.body }, { status: res.status });
   }
-  const json = await res.json();
+  const json = res.body;
+
+  // Rewards and eligibility follow the round when it's paid on this scorer
+  const round = rewardsRound?.scorerSlug === scorerSlug ? rewardsRound : null;
+  const minScore = round ? round.eligibilityMinScore : null;
 
   // If we only want stats, return them directly
   if (statsOnly) {
-    const totalCreators = json.pagination?.total || 0;
-    // For minScore, we could either:
-    // 1. Use a fixed threshold (e.g., 100 points)
-    // 2. Fetch the 100th creator specifically
-    // 3. Use the lowest score in the current page
-    // Let's use option 1 for now - a fixed minimum of 100 points to qualify for rewards
-    const minScore = 100;
-
-    // Fetch eligible creators count (score >= 80, which is Level 3+)
-    const eligibleQuery = {
-      score: {
-        min: 80,
-        scorer: "Creator Score",
-      },
-    };
-
-    const eligibleData = {
-      query: eligibleQuery,
-      page: 1,
-      per_page: 1, // We only need the count, not the actual profiles
-    };
-
-    const eligibleQueryString = [
-      `query=${encodeURIComponent(JSON.stringify(eligibleData.query))}`,
-      `page=1`,
-      `per_page=1`,
-    ].join("&");
+    const totalCreators = Math.max(
+      (json.pagination?.total || 0) - countHiddenWithMinScore(hiddenScores, 1),
+      0,
+    );
+
+    // Fetch eligible creators count
+    const eligibleQueryString = buildProfilesSearchQueryString({
+      scorerSlug,
+      minScore: minScore ?? LEVEL_3_MIN_SCORE,
+      perPage: 1, // We only need the count, not the actual profiles
+      sorted: false,
+    });
 
     try {
-      const eligibleRes = await fetch(`${baseUrl}?${eligibleQueryString}`, {
-        headers: {
-          Accept: "application/json",
-          "X-API-KEY": apiKey,
-        },
-      });
+      const eligibleRes = await fetchProfilesSearch(
+        eligibleQueryString,
+        apiKey,
+      );
 
       let eligibleCreators = 0;
       if (eligibleRes.ok) {
-        const eligibleJson = await eligibleRes.json();
-        eligibleCreators = eligibleJson.pagination?.total || 0;
+        eligibleCreators = Math.max(
+          (eligibleRes.body.pagination?.total || 0) -
+            countHiddenWithMinScore(
+              hiddenScores,
+              minScore ?? LEVEL_3_MIN_SCORE,
+            ),
+          0,
+        );
       }
 
       return NextResponse.json({
@@ -128,55 +139,56 @@ export async function GET(req: NextRequest) {
     }
   }
 
-  // Step 1: Map each profile to its highest Creator Score
-  const mapped = (json.profiles || []).map((profile: Profile) => {
-    const p = profile;
-    const creatorScores = Array.isArray(p.scores)
-      ? p.scores
-          .filter((s) => s.slug === "creator_score")
-          .map((s) => s.points ?? 0)
-      : [];
-    const score = creatorScores.length > 0 ? Math.max(...creatorScores) : 0;
-    return {
-      name: p.display_name || p.name || "Unknown",
-      pfp: p.image_url || undefined,
-      score,
-      rewards: "-", // To be calculated later
-      id: p.id,
-      talent_protocol_id: p.id, // Add the missing talent_protocol_id field
-    };
-  });
-
-  // Step 2: Sort by score descending
-  mapped.sort(
-    (a: { score: number }, b: { score: number }) => b.score - a.score,
+  // Step 1: Map each profile to its highest score for the selected scorer
+  const mapped = (json.profiles || []).map((profile: LeaderboardProfile) =>
+    toLeaderboardEntry(profile, scorerSlug),
   );
 
-  // Step 3: Assign ranks
-  let lastScore: number | null = null;
-  let lastRank = 0;
-  let ties = 0;
-  const ranked = mapped.map((entry: { score: number }, idx: number) => {
-    let rank;
-    if (entry.score === lastScore) {
-      rank = lastRank;
-      ties++;
-    } else {
-      rank = idx + 1;
-      if (ties > 0) rank = lastRank + ties;
-      lastScore = entry.score;
-      lastRank = rank;
-      ties = 1;
-    }
-    return {
+  // Step 2: Rank against the whole leaderboard, not just this page
+  const rewards = round ? await getRewardsByTalentId(round) : null;
+  let ranked: LeaderboardEntry[];
+  try {
+    ranked = (
+      hiddenIds.size > 0
+        ? await fetchVisibleLeaderboardPage(
+            scorerSlug,
+            page,
+            perPage,
+            hiddenIds,
+            hiddenScores,
+            apiKey,
+          )
+        : await rankLeaderboardPage<Omit<LeaderboardEntry, "rank">>(
+            mapped,
+            (page - 1) * perPage,
+            scorerSlug,
+            apiKey,
+          )
+    ).map((entry) => ({
       ...entry,
-      rank,
-    };
-  });
+      // Creators missing from the manifest aren't eligible this round
+      rewards: rewards ? (rewards.get(entry.id) ?? "$0") : "-",
+      ...(round ? { ineligibleReason: getIneligibleReason(round, entry) } : {}),
+    }));
+  } catch (error) {
+    return createLeaderboardErrorResponse(error, scorerSlug);
+  }
+
+  // Movement since the round's last daily snapshot
+  if (round) {
+    try {
+      ranked = withMovement(ranked, await getLatestSnapshot(round.id));
+    } catch (error) {
+      console.error("Failed to load leaderboard snapshot:", error);
+    }
+  }
 
-  // Calculate stats for backward compatibility
-  const minScore = 100; // Fixed threshold for rewards qualification
-  const totalCreators = json.pagination?.total || ranked.length;
+  const totalCreators = json.pagination?.total
+    ? Math.max(
+        json.pagination.total - countHiddenWithMinScore(hiddenScores, 1),
+        0,
+      )
+    : ranked.length;
 
   return NextResponse.json({ entries: ranked, minScore, totalCreators });
 }
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedFid } from "@/lib/auth";
+import {
+  dismissFlag,
+  getHiddenProfiles,
+  getModerationFlags,
+  getModerationLog,
+  hideProfile,
+  isModerationAdmin,
+  unhideProfile,
+} from "@/lib/moderation";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+import type { ModerationResponse } from "@/app/services/types";
+
+const MODERATION_ACTIONS = ["hide", "unhide", "dismiss_flag"];
+
+async function getModerationAdmin(
+  req: NextRequest,
+): Promise<{ fid: number } | NextResponse> {
+  const fid = await getAuthenticatedFid(req);
+  if (!fid) {
+    return createErrorResponse("Sign in to moderate the leaderboard", 401);
+  }
+  if (!isModerationAdmin(fid)) {
+    return createErrorResponse("Only admins can moderate the leaderboard", 403);
+  }
+  return { fid };
+}
+
+/**
+ * Returns the hidden profiles, open flags and recent audit log for admins
+ */
+export async function GET(req: NextRequest) {
+  const admin = await getModerationAdmin(req);
+  if (admin instanceof NextResponse) {
+    return admin;
+  }
+
+  try {
+    const [hidden, flags, audit] = await Promise.all([
+      getHiddenProfiles(),
+      getModerationFlags(),
+      getModerationLog(),
+    ]);
+    const response: ModerationResponse = { hidden, flags, audit };
+    return NextResponse.json(response);
+  } catch (error) {
+    logApiError(
+      "getModeration",
+      `fid:${admin.fid}`,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to fetch moderation list");
+  }
+}
+
+/**
+ * Hides or unhides a profile, or dismisses its flag. Every change is written to the audit log.
+ */
+export async function POST(req: NextRequest) {
+  const { action, talent_protocol_id, reason } = await req
+    .json()
+    .catch(() => ({}));
+
+  if (!MODERATION_ACTIONS.includes(action)) {
+    return createBadRequestResponse(
+      `action must be one of ${MODERATION_ACTIONS.join(", ")}`,
+    );
+  }
+  if (!talent_protocol_id || typeof talent_protocol_id !== "string") {
+    return createBadRequestResponse("Missing talent_protocol_id");
+  }
+  const trimmedReason = typeof reason === "string" ? reason.trim() : "";
+  if (action === "hide" && !trimmedReason) {
+    return createBadRequestResponse("A reason is required to hide a profile");
+  }
+
+  const admin = await getModerationAdmin(req);
+  if (admin instanceof NextResponse) {
+    return admin;
+  }
+
+  try {
+    if (action === "hide") {
+      return NextResponse.json({
+        hidden: await hideProfile(talent_protocol_id, trimmedReason, admin.fid),
+      });
+    }
+
+    const changed =
+      action === "unhide"
+        ? await unhideProfile(
+            talent_protocol_id,
+            trimmedReason || null,
+            admin.fid,
+          )
+        : await dismissFlag(
+            talent_protocol_id,
+            trimmedReason || null,
+            admin.fid,
+          );
+    if (!changed) {
+      return createNotFoundResponse(
+        action === "unhide"
+          ? "Profile is not hidden"
+          : "Profile is not flagged",
+      );
+    }
+    return NextResponse.json({ action, talent_protocol_id });
+  } catch (error) {
+    logApiError(
+      "moderate",
+      talent_protocol_id,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to update moderation list");
+  }
+}
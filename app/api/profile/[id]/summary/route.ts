@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import { talentApiClient } from "@/lib/talent-api-client";
+import { getAccountSource } from "@/lib/user-resolver";
+import { getEthUsdcPrice } from "@/lib/utils";
+import { recordScoreSnapshot } from "@/lib/score-history";
+import { getCreatorTimeZone } from "@/lib/creator-timezones";
+import { fetchAllPosts } from "@/lib/posts";
+import {
+  createBadRequestResponse,
+  createNotFoundResponse,
+  readJson,
+} from "@/lib/api-utils";
+import { parseScoreResponse } from "@/app/services/scoresService";
+import { transformSocialAccounts } from "@/app/services/socialAccountsService";
+import { groupCredentialsByIssuer } from "@/app/services/credentialsService";
+import {
+  getEarningsBreakdownFromCredentials,
+  getTotalEarningsFromCredentials,
+} from "@/app/services/earningsService";
+import { aggregatePosts } from "@/app/services/postsService";
+import {
+  SCORER_SLUGS,
+  type CreatorScore,
+  type CredentialsResponse,
+  type IssuerCredentialGroup,
+  type ProfileSummary,
+  type ProfileSummarySection,
+  type ProfileSummaryUser,
+} from "@/app/services/types";
+import type {
+  TalentScoreApiResponse,
+  TalentSocialsApiResponse,
+} from "@/lib/talent-api-schemas";
+
+type SummarySections = Omit<
+  ProfileSummary,
+  "talentUuid" | "profile" | "timeZone"
+>;
+type PendingSections = {
+  [K in keyof SummarySections]: Promise<SummarySections[K]>;
+};
+
+async function readSection<T>(
+  load: () => Promise<T>,
+): Promise<ProfileSummarySection<T>> {
+  try {
+    return { data: await load(), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function loadProfile(id: string): Promise<ProfileSummaryUser> {
+  return readJson<ProfileSummaryUser>(
+    talentApiClient.getProfile({ id, account_source: getAccountSource(id) }),
+  );
+}
+
+function loadSections(
+  talentUuid: string,
+  timeZone: Promise<string>,
+): PendingSections {
+  const credentials = readSection<IssuerCredentialGroup[]>(async () => {
+    const data = await readJson<CredentialsResponse>(
+      talentApiClient.getCredentials({
+        talent_protocol_id: talentUuid,
+        scorer_slug: SCORER_SLUGS.CREATOR,
+      }),
+    );
+    return groupCredentialsByIssuer(data.credentials);
+  });
+  const ethPrice = getEthUsdcPrice();
+
+  return {
+    creatorScore: readSection<CreatorScore>(async () =>
+      parseScoreResponse(
+        await readJson<TalentScoreApiResponse>(
+          talentApiClient.getScore({
+            talent_protocol_id: talentUuid,
+            scorer_slug: SCORER_SLUGS.CREATOR,
+          }),
+        ),
+      ),
+    ),
+    socialAccounts: readSection(async () => {
+      const data = await readJson<TalentSocialsApiResponse>(
+        talentApiClient.getSocials({ talent_protocol_id: talentUuid }),
+      );
+      return transformSocialAccounts(data.socials);
+    }),
+    credentials,
+    totalEarnings: credentials.then((section) =>
+      section.data
+        ? readSection(async () =>
+            getTotalEarningsFromCredentials(section.data, await ethPrice),
+          )
+        : section,
+    ),
+    earningsBreakdown: credentials.then((section) =>
+      section.data
+        ? readSection(async () =>
+            getEarningsBreakdownFromCredentials(section.data, await ethPrice),
+          )
+        : section,
+    ),
+    // Streaks are counted in the creator's time zone, as their streak badges are
+    posts: readSection(async () =>
+      aggregatePosts(await fetchAllPosts(talentUuid), await timeZone),
+    ),
+  };
+}
+
+// Every profile view adds a point to the score history, with per-credential points
+async function recordSummarySnapshot(summary: ProfileSummary): Promise<void> {
+  const score = summary.creatorScore.data;
+  const credentials = summary.credentials.data;
+  if (!score?.lastCalculatedAt || score.calculating || !credentials) {
+    return;
+  }
+
+  const credentialPoints: Record<string, number> = {};
+  credentials.forEach((group) => {
+    group.points.forEach((point) => {
+      if (point.slug) {
+        credentialPoints[point.slug] = point.value;
+      }
+    });
+  });
+
+  await recordScoreSnapshot(summary.talentUuid, SCORER_SLUGS.CREATOR, {
+    score: score.score,
+    lastCalculatedAt: score.lastCalculatedAt,
+    credentials: credentialPoints,
+  });
+}
+
+/**
+ * Composes everything the profile screens need into a single payload.
+ * Sections are fetched in parallel and fail independently.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const id = params.id?.trim();
+  if (!id) {
+    return createBadRequestResponse("Missing id");
+  }
+
+  // Talent UUIDs can be fetched alongside the profile; other identifiers resolve it first
+  const isTalentUuid = getAccountSource(id) === null;
+  const profilePromise = readSection(() => loadProfile(id));
+  const profile = isTalentUuid ? null : await profilePromise;
+  const talentUuid = isTalentUuid ? id : profile?.data?.id;
+
+  if (!talentUuid) {
+    return createNotFoundResponse(profile?.error || "User not found");
+  }
+
+  const timeZone = getCreatorTimeZone(talentUuid).catch(() => "UTC");
+  const sections = loadSections(talentUuid, timeZone);
+  const summary: ProfileSummary = {
+    talentUuid,
+    profile: profile ?? (await profilePromise),
+    creatorScore: await sections.creatorScore,
+    socialAccounts: await sections.socialAccounts,
+    credentials: await sections.credentials,
+    totalEarnings: await sections.totalEarnings,
+    earningsBreakdown: await sections.earningsBreakdown,
+    posts: await sections.posts,
+    timeZone: await timeZone,
+  };
+
+  await recordSummarySnapshot(summary);
+
+  return NextResponse.json(summary);
+}
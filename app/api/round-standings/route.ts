@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { finalizeEndedRounds } from "@/lib/rounds";
+import {
+  createServerErrorResponse,
+  logApiError,
+  verifyCronRequest,
+} from "@/lib/api-utils";
+
+// A round's final snapshot walks its whole leaderboard above the minimum score
+export const maxDuration = 300;
+
+/**
+ * Records the final standings and payouts of rounds that have ended, from a
+ * snapshot taken once each has ended. Meant to be called by a cron job every hour.
+ */
+export async function GET(req: NextRequest) {
+  const unauthorized = verifyCronRequest(req);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const apiKey = process.env.TALENT_API_KEY;
+  if (!apiKey) {
+    return createServerErrorResponse("Missing Talent API key");
+  }
+
+  try {
+    const finalized = await finalizeEndedRounds(apiKey);
+    return NextResponse.json({ finalized });
+  } catch (error) {
+    logApiError(
+      "finalizeEndedRounds",
+      "all",
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to finalize rounds");
+  }
+}
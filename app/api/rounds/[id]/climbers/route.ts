@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRound } from "@/lib/rounds";
+import { getRoundClimbers } from "@/lib/leaderboard-snapshots";
+import {
+  createNotFoundResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+
+/**
+ * Returns the creators who climbed the most ranks in a round over the last week
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const round = await getRound(params.id);
+  if (!round) {
+    return createNotFoundResponse("Round not found");
+  }
+
+  try {
+    return NextResponse.json(await getRoundClimbers(round.id));
+  } catch (error) {
+    logApiError(
+      "getRoundClimbers",
+      round.id,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to fetch climbers");
+  }
+}
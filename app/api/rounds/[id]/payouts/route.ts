@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRound } from "@/lib/rounds";
+import { getPayoutManifest, toPayoutCsv } from "@/lib/payouts";
+import {
+  createNotFoundResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+
+/**
+ * Returns a round's payout manifest as JSON, or as a CSV file with ?format=csv.
+ * With ?talent_protocol_id only that creator's payout is returned.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const round = await getRound(params.id);
+  if (!round) {
+    return createNotFoundResponse("Round not found");
+  }
+
+  const { searchParams } = req.nextUrl;
+  const format = searchParams.get("format");
+  const talentId = searchParams.get("talent_protocol_id");
+
+  try {
+    const manifest = await getPayoutManifest(round);
+    if (!manifest) {
+      return createNotFoundResponse(
+        "Payouts are recorded once the round's final standings are in",
+      );
+    }
+
+    if (talentId) {
+      const payout =
+        manifest.payouts.find((row) => row.talent_protocol_id === talentId) ??
+        null;
+      return NextResponse.json({ payout });
+    }
+
+    if (format === "csv") {
+      return new NextResponse(toPayoutCsv(manifest.payouts), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="payouts-${round.id}.csv"`,
+          "X-Payout-Total": manifest.totalPaid,
+          "X-Payout-Checksum": manifest.checksum,
+        },
+      });
+    }
+
+    return NextResponse.json(manifest, {
+      headers:
+        format === "json"
+          ? {
+              "Content-Disposition": `attachment; filename="payouts-${round.id}.json"`,
+            }
+          : undefined,
+    });
+  } catch (error) {
+    logApiError(
+      "getPayoutManifest",
+      round.id,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to calculate payouts");
+  }
+}
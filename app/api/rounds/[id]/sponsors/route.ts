@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRound } from "@/lib/rounds";
+import { withSponsorVerification } from "@/lib/sponsor-verification";
+import { createNotFoundResponse } from "@/lib/api-utils";
+
+/**
+ * Returns a round's sponsors, each checked against its transaction on Base
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const round = await getRound(params.id);
+  if (!round) {
+    return createNotFoundResponse("Round not found");
+  }
+
+  const { sponsors } = await withSponsorVerification(round);
+  return NextResponse.json({ sponsors });
+}
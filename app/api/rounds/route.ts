@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedFid } from "@/lib/auth";
+import { isModerationAdmin } from "@/lib/moderation";
+import {
+  backfillFinalStandings,
+  getRound,
+  getRounds,
+  saveRound,
+  validateRoundConfig,
+} from "@/lib/rounds";
+import type { RoundConfig } from "@/lib/rounds-config";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+
+// Finalizing a round walks its whole leaderboard above the minimum score
+export const maxDuration = 300;
+
+const ROUND_ACTIONS = ["save", "finalize"];
+
+// Rounds are run by the same admins who moderate the leaderboard
+async function getRoundsAdmin(
+  req: NextRequest,
+): Promise<{ fid: number } | NextResponse> {
+  const fid = await getAuthenticatedFid(req);
+  if (!fid) {
+    return createErrorResponse("Sign in to edit rounds", 401);
+  }
+  if (!isModerationAdmin(fid)) {
+    return createErrorResponse("Only admins can edit rounds", 403);
+  }
+  return { fid };
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getRounds());
+  } catch (error) {
+    logApiError(
+      "getRounds",
+      "rounds",
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to fetch rounds");
+  }
+}
+
+/**
+ * Adds a round, or replaces the one with the same ID until its payouts are final.
+ * "finalize" backfills the final standings and payouts of an ended round the
+ * round-standings cron left unrecorded.
+ */
+export async function POST(req: NextRequest) {
+  // A malformed or null body is answered like a missing action
+  const { action, round, round_id } =
+    (await req.json().catch(() => null)) ?? {};
+
+  if (!ROUND_ACTIONS.includes(action)) {
+    return createBadRequestResponse(
+      `action must be one of ${ROUND_ACTIONS.join(", ")}`,
+    );
+  }
+  if (action === "save") {
+    const invalid = validateRoundConfig(round);
+    if (invalid) {
+      return createBadRequestResponse(invalid);
+    }
+  } else if (!round_id || typeof round_id !== "string") {
+    return createBadRequestResponse("Missing round_id");
+  }
+
+  const admin = await getRoundsAdmin(req);
+  if (admin instanceof NextResponse) {
+    return admin;
+  }
+
+  const roundId: string = action === "save" ? round.id : round_id;
+  try {
+    if (action === "save") {
+      if (!(await saveRound(round as RoundConfig))) {
+        return createErrorResponse(
+          "The round's payouts are final, so it can't be changed",
+          409,
+        );
+      }
+      return NextResponse.json({ round });
+    }
+
+    const apiKey = process.env.TALENT_API_KEY;
+    if (!apiKey) {
+      return createServerErrorResponse("Missing Talent API key");
+    }
+    const ended = await getRound(roundId);
+    if (!ended) {
+      return createNotFoundResponse("Round not found");
+    }
+    if (ended.status !== "ended") {
+      return createBadRequestResponse("The round hasn't ended yet");
+    }
+    if (!(await backfillFinalStandings(ended, apiKey))) {
+      return createErrorResponse("The round's payouts are already final", 409);
+    }
+    return NextResponse.json({ action, round_id: roundId });
+  } catch (error) {
+    logApiError(
+      action === "save" ? "saveRound" : "backfillFinalStandings",
+      roundId,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse(
+      action === "save" ? "Failed to save round" : "Failed to finalize round",
+    );
+  }
+}
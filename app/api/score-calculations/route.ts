@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { talentApiClient } from "@/lib/talent-api-client";
+import { sendFrameNotification } from "@/lib/notification-client";
+import {
+  clearScoreCalculation,
+  completeScoreCalculation,
+  getPendingScoreCalculations,
+  type PendingScoreCalculation,
+} from "@/lib/score-calculations";
+import { SCORE_CALCULATION_POLLING } from "@/lib/constants";
+import { getScorerLabel, parseScorerSlug } from "@/lib/scorer";
+import { getAuthenticatedFid } from "@/lib/auth";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createServerErrorResponse,
+  verifyCronRequest,
+} from "@/lib/api-utils";
+
+type CheckResult = "notified" | "skipped" | "pending" | "expired" | "failed";
+
+async function checkCalculation(
+  calculation: PendingScoreCalculation,
+): Promise<CheckResult> {
+  const { talentUuid, scorerSlug, fid, requestedAt } = calculation;
+
+  if (Date.now() - requestedAt > SCORE_CALCULATION_POLLING.SERVER_TIMEOUT_MS) {
+    await clearScoreCalculation(talentUuid, scorerSlug);
+    return "expired";
+  }
+
+  const response = await talentApiClient.getScore({
+    talent_protocol_id: talentUuid,
+    scorer_slug: scorerSlug,
+  });
+  if (!response.ok) {
+    return "failed";
+  }
+
+  const data = await response.json();
+  if (!data.score?.last_calculated_at || data.score.calculating_score) {
+    return "pending";
+  }
+
+  // Null when the requester already saw the result in the app
+  const finished = await completeScoreCalculation(
+    talentUuid,
+    scorerSlug,
+    data.score.last_calculated_at,
+  );
+  if (!finished) {
+    return "pending";
+  }
+  // Cached responses from before the calculation would keep serving the old score
+  await talentApiClient.invalidateTalentCache(talentUuid);
+
+  const label = getScorerLabel(parseScorerSlug(scorerSlug));
+  const result = await sendFrameNotification({
+    fid,
+    title: `Your ${label} is ready`,
+    body: `Your ${label} is now ${(data.score.points ?? 0).toLocaleString()}. Open the app to see what changed.`,
+  });
+  if (result.state === "no_token") {
+    return "skipped"; // notifications are off for this user
+  }
+  return result.state === "success" ? "notified" : "failed";
+}
+
+/**
+ * Checks score calculations requested from the app and notifies the requester
+ * when one finishes after they've left. Meant to be called by a cron job.
+ */
+export async function GET(req: NextRequest) {
+  const unauthorized = verifyCronRequest(req);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const pending = await getPendingScoreCalculations();
+  const results = await Promise.all(
+    pending.map((calculation) =>
+      checkCalculation(calculation).catch((error): CheckResult => {
+        console.error(
+          `[scoreCalculations] Failed to check ${calculation.talentUuid}:`,
+          error,
+        );
+        return "failed";
+      }),
+    ),
+  );
+
+  const summary = results.reduce<Record<CheckResult, number>>(
+    (counts, result) => ({ ...counts, [result]: counts[result] + 1 }),
+    { notified: 0, skipped: 0, pending: 0, expired: 0, failed: 0 },
+  );
+  return NextResponse.json({ checked: pending.length, ...summary });
+}
+
+/**
+ * Lets the requester mark their finished calculation as seen in the app, so
+ * they aren't notified about it. Nobody else can complete it.
+ */
+export async function POST(req: NextRequest) {
+  const { talent_protocol_id, scorer_slug } = await req
+    .json()
+    .catch(() => ({}));
+  if (!talent_protocol_id || typeof talent_protocol_id !== "string") {
+    return createBadRequestResponse("Missing talent_protocol_id");
+  }
+
+  const fid = await getAuthenticatedFid(req);
+  if (!fid) {
+    return createErrorResponse("Sign in to complete a score calculation", 401);
+  }
+
+  const scorerSlug = parseScorerSlug(scorer_slug);
+  const response = await talentApiClient.getScore({
+    talent_protocol_id,
+    scorer_slug: scorerSlug,
+  });
+  if (!response.ok) {
+    return createServerErrorResponse("Failed to fetch score");
+  }
+
+  const data = await response.json();
+  const completed =
+    !!data.score?.last_calculated_at &&
+    !data.score.calculating_score &&
+    !!(await completeScoreCalculation(
+      talent_protocol_id,
+      scorerSlug,
+      data.score.last_calculated_at,
+      fid,
+    ));
+  if (completed) {
+    await talentApiClient.invalidateTalentCache(talent_protocol_id);
+  }
+  return NextResponse.json({ completed });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScoreHistory } from "@/lib/score-history";
+import {
+  createBadRequestResponse,
+  createServerErrorResponse,
+  logApiError,
+} from "@/lib/api-utils";
+import { SCORER_SLUGS } from "@/app/services/types";
+
+const DEFAULT_DAYS = 365;
+const MAX_DAYS = 730;
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const talentId =
+    searchParams.get("talent_protocol_id") || searchParams.get("uuid");
+  const scorerSlug = searchParams.get("scorer_slug") || SCORER_SLUGS.CREATOR;
+  const days = Math.min(
+    parseInt(searchParams.get("days") || String(DEFAULT_DAYS), 10) ||
+      DEFAULT_DAYS,
+    MAX_DAYS,
+  );
+
+  if (!talentId) {
+    return createBadRequestResponse("Missing talent_protocol_id");
+  }
+
+  try {
+    const history = await getScoreHistory(talentId, scorerSlug, days);
+    return NextResponse.json({ history });
+  } catch (error) {
+    logApiError(
+      "getScoreHistory",
+      talentId,
+      error instanceof Error ? error.message : String(error),
+    );
+    return createServerErrorResponse("Failed to fetch score history");
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { getTalentApiBaseUrl } from "@/lib/constants";
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -17,7 +18,7 @@ export async function GET(request: NextRequest) {
   console.log(`Fetching humanity credentials for talent_id: ${id}`);
 
   try {
-    const url = `https://api.talentprotocol.com/human_checkmark/data_points?id=${id}`;
+    const url = `${getTalentApiBaseUrl()}/human_checkmark/data_points?id=${id}`;
     console.log(`Making request to: ${url}`);
 
     const response = await fetch(url, {
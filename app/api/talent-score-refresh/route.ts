@@ -1,28 +1,120 @@
-import { NextRequest } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { talentApiClient } from "@/lib/talent-api-client";
+import { parseScorerSlug } from "@/lib/scorer";
+import { trackScoreCalculation } from "@/lib/score-calculations";
+import { getAuthenticatedFid, isProfileOwner } from "@/lib/auth";
+import {
+  claimRefreshCooldown,
+  consumeRefreshRateLimit,
+  getRefreshCooldown,
+  releaseRefreshCooldown,
+} from "@/lib/score-refresh-limits";
+import { createBadRequestResponse, createErrorResponse } from "@/lib/api-utils";
+
+function createTooManyRequestsResponse(
+  error: string,
+  retryAfter: number,
+): NextResponse {
+  return NextResponse.json(
+    { error, retryAfter },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } },
+  );
+}
+
+/**
+ * Returns the seconds left before a profile's score can be refreshed again
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const talentProtocolId = searchParams.get("talent_protocol_id");
+
+  if (!talentProtocolId) {
+    return createBadRequestResponse("Missing talent_protocol_id");
+  }
+
+  const retryAfter = await getRefreshCooldown(
+    talentProtocolId,
+    parseScorerSlug(searchParams.get("scorer_slug")),
+  );
+  return NextResponse.json({ retryAfter });
+}
 
 export async function POST(req: NextRequest) {
   console.log("🚀 /api/talent-score-refresh called");
 
-  const body = await req.json();
+  // A malformed or null body is answered like a missing talent_protocol_id
+  const body = (await req.json().catch(() => null)) ?? {};
   console.log("📥 Request body:", body);
 
-  const { talent_protocol_id } = body;
+  const { talent_protocol_id, scorer_slug } = body;
 
-  if (!talent_protocol_id) {
+  if (!talent_protocol_id || typeof talent_protocol_id !== "string") {
     console.log("❌ Missing talent_protocol_id");
-    return new Response(
-      JSON.stringify({ error: "Missing talent_protocol_id" }),
-      { status: 400, headers: { "Content-Type": "application/json" } },
-    );
+    return createBadRequestResponse("Missing talent_protocol_id");
+  }
+
+  const fid = await getAuthenticatedFid(req);
+  if (!fid) {
+    return createErrorResponse("Sign in to refresh your score", 401);
+  }
+
+  if (!(await isProfileOwner(fid, talent_protocol_id))) {
+    return createErrorResponse("You can only refresh your own score", 403);
   }
 
   const params = {
     talent_protocol_id,
-    scorer_slug: "creator_score",
+    scorer_slug: parseScorerSlug(scorer_slug),
   };
 
+  // Refreshes are refused rather than let through when the limits can't be enforced
+  try {
+    const cooldown = await claimRefreshCooldown(
+      talent_protocol_id,
+      params.scorer_slug,
+    );
+    if (cooldown > 0) {
+      return createTooManyRequestsResponse(
+        "Score was refreshed recently",
+        cooldown,
+      );
+    }
+
+    const rateLimit = await consumeRefreshRateLimit(fid);
+    if (rateLimit > 0) {
+      await releaseRefreshCooldown(talent_protocol_id, params.scorer_slug);
+      return createTooManyRequestsResponse("Too many refreshes", rateLimit);
+    }
+  } catch (error) {
+    console.error("Failed to check score refresh limits:", error);
+    return createErrorResponse(
+      "Score refreshes are unavailable right now",
+      503,
+    );
+  }
+
   const result = await talentApiClient.refreshScore(params);
 
+  if (!result.ok) {
+    // Let the owner retry straight away when the refresh didn't go through
+    try {
+      await releaseRefreshCooldown(talent_protocol_id, params.scorer_slug);
+    } catch (error) {
+      console.error("Failed to release score refresh cooldown:", error);
+    }
+  } else {
+    // Remember who asked so they can be notified if they leave before it finishes
+    try {
+      await trackScoreCalculation({
+        talentUuid: talent_protocol_id,
+        scorerSlug: params.scorer_slug,
+        fid,
+        requestedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error("Failed to track score calculation:", error);
+    }
+  }
+
   return result;
 }
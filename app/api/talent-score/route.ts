@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server";
 import { talentApiClient } from "@/lib/talent-api-client";
 import { extractTalentProtocolParams } from "@/lib/api-utils";
+import { recordScoreSnapshot } from "@/lib/score-history";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -19,7 +20,20 @@ export async function GET(req: NextRequest) {
     params.scorer_slug = "creator_score";
   }
 
-  return talentApiClient.getScore(params);
+  const response = await talentApiClient.getScore(params);
+
+  // Snapshot finished scores so refreshed profiles show up in their score history
+  if (params.talent_protocol_id && response.ok) {
+    const data = await response.clone().json();
+    if (data.score?.last_calculated_at && !data.score.calculating_score) {
+      await recordScoreSnapshot(params.talent_protocol_id, params.scorer_slug, {
+        score: data.score.points ?? 0,
+        lastCalculatedAt: data.score.last_calculated_at,
+      });
+    }
+  }
+
+  return response;
 }
 
 // Keep POST endpoint for backward compatibility
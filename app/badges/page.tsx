@@ -1,9 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useMiniKit } from "@coinbase/onchainkit/minikit";
+import { getUserContext } from "@/lib/user-context";
+import { resolveFidToTalentUuid } from "@/lib/user-resolver";
 import { Accordion } from "@/components/ui/accordion";
 import { useBadges } from "@/hooks/useBadges";
-import { BadgeItem } from "@/lib/badge-data";
+import { Button } from "@/components/ui/button";
+import { BadgeItem, sortByClosestToUnlocking } from "@/lib/badge-data";
 import {
   BadgeModal,
   BadgeSectionComponent,
@@ -12,8 +16,40 @@ import {
 } from "@/components/badges";
 
 export default function BadgesPage() {
-  const { data: badges, loading, error } = useBadges();
+  const { context } = useMiniKit();
+  const user = getUserContext(context);
+  const [talentUuid, setTalentUuid] = useState<string | null>(null);
+  const [resolving, setResolving] = useState(true);
+  const { data: badges, loading, error } = useBadges(talentUuid, true);
   const [selectedBadge, setSelectedBadge] = useState<BadgeItem | null>(null);
+  const [sortByProgress, setSortByProgress] = useState(false);
+
+  // Resolve FID to Talent UUID. MiniKit's context is null until it loads, so
+  // resolving only ends once the fid's lookup settles, or the loaded context has no user.
+  const contextLoaded = context != null;
+  useEffect(() => {
+    if (!user?.fid) {
+      if (contextLoaded) setResolving(false);
+      return;
+    }
+
+    let cancelled = false;
+    setResolving(true);
+    resolveFidToTalentUuid(user.fid)
+      .then((uuid) => {
+        if (!cancelled) setTalentUuid(uuid);
+      })
+      .catch((error) => {
+        console.error("Error resolving talent UUID:", error);
+        if (!cancelled) setTalentUuid(null);
+      })
+      .finally(() => {
+        if (!cancelled) setResolving(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.fid, contextLoaded]);
 
   const handleBadgeClick = (badge: BadgeItem) => {
     setSelectedBadge(badge);
@@ -23,10 +59,18 @@ export default function BadgesPage() {
     setSelectedBadge(null);
   };
 
-  if (loading) {
+  if (resolving || loading) {
     return <LoadingState />;
   }
 
+  if (!user?.fid) {
+    return <ErrorState error="Sign in to see your badges" />;
+  }
+
+  if (!talentUuid) {
+    return <ErrorState error="No Talent profile found for your account" />;
+  }
+
   if (error) {
     return <ErrorState error={error} />;
   }
@@ -44,11 +88,35 @@ export default function BadgesPage() {
         </p>
       </div>
 
+      <div className="flex gap-2">
+        <Button
+          variant={sortByProgress ? "outline" : "default"}
+          size="sm"
+          onClick={() => setSortByProgress(false)}
+        >
+          Default
+        </Button>
+        <Button
+          variant={sortByProgress ? "default" : "outline"}
+          size="sm"
+          onClick={() => setSortByProgress(true)}
+        >
+          Closest to unlocking
+        </Button>
+      </div>
+
       <Accordion type="multiple" className="w-full space-y-2">
         {badges.map((section) => (
           <BadgeSectionComponent
             key={section.id}
-            section={section}
+            section={
+              sortByProgress
+                ? {
+                    ...section,
+                    badges: sortByClosestToUnlocking(section.badges),
+                  }
+                : section
+            }
             onBadgeClick={handleBadgeClick}
           />
         ))}
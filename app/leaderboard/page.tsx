@@ -1,5 +1,5 @@
 "use client";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, Suspense } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -14,106 +14,28 @@ import { useUserCreatorScore } from "@/hooks/useUserCreatorScore";
 import { useLeaderboard } from "@/hooks/useLeaderboard";
 import { useLeaderboardStats } from "@/hooks/useLeaderboardStats";
 import { useRouter } from "next/navigation";
-import { generateProfileUrl } from "@/lib/utils";
+import { formatUsdcReward, generateProfileUrl } from "@/lib/utils";
 import { LEVEL_RANGES } from "@/lib/constants";
-import { ExternalLink } from "lucide-react";
+import { BadgeCheck, ExternalLink } from "lucide-react";
 import { LeaderboardRow } from "@/components/leaderboard/LeaderboardRow";
-
-const ROUND_ENDS_AT = new Date(Date.UTC(2025, 7, 31, 23, 59, 59)); // August is month 7 (0-indexed)
-
-// Mock sponsor data
-const SPONSORS = [
-  {
-    id: "base",
-    name: "Base",
-    avatar:
-      "https://wrpcd.net/cdn-cgi/image/anim=false,fit=contain,f=auto,w=576/https%3A%2F%2Fi.imgur.com%2F7Q0QBrm.jpg",
-    amount: 5000,
-    date: "2025-07-15",
-    rank: 1,
-    txHash: "0x1234567890abcdef1234567890abcdef12345678",
-  },
-  {
-    id: "zora",
-    name: "Zora",
-    avatar:
-      "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/1b471987-45b1-48e3-6af4-44929b6e4900/anim=false,fit=contain,f=auto,w=576",
-    amount: 2500,
-    date: "2025-07-18",
-    rank: 2,
-    txHash: "0x2345678901bcdef12345678901bcdef23456789",
-  },
-  {
-    id: "farcaster",
-    name: "Farcaster",
-    avatar:
-      "https://wrpcd.net/cdn-cgi/image/anim=false,fit=contain,f=auto,w=576/https%3A%2F%2Fi.imgur.com%2FI2rEbPF.png",
-    amount: 2500,
-    date: "2025-07-12",
-    rank: 3,
-    txHash: "0x3456789012cdef123456789012cdef3456789a",
-  },
-  {
-    id: "talent-protocol",
-    name: "Talent Protocol",
-    avatar:
-      "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/002f0efe-2513-41e7-3d89-d38875d76800/anim=false,f=auto,w=288",
-    amount: 2500,
-    date: "2025-07-25",
-    rank: 4,
-    txHash: "0x456789013def23456789013def456789ab",
-  },
-  {
-    id: "noice",
-    name: "Noice",
-    avatar:
-      "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/96aabcca-a8ce-47d6-b6f6-d2b6d1272500/anim=false,fit=contain,f=auto,w=576",
-    amount: 1250,
-    date: "2025-07-08",
-    rank: 5,
-    txHash: "0x56789014ef3456789014ef56789abc",
-  },
-  {
-    id: "phi",
-    name: "Phi",
-    avatar:
-      "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/9b5ad594-f3e9-4160-9c33-4e0eeaf28500/anim=false,fit=contain,f=auto,w=576",
-    amount: 1250,
-    date: "2025-07-22",
-    rank: 6,
-    txHash: "0x6789015f456789015f6789abcd",
-  },
-  {
-    id: "coop-records",
-    name: "Coop Records",
-    avatar:
-      "https://wrpcd.net/cdn-cgi/image/anim=false,fit=contain,f=auto,w=576/https%3A%2F%2Fi.imgur.com%2FYZRdO5m.jpg",
-    amount: 1250,
-    date: "2025-07-10",
-    rank: 7,
-    txHash: "0x789016056789016056789abcde",
-  },
-  {
-    id: "paragraph",
-    name: "Paragraph",
-    avatar:
-      "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/4855b0cc-c1da-482c-de24-962162497200/anim=false,fit=contain,f=auto,w=576",
-    amount: 1250,
-    date: "2025-07-28",
-    rank: 8,
-    txHash: "0x89017067890170567890abcdef",
-  },
-];
-
-// Calculate total sponsors pool
-const TOTAL_SPONSORS_POOL = SPONSORS.reduce(
-  (sum, sponsor) => sum + sponsor.amount,
-  0,
-);
-
-function getCountdownParts(target: Date) {
+import { ScorerToggle } from "@/components/common/ScorerToggle";
+import { useScorer } from "@/hooks/useScorer";
+import { withScorerParam } from "@/lib/scorer";
+import { useRounds } from "@/hooks/useRounds";
+import { useRoundPayout } from "@/hooks/useRoundPayout";
+import { useLeaderboardPosition } from "@/hooks/useLeaderboardPosition";
+import { PastRounds } from "@/components/leaderboard/PastRounds";
+import { CategoryFilter } from "@/components/leaderboard/CategoryFilter";
+import { useCategoryLeaderboard } from "@/hooks/useCategoryLeaderboard";
+import { useFollowingLeaderboard } from "@/hooks/useFollowingLeaderboard";
+import { useRoundClimbers } from "@/hooks/useRoundClimbers";
+import { useVerifiedSponsors } from "@/hooks/useVerifiedSponsors";
+import type { CreatorCategoryType } from "@/lib/credentialUtils";
+
+function getCountdownParts(target: string | undefined) {
+  if (!target) return { days: 0, hours: 0 };
   const nowUTC = Date.now();
-  const targetUTC = target.getTime();
+  const targetUTC = new Date(target).getTime();
   const diff = targetUTC - nowUTC;
   if (diff <= 0) return { days: 0, hours: 0 };
   const totalHours = Math.floor(diff / (1000 * 60 * 60));
@@ -160,32 +82,83 @@ function getUserLevel(score: number): string {
   return level ? level.name : "Level 1";
 }
 
-// Helper to check if user is eligible (Level 3+)
-function isEligible(score: number): boolean {
-  const level = LEVEL_RANGES.find(
-    (range) => score >= range.min && score <= range.max,
+const AROUND_YOU_USER_ID = "around-you-user";
+// Settings section where users verify their humanity
+const HUMANITY_SETTINGS_URL = "/settings#proof-of-humanity";
+
+// useScorer reads the URL search params, which need a Suspense boundary
+export default function LeaderboardPage() {
+  return (
+    <Suspense>
+      <LeaderboardContent />
+    </Suspense>
   );
-  return level ? level.min >= 80 : false; // Level 3 starts at 80
 }
 
-export default function LeaderboardPage() {
+function LeaderboardContent() {
   const { context } = useMiniKit();
   const user = getUserContext(context);
   const router = useRouter();
   const [activeTab, setActiveTab] = useState("creators");
   const [userTalentUuid, setUserTalentUuid] = useState<string | null>(null);
-
-  // Static total of all eligible creators' scores (calculated once via script)
-  const TOTAL_ELIGIBLE_SCORES = 54279;
+  const { scorerSlug, scorerLabel, isCreatorScorer, setScorer } = useScorer();
 
   // Use new hooks for data fetching
-  const { creatorScore } = useUserCreatorScore(user?.fid);
-  const { entries, loading, error, hasMore, loadMore } = useLeaderboard(10);
-  const { stats, loading: statsLoading } = useLeaderboardStats();
+  const { creatorScore } = useUserCreatorScore(user?.fid, scorerSlug);
+  const { entries, loading, error, hasMore, loadMore } = useLeaderboard(
+    10,
+    scorerSlug,
+  );
+  const { stats, loading: statsLoading } = useLeaderboardStats(scorerSlug);
+  const { rounds } = useRounds();
+
+  // Categories rank creators by their credential points, so only apply to Creator Score
+  const [category, setCategory] = useState<CreatorCategoryType | null>(null);
+  const activeCategory = isCreatorScorer ? category : null;
+  const {
+    entries: categoryEntries,
+    updatedAt: categoryUpdatedAt,
+    loading: categoryLoading,
+    error: categoryError,
+    hasMore: categoryHasMore,
+    loadMore: loadMoreCategory,
+  } = useCategoryLeaderboard(activeCategory, 10);
+
+  // Only fetched once the tab is opened, since it walks the user's whole following
+  const {
+    entries: followingEntries,
+    viewerTalentId,
+    followingCount,
+    truncated: followingTruncated,
+    loading: followingLoading,
+    error: followingError,
+  } = useFollowingLeaderboard(
+    activeTab === "following" ? user?.fid : undefined,
+  );
+
+  // Between rounds, keep showing the one that just ended for as long as the
+  // server shows its rewards, then the next one
+  const rewardsRound = rounds.rewards ?? null;
+  const round = rewardsRound ?? rounds.current;
+  const roundEnded = round?.status === "ended";
+  const poolAmount = round?.poolAmount ?? 0;
+  const isRewardsScorer =
+    !!rewardsRound && rewardsRound.scorerSlug === scorerSlug;
+
+  const { climbers } = useRoundClimbers(
+    isRewardsScorer && round?.status === "active" ? round.id : undefined,
+  );
+
+  // Checked onchain only once the tab is opened
+  const { sponsors: verifiedSponsors } = useVerifiedSponsors(
+    activeTab === "sponsors" ? round?.id : undefined,
+  );
+  const sponsors =
+    verifiedSponsors.length > 0 ? verifiedSponsors : (round?.sponsors ?? []);
 
   // Countdown state
   const [countdown, setCountdown] = useState(() =>
-    getCountdownParts(ROUND_ENDS_AT),
+    getCountdownParts(round?.endsAt),
   );
 
   // Resolve user's FID to Talent UUID for proper identification
@@ -212,71 +185,104 @@ export default function LeaderboardPage() {
 
   // Live countdown effect
   useEffect(() => {
+    setCountdown(getCountdownParts(round?.endsAt));
     const interval = setInterval(() => {
-      setCountdown(getCountdownParts(ROUND_ENDS_AT));
+      setCountdown(getCountdownParts(round?.endsAt));
     }, 60000); // update every minute
     return () => clearInterval(interval);
-  }, []);
+  }, [round?.endsAt]);
 
   // Find user entry in leaderboard data by Talent UUID (more reliable than name matching)
   const userLeaderboardEntry = userTalentUuid
     ? entries.find((e) => e.talent_protocol_id === userTalentUuid)
     : null;
 
+  // Exact rank on the full leaderboard, with the creators around the user
+  const { position } = useLeaderboardPosition(userTalentUuid, scorerSlug);
+  const [showPosition, setShowPosition] = useState(false);
+  const positionRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (showPosition) {
+      positionRef.current?.scrollIntoView({
+        behavior: "smooth",
+        block: "center",
+      });
+    }
+  }, [showPosition]);
+
+  // Users further down the leaderboard than what's loaded get their payout directly
+  const { payout: pinnedPayout } = useRoundPayout(
+    isRewardsScorer && !userLeaderboardEntry ? rewardsRound?.id : undefined,
+    userTalentUuid,
+  );
+
+  // Which of the round's rules the user misses, as checked by the server
+  // (undefined until their position has loaded)
+  const userIneligibleReason = !isRewardsScorer
+    ? null
+    : userLeaderboardEntry
+      ? userLeaderboardEntry.ineligibleReason
+      : position?.ineligibleReason;
+
   // Create pinned user entry using leaderboard data for consistency
   const pinnedUserEntry =
     user && userLeaderboardEntry
       ? {
-          rank: userLeaderboardEntry.rank,
+          rank: position?.rank ?? userLeaderboardEntry.rank,
           name: userLeaderboardEntry.name, // Use Talent Protocol name for consistency
           pfp: userLeaderboardEntry.pfp, // Use Talent Protocol avatar for consistency
-          rewards: creatorScore ? getUsdcRewards(creatorScore) : "$0",
+          rewards: userLeaderboardEntry.rewards,
           score: creatorScore ?? 0,
           id: userLeaderboardEntry.id,
         }
       : user
         ? {
             // Fallback if user not found in leaderboard (shouldn't happen often)
-            rank: "—" as const,
+            rank: position?.rank ?? ("—" as const),
             name: user.displayName || user.username || "Unknown user",
             pfp: user.pfpUrl || undefined,
-            rewards: creatorScore ? getUsdcRewards(creatorScore) : "$0",
+            rewards: !isRewardsScorer
+              ? "-"
+              : pinnedPayout
+                ? formatUsdcReward(pinnedPayout.amount)
+                : "$0",
             score: creatorScore ?? 0,
             id: "user-pinned",
           }
         : null;
 
+  // The user between their neighbours, for jumping to their position
+  const aroundYouEntries: LeaderboardEntry[] =
+    position?.rank && pinnedUserEntry
+      ? [
+          ...position.above,
+          {
+            ...pinnedUserEntry,
+            rank: position.rank,
+            id: AROUND_YOU_USER_ID,
+            talent_protocol_id: position.talent_protocol_id,
+          },
+          ...position.below,
+        ]
+      : [];
+
   // Filter out the current user from regular leaderboard entries to avoid duplicates
   const filteredEntries = userTalentUuid
     ? entries.filter((e) => e.talent_protocol_id !== userTalentUuid)
     : entries;
 
-  // Helper to calculate USDC rewards using static multiplier
-  function getUsdcRewards(score: number): string {
-    // Only eligible creators earn rewards
-    if (score < 80) return "$0";
-
-    // Calculate static multiplier: total_rewards_pool / total_eligible_scores
-    const multiplier = TOTAL_SPONSORS_POOL / TOTAL_ELIGIBLE_SCORES;
-    const reward = score * multiplier;
-
-    // Format as currency
-    if (reward >= 1) {
-      return `$${reward.toFixed(0)}`;
-    } else {
-      return `$${reward.toFixed(2)}`;
-    }
-  }
-
   // Handler to navigate to profile page for a leaderboard entry
-  function handleEntryClick(entry: LeaderboardEntry) {
+  function handleEntryClick(
+    entry: Pick<LeaderboardEntry, "talent_protocol_id">,
+  ) {
     const url = generateProfileUrl({
       farcasterHandle: null, // We don't have farcaster handle from leaderboard data
       talentId: entry.talent_protocol_id,
     });
 
     if (url) {
-      router.push(url);
+      router.push(withScorerParam(url, scorerSlug));
     }
   }
 
@@ -290,7 +296,7 @@ export default function LeaderboardPage() {
     });
 
     if (url) {
-      router.push(url);
+      router.push(withScorerParam(url, scorerSlug));
     }
   }
 
@@ -300,10 +306,22 @@ export default function LeaderboardPage() {
       id: "creators",
       label: "Rewards",
     },
+    ...(user
+      ? [
+          {
+            id: "following",
+            label: "Following",
+          },
+        ]
+      : []),
     {
       id: "sponsors",
       label: "Sponsors",
-      count: SPONSORS.length,
+      count: round?.sponsors.length ?? 0,
+    },
+    {
+      id: "past-rounds",
+      label: "Past Rounds",
     },
   ];
 
@@ -315,31 +333,37 @@ export default function LeaderboardPage() {
         <Card>
           <CardContent className="pt-6">
             <p className="text-sm text-gray-600 mb-4">Rewards Pool</p>
-            <p className="text-2xl font-bold">
-              ${formatWithK(TOTAL_SPONSORS_POOL)}
-            </p>
-            <p className="text-sm text-gray-600 mt-1">
-              <a
-                href="https://basescan.org/address/0x3758e0f97f7f5f91372329d43eca69fcc1af48a7"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="hover:text-gray-900 flex items-center gap-1"
-              >
-                {truncateAddress("0x3758e0f97f7f5f91372329d43eca69fcc1af48a7")}
-                <ExternalLink className="h-3 w-3" />
-              </a>
-            </p>
+            <p className="text-2xl font-bold">${formatWithK(poolAmount)}</p>
+            {round && (
+              <p className="text-sm text-gray-600 mt-1">
+                <a
+                  href={`https://basescan.org/address/${round.poolAddress}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:text-gray-900 flex items-center gap-1"
+                >
+                  {truncateAddress(round.poolAddress)}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </p>
+            )}
           </CardContent>
         </Card>
 
         {/* Rewards End - Top Right */}
         <Card className="relative">
           <CardContent className="pt-6">
-            <p className="text-sm text-gray-600 mb-4">Rewards End</p>
+            <p className="text-sm text-gray-600 mb-4">
+              {roundEnded ? "Rewards Ended" : "Rewards End"}
+            </p>
             <p className="text-2xl font-bold">
-              {countdown.days}d {countdown.hours}h
+              {roundEnded ? "Ended" : `${countdown.days}d ${countdown.hours}h`}
+            </p>
+            <p className="text-sm text-gray-600 mt-1">
+              {round
+                ? `${formatDate(round.startsAt)} - ${formatDate(round.endsAt)}`
+                : "-"}
             </p>
-            <p className="text-sm text-gray-600 mt-1">Jul 22 - Aug 31</p>
           </CardContent>
         </Card>
 
@@ -355,12 +379,12 @@ export default function LeaderboardPage() {
             });
 
             if (url) {
-              router.push(`${url}/score`);
+              router.push(withScorerParam(`${url}/score`, scorerSlug));
             }
           }}
         >
           <CardContent className="pt-6">
-            <p className="text-sm text-gray-600 mb-4">Your Score</p>
+            <p className="text-sm text-gray-600 mb-4">Your {scorerLabel}</p>
             <p className="text-2xl font-bold">
               {creatorScore !== null ? creatorScore : "-"}
             </p>
@@ -370,15 +394,19 @@ export default function LeaderboardPage() {
                   <span className="text-sm text-gray-600">
                     {getUserLevel(creatorScore)}
                   </span>
-                  <span
-                    className={`text-xs px-2 py-1 rounded-full ${
-                      isEligible(creatorScore)
-                        ? "bg-green-100 text-green-700"
-                        : "bg-red-100 text-red-700"
-                    }`}
-                  >
-                    {isEligible(creatorScore) ? "Eligible" : "Not Eligible"}
-                  </span>
+                  {isRewardsScorer && userIneligibleReason !== undefined && (
+                    <span
+                      className={`text-xs px-2 py-1 rounded-full ${
+                        userIneligibleReason === null
+                          ? "bg-green-100 text-green-700"
+                          : "bg-red-100 text-red-700"
+                      }`}
+                    >
+                      {userIneligibleReason === null
+                        ? "Eligible"
+                        : "Not Eligible"}
+                    </span>
+                  )}
                 </>
               ) : (
                 <span className="text-sm text-gray-600">-</span>
@@ -390,7 +418,9 @@ export default function LeaderboardPage() {
         {/* Eligible Creators - Bottom Right */}
         <Card>
           <CardContent className="pt-6">
-            <p className="text-sm text-gray-600 mb-4">Eligible Creators</p>
+            <p className="text-sm text-gray-600 mb-4">
+              {isCreatorScorer ? "Eligible Creators" : "Level 3+ Builders"}
+            </p>
             {statsLoading ? (
               <Skeleton className="h-8 w-20 rounded" />
             ) : (
@@ -411,6 +441,8 @@ export default function LeaderboardPage() {
         </Card>
       </div>
 
+      <ScorerToggle value={scorerSlug} onChange={setScorer} />
+
       {/* Tabs */}
       <TabNavigation
         tabs={tabs}
@@ -422,7 +454,78 @@ export default function LeaderboardPage() {
       <div className="space-y-2">
         {error && <div className="text-destructive text-sm px-2">{error}</div>}
 
-        {activeTab === "creators" && (
+        {activeTab === "creators" && isCreatorScorer && (
+          <CategoryFilter value={category} onChange={setCategory} />
+        )}
+
+        {activeTab === "creators" && activeCategory && (
+          <>
+            {categoryError && (
+              <div className="text-destructive text-sm px-2">
+                {categoryError}
+              </div>
+            )}
+            {!categoryLoading && !categoryError && !categoryUpdatedAt && (
+              <p className="text-sm text-gray-600 px-2">
+                This leaderboard is being prepared. Check back soon.
+              </p>
+            )}
+            {categoryUpdatedAt && categoryEntries.length === 0 && (
+              <p className="text-sm text-gray-600 px-2">
+                No {activeCategory.toLowerCase()} creators yet.
+              </p>
+            )}
+            {categoryEntries.length > 0 && (
+              <div className="overflow-hidden rounded-lg bg-gray-50">
+                {categoryEntries.map((entry, index) => (
+                  <div key={entry.id}>
+                    <LeaderboardRow
+                      rank={entry.rank}
+                      name={entry.name}
+                      avatarUrl={entry.pfp}
+                      score={entry.score}
+                      rewards={entry.rewards}
+                      scoreLabel={`${activeCategory} Points`}
+                      isPinned={entry.talent_protocol_id === userTalentUuid}
+                      onClick={() => handleEntryClick(entry)}
+                    />
+                    {index < categoryEntries.length - 1 && (
+                      <div className="h-px bg-gray-200" />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {categoryHasMore && (
+              <Button
+                variant="outline"
+                className="w-full mt-2 flex items-center justify-center"
+                onClick={loadMoreCategory}
+                disabled={categoryLoading}
+              >
+                {categoryLoading ? (
+                  <>
+                    <span className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-muted-foreground border-t-transparent mr-2"></span>
+                    Loading...
+                  </>
+                ) : (
+                  "Load More"
+                )}
+              </Button>
+            )}
+            {categoryUpdatedAt && (
+              <p className="text-xs text-gray-600 px-2">
+                Updated{" "}
+                {new Date(categoryUpdatedAt).toLocaleTimeString("en-US", {
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+              </p>
+            )}
+          </>
+        )}
+
+        {activeTab === "creators" && !activeCategory && (
           <>
             {/* User pinned entry always on top */}
             {pinnedUserEntry && (
@@ -431,11 +534,53 @@ export default function LeaderboardPage() {
                 name={pinnedUserEntry.name}
                 avatarUrl={pinnedUserEntry.pfp}
                 score={pinnedUserEntry.score}
-                rewards={getUsdcRewards(pinnedUserEntry.score)}
+                scoreLabel={scorerLabel}
+                rewards={pinnedUserEntry.rewards}
+                total={position?.rank ? position.total : undefined}
+                previousRank={userLeaderboardEntry?.previousRank}
+                ineligibleReason={userIneligibleReason}
+                verifyHref={HUMANITY_SETTINGS_URL}
                 isPinned={true}
                 onClick={handlePinnedUserClick}
               />
             )}
+            {pinnedUserEntry && position?.rank && !userLeaderboardEntry && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full -mt-1 mb-2 text-gray-600"
+                onClick={() => setShowPosition(true)}
+              >
+                Jump to my position
+              </Button>
+            )}
+            {climbers.length > 0 && (
+              <div className="space-y-2 pb-2">
+                <p className="text-sm text-gray-600 px-1">
+                  Biggest climbers this week
+                </p>
+                <div className="overflow-hidden rounded-lg bg-gray-50">
+                  {climbers.map((climber, index) => (
+                    <div key={climber.talent_protocol_id}>
+                      <LeaderboardRow
+                        rank={climber.rank}
+                        name={climber.name}
+                        avatarUrl={climber.pfp}
+                        score={climber.score}
+                        scoreLabel={scorerLabel}
+                        rewards=""
+                        previousRank={climber.previousRank}
+                        scoreDelta={climber.scoreDelta}
+                        onClick={() => handleEntryClick(climber)}
+                      />
+                      {index < climbers.length - 1 && (
+                        <div className="h-px bg-gray-200" />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             {/* Leaderboard list (user filtered out to avoid duplicates) */}
             <div className="overflow-hidden rounded-lg bg-gray-50">
               {filteredEntries.map((user, index) => (
@@ -445,7 +590,11 @@ export default function LeaderboardPage() {
                     name={user.name}
                     avatarUrl={user.pfp}
                     score={user.score}
-                    rewards={getUsdcRewards(user.score)}
+                    scoreLabel={scorerLabel}
+                    rewards={user.rewards}
+                    previousRank={user.previousRank}
+                    scoreDelta={user.scoreDelta}
+                    ineligibleReason={user.ineligibleReason}
                     onClick={() => handleEntryClick(user)}
                   />
                   {index < filteredEntries.length - 1 && (
@@ -472,17 +621,108 @@ export default function LeaderboardPage() {
                 )}
               </Button>
             )}
+            {/* The user's neighbourhood when they're beyond the loaded pages */}
+            {showPosition && aroundYouEntries.length > 0 && (
+              <div ref={positionRef} className="pt-4 space-y-2">
+                <p className="text-sm text-gray-600 px-1">Around you</p>
+                <div className="overflow-hidden rounded-lg bg-gray-50">
+                  {aroundYouEntries.map((entry, index, array) => (
+                    <div key={entry.id}>
+                      <LeaderboardRow
+                        rank={entry.rank}
+                        name={entry.name}
+                        avatarUrl={entry.pfp}
+                        score={entry.score}
+                        scoreLabel={scorerLabel}
+                        rewards={entry.rewards}
+                        ineligibleReason={
+                          entry.id === AROUND_YOU_USER_ID
+                            ? userIneligibleReason
+                            : entry.ineligibleReason
+                        }
+                        verifyHref={
+                          entry.id === AROUND_YOU_USER_ID
+                            ? HUMANITY_SETTINGS_URL
+                            : undefined
+                        }
+                        isPinned={entry.id === AROUND_YOU_USER_ID}
+                        onClick={() =>
+                          entry.id === AROUND_YOU_USER_ID
+                            ? handlePinnedUserClick()
+                            : handleEntryClick(entry)
+                        }
+                      />
+                      {index < array.length - 1 && (
+                        <div className="h-px bg-gray-200" />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {activeTab === "following" && (
+          <>
+            {followingError && (
+              <div className="text-destructive text-sm px-2">
+                {followingError}
+              </div>
+            )}
+            {followingLoading && (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, index) => (
+                  <Skeleton key={index} className="h-14 w-full rounded-lg" />
+                ))}
+              </div>
+            )}
+            {!followingLoading && !followingError && (
+              <>
+                <p className="text-xs text-gray-600 px-2">
+                  {followingTruncated
+                    ? `Creator Scores of the ${followingCount.toLocaleString()} accounts you followed most recently`
+                    : `Creator Scores of the ${followingCount.toLocaleString()} ${followingCount === 1 ? "account" : "accounts"} you follow`}
+                </p>
+                <div className="overflow-hidden rounded-lg bg-gray-50">
+                  {followingEntries.map((entry, index) => (
+                    <div key={entry.id}>
+                      <LeaderboardRow
+                        rank={entry.rank}
+                        name={entry.name}
+                        avatarUrl={entry.pfp}
+                        score={entry.score}
+                        scoreLabel={scorerLabel}
+                        rewards={entry.rewards}
+                        total={
+                          entry.id === viewerTalentId
+                            ? followingEntries.length
+                            : undefined
+                        }
+                        isPinned={entry.id === viewerTalentId}
+                        onClick={() =>
+                          entry.id === viewerTalentId
+                            ? handlePinnedUserClick()
+                            : handleEntryClick(entry)
+                        }
+                      />
+                      {index < followingEntries.length - 1 && (
+                        <div className="h-px bg-gray-200" />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </>
         )}
 
         {activeTab === "sponsors" && (
           <div className="overflow-hidden rounded-lg bg-gray-50">
-            {SPONSORS.map((sponsor, index, array) => (
+            {sponsors.map((sponsor, index, array) => (
               <div key={sponsor.id}>
                 <div className="flex items-center gap-3 p-3">
-                  <span className="text-sm font-medium w-6">
-                    #{sponsor.rank}
-                  </span>
+                  <span className="text-sm font-medium w-6">#{index + 1}</span>
                   <Avatar className="h-8 w-8">
                     <AvatarImage src={sponsor.avatar} />
                     <AvatarFallback>{sponsor.name[0]}</AvatarFallback>
@@ -493,20 +733,51 @@ export default function LeaderboardPage() {
                       <p className="text-xs text-gray-600">
                         {formatDate(sponsor.date)}
                       </p>
-                      <a
-                        href={`https://basescan.org/tx/${sponsor.txHash}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-gray-600 hover:text-gray-900"
-                      >
-                        <ExternalLink className="h-3 w-3" />
-                      </a>
+                      {sponsor.txHash && (
+                        <a
+                          href={`https://basescan.org/tx/${sponsor.txHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                      {sponsor.verification?.status === "verified" && (
+                        <span
+                          className="flex items-center gap-0.5 text-xs text-green-700"
+                          title={
+                            sponsor.verification.blockTimestamp
+                              ? `Confirmed ${formatDate(sponsor.verification.blockTimestamp)}`
+                              : undefined
+                          }
+                        >
+                          <BadgeCheck className="h-3 w-3" />
+                          Verified
+                        </span>
+                      )}
+                      {sponsor.verification?.status === "unverified" && (
+                        <span
+                          className="text-xs text-red-700"
+                          title={sponsor.verification.reason}
+                        >
+                          Unverified
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div className="flex flex-col items-end">
                     <span className="text-sm font-medium">
                       {formatCurrency(sponsor.amount)}
                     </span>
+                    {sponsor.verification?.onchainAmount !== null &&
+                      sponsor.verification?.onchainAmount !== undefined &&
+                      sponsor.verification.onchainAmount !== sponsor.amount && (
+                        <span className="text-xs text-gray-600">
+                          {formatCurrency(sponsor.verification.onchainAmount)}{" "}
+                          onchain
+                        </span>
+                      )}
                   </div>
                 </div>
                 {index < array.length - 1 && (
@@ -516,6 +787,19 @@ export default function LeaderboardPage() {
             ))}
           </div>
         )}
+
+        {activeTab === "past-rounds" && (
+          <PastRounds
+            rounds={rounds.past}
+            onEntryClick={(talentId) => {
+              const url = generateProfileUrl({
+                farcasterHandle: null,
+                talentId,
+              });
+              if (url) router.push(withScorerParam(url, scorerSlug));
+            }}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,79 @@
+import { getCachedData, setCachedData, clearCachedData } from "@/lib/utils";
+
+const AUTH_TOKEN_KEY = "auth_token";
+// Slightly shorter than the server session so we never send an expired token
+const AUTH_TOKEN_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000;
+
+let inFlightSignIn: Promise<string | null> | null = null;
+
+async function signIn(): Promise<string | null> {
+  const nonceResponse = await fetch("/api/auth/nonce");
+  if (!nonceResponse.ok) return null;
+  const { nonce } = await nonceResponse.json();
+
+  const { sdk } = await import("@farcaster/frame-sdk");
+  const { message, signature } = await sdk.actions.signIn({ nonce });
+
+  const sessionResponse = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+  if (!sessionResponse.ok) return null;
+
+  const { token } = await sessionResponse.json();
+  setCachedData(AUTH_TOKEN_KEY, token);
+  return token;
+}
+
+/**
+ * Returns a session token for the current Farcaster user, signing in if needed.
+ * In development the server trusts the dev user, so no token is required.
+ */
+export async function getAuthToken(): Promise<string | null> {
+  if (process.env.NODE_ENV === "development") {
+    return null;
+  }
+
+  const cached = getCachedData<string>(AUTH_TOKEN_KEY, AUTH_TOKEN_MAX_AGE_MS);
+  if (cached) return cached;
+
+  if (!inFlightSignIn) {
+    inFlightSignIn = signIn()
+      .catch((error) => {
+        console.error("Error signing in:", error);
+        return null;
+      })
+      .finally(() => {
+        inFlightSignIn = null;
+      });
+  }
+  return inFlightSignIn;
+}
+
+export function clearAuthToken(): void {
+  clearCachedData(AUTH_TOKEN_KEY);
+}
+
+/**
+ * Fetches with the current user's session, signing in again once if it expired
+ */
+export async function fetchWithAuth(
+  input: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const send = async () => {
+    const token = await getAuthToken();
+    const headers = new Headers(init.headers);
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(input, { ...init, headers });
+  };
+
+  const response = await send();
+  if (response.status !== 401 || process.env.NODE_ENV === "development") {
+    return response;
+  }
+
+  clearAuthToken();
+  return send();
+}
@@ -0,0 +1,23 @@
+import { getBrowserTimeZone } from "@/lib/streaks";
+import { fetchWithAuth } from "./authService";
+import type { BadgesResponse } from "./types";
+
+/**
+ * Fetches which badges a creator has unlocked. The owner's own request is signed in
+ * so their newly unlocked badges get recorded, and reports their time zone for streaks.
+ */
+export async function getBadges(
+  talentUuid: string,
+  isOwnProfile: boolean = false,
+): Promise<BadgesResponse> {
+  const params = new URLSearchParams({
+    talent_id: talentUuid,
+    ...(isOwnProfile ? { timezone: getBrowserTimeZone() } : {}),
+  });
+  const url = `/api/badges?${params.toString()}`;
+  const res = isOwnProfile ? await fetchWithAuth(url) : await fetch(url);
+  if (!res.ok) {
+    throw new Error("Failed to fetch badges");
+  }
+  return res.json();
+}
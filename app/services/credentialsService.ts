@@ -1,4 +1,113 @@
-import { Credential, IssuerCredentialGroup, SCORER_SLUGS } from "./types";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import {
+  Credential,
+  CredentialTier,
+  CredentialsSnapshot,
+  IssuerCredentialGroup,
+  SCORER_SLUGS,
+  ScorerSlug,
+} from "./types";
+
+/**
+ * Reads the tiers of a credential from the data points that carry points,
+ * lowest threshold first. Credentials that aren't tiered have none.
+ */
+export function getCredentialTiers(credential: Credential): CredentialTier[] {
+  return (credential.points_calculation_logic?.data_points ?? [])
+    .flatMap((dataPoint) => {
+      const threshold = Number((dataPoint.value ?? "").replace(/,/g, ""));
+      return typeof dataPoint.points === "number" &&
+        dataPoint.value !== null &&
+        Number.isFinite(threshold)
+        ? [{ threshold, points: dataPoint.points }]
+        : [];
+    })
+    .sort((a, b) => a.threshold - b.threshold);
+}
+
+/**
+ * Groups raw Talent API credentials by issuer for display in the UI
+ */
+export function groupCredentialsByIssuer(
+  credentials: Credential[],
+): IssuerCredentialGroup[] {
+  const issuerGroups = new Map<string, IssuerCredentialGroup>();
+
+  credentials.forEach((cred: Credential) => {
+    // Move Kaito credential under X/Twitter and rename
+    // Move Bonsai credential under Lens and rename
+    let issuer = cred.data_issuer_name;
+    let name = cred.name;
+    if (issuer.toLowerCase().includes("kaito")) {
+      issuer = "X/Twitter";
+      name = "Kaito Yaps Airdrop";
+    }
+    if (issuer.toLowerCase().includes("bonsai")) {
+      issuer = "Lens";
+      name = "Bonsai Airdrop #1";
+    }
+
+    if (typeof issuer !== "string") {
+      return;
+    }
+
+    const existingGroup = issuerGroups.get(issuer);
+    let readableValue = null;
+    let uom = null;
+
+    const tiers = getCredentialTiers(cred);
+    if (cred.points_calculation_logic?.data_points) {
+      const maxDataPoint = cred.points_calculation_logic.data_points.find(
+        (dp) => dp.is_maximum,
+      );
+      readableValue = maxDataPoint?.readable_value ?? null;
+      uom = maxDataPoint?.uom ?? cred.uom ?? null;
+    } else {
+      uom = cred.uom ?? null;
+    }
+
+    const maxScore = cred.max_score; // Use max_score from API directly
+    if (existingGroup) {
+      existingGroup.total += cred.points;
+      existingGroup.max_total =
+        (existingGroup.max_total ?? 0) + (maxScore ?? 0);
+      existingGroup.points.push({
+        label: name,
+        slug: cred.slug,
+        value: cred.points,
+        max_score: maxScore,
+        readable_value: readableValue,
+        uom: uom,
+        external_url: cred.external_url,
+        ...(tiers.length > 0 ? { tiers } : {}),
+      });
+    } else {
+      issuerGroups.set(issuer, {
+        issuer,
+        total: cred.points,
+        max_total: maxScore ?? 0,
+        points: [
+          {
+            label: name,
+            slug: cred.slug,
+            value: cred.points,
+            max_score: maxScore,
+            readable_value: readableValue,
+            uom: uom,
+            external_url: cred.external_url,
+            ...(tiers.length > 0 ? { tiers } : {}),
+          },
+        ],
+      });
+    }
+  });
+
+  const result = Array.from(issuerGroups.values()).sort(
+    (a, b) => b.total - a.total,
+  );
+
+  return result;
+}
 
 /**
  * Fetches credentials for a Talent Protocol ID from the API
@@ -6,6 +115,7 @@ import { Credential, IssuerCredentialGroup, SCORER_SLUGS } from "./types";
  */
 export async function getCredentialsForTalentId(
   talentId: string | number,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
 ): Promise<IssuerCredentialGroup[]> {
   try {
     // Always use relative path to avoid CORS issues and ensure we use our API routes
@@ -21,7 +131,7 @@ export async function getCredentialsForTalentId(
     }
     const params = new URLSearchParams({
       talent_protocol_id: String(talentId),
-      scorer_slug: SCORER_SLUGS.CREATOR,
+      scorer_slug: scorerSlug,
     });
     const url = `${baseUrl}/api/talent-credentials?${params.toString()}`;
 
@@ -41,81 +151,66 @@ export async function getCredentialsForTalentId(
       return [];
     }
 
-    // Group credentials by issuer
-    const issuerGroups = new Map<string, IssuerCredentialGroup>();
-
-    data.credentials.forEach((cred: Credential) => {
-      // Move Kaito credential under X/Twitter and rename
-      // Move Bonsai credential under Lens and rename
-      let issuer = cred.data_issuer_name;
-      let name = cred.name;
-      if (issuer.toLowerCase().includes("kaito")) {
-        issuer = "X/Twitter";
-        name = "Kaito Yaps Airdrop";
-      }
-      if (issuer.toLowerCase().includes("bonsai")) {
-        issuer = "Lens";
-        name = "Bonsai Airdrop #1";
-      }
-
-      if (typeof issuer !== "string") {
-        return;
-      }
-
-      const existingGroup = issuerGroups.get(issuer);
-      let readableValue = null;
-      let uom = null;
-
-      if (cred.points_calculation_logic?.data_points) {
-        const maxDataPoint = cred.points_calculation_logic.data_points.find(
-          (dp) => dp.is_maximum,
-        );
-        readableValue = maxDataPoint?.readable_value ?? null;
-        uom = maxDataPoint?.uom ?? cred.uom ?? null;
-      } else {
-        uom = cred.uom ?? null;
-      }
-
-      const maxScore = cred.max_score; // Use max_score from API directly
-      if (existingGroup) {
-        existingGroup.total += cred.points;
-        existingGroup.max_total =
-          (existingGroup.max_total ?? 0) + (maxScore ?? 0);
-        existingGroup.points.push({
-          label: name,
-          slug: cred.slug,
-          value: cred.points,
-          max_score: maxScore,
-          readable_value: readableValue,
-          uom: uom,
-          external_url: cred.external_url,
-        });
-      } else {
-        issuerGroups.set(issuer, {
-          issuer,
-          total: cred.points,
-          max_total: maxScore ?? 0,
-          points: [
-            {
-              label: name,
-              slug: cred.slug,
-              value: cred.points,
-              max_score: maxScore,
-              readable_value: readableValue,
-              uom: uom,
-              external_url: cred.external_url,
-            },
-          ],
-        });
-      }
-    });
-
-    const result = Array.from(issuerGroups.values()).sort(
-      (a, b) => b.total - a.total,
-    );
-
-    return result;
+    return groupCredentialsByIssuer(data.credentials);
   } catch {
     return [];
   }
 }
+
+/**
+ * localStorage key for a profile's grouped credentials
+ */
+export function getCredentialsCacheKey(
+  talentId: string | number,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): string {
+  return scorerSlug === SCORER_SLUGS.CREATOR
+    ? `credentials-${talentId}`
+    : `credentials-${scorerSlug}-${talentId}`;
+}
+
+function getSnapshotKey(
+  talentId: string | number,
+  scorerSlug: ScorerSlug,
+): string {
+  return `credentials_snapshot_${scorerSlug}_${talentId}`;
+}
+
+/**
+ * Reads the profile's current credentials for saveCredentialsSnapshot, or null
+ * when there are none; an empty snapshot would report every credential as new
+ */
+export async function takeCredentialsSnapshot(
+  talentId: string | number,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): Promise<CredentialsSnapshot | null> {
+  const credentials = await getCredentialsForTalentId(talentId, scorerSlug);
+  if (credentials.length === 0) return null;
+
+  return { credentials, takenAt: new Date().toISOString() };
+}
+
+/**
+ * Stores credentials taken before a score refresh so the next load after it
+ * can show what changed
+ */
+export function saveCredentialsSnapshot(
+  talentId: string | number,
+  snapshot: CredentialsSnapshot,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): void {
+  setCachedData<CredentialsSnapshot>(
+    getSnapshotKey(talentId, scorerSlug),
+    snapshot,
+  );
+}
+
+export function getCredentialsSnapshot(
+  talentId: string | number,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): CredentialsSnapshot | null {
+  return getCachedData<CredentialsSnapshot>(
+    getSnapshotKey(talentId, scorerSlug),
+    CACHE_DURATIONS.CREDENTIALS_SNAPSHOT,
+  );
+}
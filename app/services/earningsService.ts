@@ -0,0 +1,142 @@
+import { calculateTotalRewards, convertEthToUsdc } from "@/lib/utils";
+import { isEarningsCredential } from "@/lib/total-earnings-config";
+import type {
+  EarningsBreakdown,
+  EarningsBreakdownSegment,
+  IssuerCredentialGroup,
+} from "./types";
+
+/**
+ * Calculates total creator earnings (in USD) from grouped credentials
+ */
+export async function getTotalEarningsFromCredentials(
+  credentialsGroups: IssuerCredentialGroup[],
+  ethPrice: number,
+): Promise<number> {
+  // Transform grouped credentials into the structure expected by calculateTotalRewards
+  const credentials = credentialsGroups.flatMap((group) =>
+    group.points.map((point) => ({
+      name: point.label,
+      slug: point.slug,
+      points_calculation_logic: {
+        data_points: [
+          {
+            value: `${point.readable_value} ${point.uom}`, // Reconstruct original value with currency
+            readable_value: point.readable_value,
+            uom: point.uom,
+          },
+        ],
+      },
+    })),
+  );
+
+  return calculateTotalRewards(credentials, async () => ethPrice);
+}
+
+/**
+ * Splits creator earnings by issuer, keeping the top 5 and grouping the rest as "Other"
+ */
+export function getEarningsBreakdownFromCredentials(
+  credentials: IssuerCredentialGroup[],
+  ethPrice: number,
+): EarningsBreakdown {
+  const issuerTotals = new Map<string, number>();
+
+  // Process each credential group
+  credentials.forEach((credentialGroup) => {
+    // Check if any point in this group is earnings-related
+    const hasEarningsCredentials = credentialGroup.points.some((point) =>
+      isEarningsCredential(point.slug || ""),
+    );
+
+    if (!hasEarningsCredentials) {
+      return;
+    }
+
+    let issuerTotal = 0;
+
+    // Calculate total for this issuer
+    credentialGroup.points.forEach((point) => {
+      if (!isEarningsCredential(point.slug || "")) {
+        return;
+      }
+
+      if (!point.readable_value || !point.uom) {
+        return;
+      }
+
+      // Parse the value
+      const cleanValue = point.readable_value;
+      let value: number;
+      const numericValue = cleanValue.replace(/[^0-9.KM-]+/g, "");
+
+      if (numericValue.includes("K")) {
+        value = parseFloat(numericValue.replace("K", "")) * 1000;
+      } else if (numericValue.includes("M")) {
+        value = parseFloat(numericValue.replace("M", "")) * 1000000;
+      } else {
+        value = parseFloat(numericValue);
+      }
+
+      if (isNaN(value)) {
+        return;
+      }
+
+      // Convert to USD
+      let usdValue = 0;
+      if (point.uom === "ETH") {
+        usdValue = convertEthToUsdc(value, ethPrice);
+      } else if (point.uom === "USDC") {
+        usdValue = value;
+      }
+
+      issuerTotal += usdValue;
+    });
+
+    if (issuerTotal > 0) {
+      issuerTotals.set(credentialGroup.issuer, issuerTotal);
+    }
+  });
+
+  // Convert to array and sort by value
+  const sortedIssuers = Array.from(issuerTotals.entries()).sort(
+    ([, a], [, b]) => b - a,
+  );
+
+  // Calculate total earnings
+  const totalEarnings = sortedIssuers.reduce(
+    (sum, [, value]) => sum + value,
+    0,
+  );
+
+  if (totalEarnings === 0) {
+    return {
+      totalEarnings: 0,
+      segments: [],
+    };
+  }
+
+  // Take top 5 and group the rest as "Other"
+  const top5 = sortedIssuers.slice(0, 5);
+  const others = sortedIssuers.slice(5);
+  const otherTotal = others.reduce((sum, [, value]) => sum + value, 0);
+
+  const segments: EarningsBreakdownSegment[] = top5.map(([issuer, value]) => ({
+    name: issuer,
+    value,
+    percentage: (value / totalEarnings) * 100,
+  }));
+
+  if (otherTotal > 0) {
+    segments.push({
+      name: "Other",
+      value: otherTotal,
+      percentage: (otherTotal / totalEarnings) * 100,
+    });
+  }
+
+  return {
+    totalEarnings,
+    segments,
+  };
+}
@@ -1,13 +1,28 @@
-import { LeaderboardEntry } from "./types";
+import {
+  CategoryLeaderboardResponse,
+  FollowingLeaderboardResponse,
+  LeaderboardEntry,
+  LeaderboardPosition,
+  SCORER_SLUGS,
+  ScorerSlug,
+} from "./types";
+import { fetchWithAuth } from "./authService";
 
 /**
- * Fetches leaderboard data (top creators by Creator Score) from Talent Protocol API
+ * Fetches leaderboard data (top creators by Creator Score, or by the given scorer) from Talent Protocol API
  */
 export async function getLeaderboardCreators({
   page = 1,
   perPage = 10,
-}: { page?: number; perPage?: number } = {}): Promise<LeaderboardEntry[]> {
-  const res = await fetch(`/api/leaderboard?page=${page}&per_page=${perPage}`);
+  scorerSlug = SCORER_SLUGS.CREATOR,
+}: {
+  page?: number;
+  perPage?: number;
+  scorerSlug?: ScorerSlug;
+} = {}): Promise<LeaderboardEntry[]> {
+  const res = await fetch(
+    `/api/leaderboard?page=${page}&per_page=${perPage}&scorer_slug=${scorerSlug}`,
+  );
   if (!res.ok) {
     const errorText = await res.text();
     throw new Error(errorText || "Failed to fetch leaderboard data");
@@ -19,12 +34,16 @@ export async function getLeaderboardCreators({
 /**
  * Fetches leaderboard stats (minScore and totalCreators with creator score > 0) from the API
  */
-export async function getLeaderboardStats(): Promise<{
+export async function getLeaderboardStats(
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): Promise<{
   minScore: number | null;
   totalCreators: number;
   eligibleCreators: number;
 }> {
-  const res = await fetch(`/api/leaderboard?statsOnly=true&page=1&per_page=1`);
+  const res = await fetch(
+    `/api/leaderboard?statsOnly=true&page=1&per_page=1&scorer_slug=${scorerSlug}`,
+  );
   if (!res.ok) {
     throw new Error("Failed to fetch leaderboard stats");
   }
@@ -35,3 +54,66 @@ export async function getLeaderboardStats(): Promise<{
     eligibleCreators: json.eligibleCreators ?? 0,
   };
 }
+
+/**
+ * Fetches a creator's exact rank on the full leaderboard and the creators around them
+ */
+export async function getLeaderboardPosition(
+  talentId: string,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): Promise<LeaderboardPosition> {
+  const res = await fetch(
+    `/api/leaderboard/rank?talent_id=${encodeURIComponent(talentId)}&scorer_slug=${scorerSlug}`,
+  );
+  if (!res.ok) {
+    throw new Error("Failed to fetch leaderboard position");
+  }
+  return res.json();
+}
+
+/**
+ * Fetches a page of creators ranked by their points in one creator category
+ */
+export async function getCategoryLeaderboard(
+  category: string,
+  page = 1,
+  perPage = 25,
+): Promise<CategoryLeaderboardResponse> {
+  const res = await fetch(
+    `/api/leaderboard/category?category=${encodeURIComponent(category)}&page=${page}&per_page=${perPage}`,
+  );
+  if (!res.ok) {
+    throw new Error("Failed to fetch category leaderboard");
+  }
+  return res.json();
+}
+
+/**
+ * Saves the category a creator picked for their own profile so they are
+ * listed in that category's leaderboard; null clears it
+ */
+export async function saveSelfReportedCategory(
+  talentId: string,
+  category: string | null,
+): Promise<void> {
+  const res = await fetchWithAuth("/api/creator-category", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ talent_protocol_id: talentId, category }),
+  });
+  if (!res.ok) {
+    throw new Error("Failed to save category");
+  }
+}
+
+/**
+ * Fetches the creators the signed-in Farcaster user follows, and the user, ranked by
+ * Creator Score
+ */
+export async function getFollowingLeaderboard(): Promise<FollowingLeaderboardResponse> {
+  const res = await fetchWithAuth("/api/leaderboard/following");
+  if (!res.ok) {
+    throw new Error("Failed to fetch following leaderboard");
+  }
+  return res.json();
+}
@@ -1,4 +1,74 @@
-import { Post, PostsResponse } from "./types";
+import { Post, PostAggregates, PostsResponse, YearlyPostData } from "./types";
+import { calculatePostingStreaks } from "@/lib/streaks";
+
+/**
+ * Groups posts into per-month counts for each year, oldest year first
+ */
+export function groupPostsByYear(posts: Post[]): YearlyPostData[] {
+  if (posts.length === 0) return [];
+
+  // Group posts by year and month
+  const yearMonthCounts: Record<string, Record<string, number>> = {};
+
+  posts.forEach((post) => {
+    const date = new Date(post.onchain_created_at);
+    const year = date.getFullYear().toString();
+    const month = date.getMonth(); // 0-11
+
+    if (!yearMonthCounts[year]) {
+      yearMonthCounts[year] = {};
+    }
+    if (!yearMonthCounts[year][month]) {
+      yearMonthCounts[year][month] = 0;
+    }
+    yearMonthCounts[year][month]++;
+  });
+
+  // Convert to YearlyPostData format
+  const years = Object.keys(yearMonthCounts)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  return years.map((year) => {
+    const months = Array(12).fill(0);
+    const yearData = yearMonthCounts[year.toString()];
+
+    // Fill in the months that have posts
+    Object.keys(yearData).forEach((monthStr) => {
+      const monthIndex = parseInt(monthStr);
+      months[monthIndex] = yearData[monthStr];
+    });
+
+    const total = months.reduce((sum, count) => sum + count, 0);
+
+    return {
+      year,
+      months,
+      total,
+    };
+  });
+}
+
+/**
+ * Summarizes posts into totals per platform and per month, and posting streaks
+ * counted in the given time zone
+ */
+export function aggregatePosts(
+  posts: Post[],
+  timeZone: string = "UTC",
+): PostAggregates {
+  const platformCounts: Record<string, number> = {};
+  posts.forEach((post) => {
+    platformCounts[post.platform] = (platformCounts[post.platform] || 0) + 1;
+  });
+
+  return {
+    totalPosts: posts.length,
+    platformCounts,
+    yearlyData: groupPostsByYear(posts),
+    streaks: calculatePostingStreaks(posts, timeZone),
+  };
+}
 
 /**
  * Fetches posts for a Talent Protocol ID from the API with pagination support
@@ -32,32 +102,46 @@ export async function getPostsForTalentId(
   }
 }
 
+// Largest page the posts endpoint returns
+const ALL_POSTS_PAGE_SIZE = 1000;
+
 /**
- * Fetches all posts for a Talent Protocol ID without pagination
+ * Fetches all posts for a Talent Protocol ID, walking every page. Throws when
+ * any page fails rather than pass part of the posts off as all of them.
  */
 export async function getAllPostsForTalentId(
   talentId: string | number,
 ): Promise<Post[]> {
-  try {
-    const baseUrl = "/api/talent-posts";
+  const baseUrl = "/api/talent-posts";
+  const posts: Post[] = [];
+
+  for (let page = 1; ; page++) {
     const params = new URLSearchParams({
       talent_protocol_id: String(talentId),
-      page: "1",
-      per_page: "1000", // Large number to get all posts
+      page: String(page),
+      per_page: String(ALL_POSTS_PAGE_SIZE),
     });
     const response = await fetch(`${baseUrl}?${params.toString()}`);
     if (!response.ok) throw new Error(`Talent API error: ${response.status}`);
     const data: PostsResponse = await response.json();
 
-    if (!Array.isArray(data.posts)) return [];
+    if (!Array.isArray(data.posts)) {
+      throw new Error(`Invalid posts response for page ${page}`);
+    }
+    posts.push(...data.posts);
 
-    // Sort posts by date, newest first
-    return data.posts.sort(
-      (a, b) =>
-        new Date(b.onchain_created_at).getTime() -
-        new Date(a.onchain_created_at).getTime(),
-    );
-  } catch {
-    return [];
+    if (
+      data.posts.length < ALL_POSTS_PAGE_SIZE ||
+      page >= (data.pagination?.last_page ?? page)
+    ) {
+      break;
+    }
   }
+
+  // Sort posts by date, newest first
+  return posts.sort(
+    (a, b) =>
+      new Date(b.onchain_created_at).getTime() -
+      new Date(a.onchain_created_at).getTime(),
+  );
 }
@@ -0,0 +1,70 @@
+import {
+  getCachedData,
+  setCachedData,
+  clearCachedData,
+  CACHE_DURATIONS,
+} from "@/lib/utils";
+import type { ProfileSummary } from "./types";
+
+// In-flight request tracking so every profile hook shares one summary request
+const inFlightRequests = new Map<string, Promise<ProfileSummary | null>>();
+
+function getCacheKey(identifier: string): string {
+  return `profile_summary_${identifier}`;
+}
+
+/**
+ * Fetches the aggregated profile summary (profile, score, socials, credentials,
+ * earnings and post aggregates) for a Talent UUID or other profile identifier.
+ * Returns null if the summary can't be loaded so callers can fall back to the
+ * per-section endpoints.
+ */
+export async function getProfileSummary(
+  identifier: string,
+): Promise<ProfileSummary | null> {
+  const cached = getCachedData<ProfileSummary>(
+    getCacheKey(identifier),
+    CACHE_DURATIONS.PROFILE_DATA,
+  );
+  if (cached) {
+    return cached;
+  }
+
+  const existing = inFlightRequests.get(identifier);
+  if (existing) {
+    return existing;
+  }
+
+  const request = (async () => {
+    try {
+      const response = await fetch(
+        `/api/profile/${encodeURIComponent(identifier)}/summary`,
+      );
+      if (!response.ok) return null;
+
+      const summary: ProfileSummary = await response.json();
+
+      // Cache under the resolved UUID too, since most hooks are keyed by it
+      setCachedData(getCacheKey(identifier), summary);
+      if (summary.talentUuid !== identifier) {
+        setCachedData(getCacheKey(summary.talentUuid), summary);
+      }
+
+      return summary;
+    } catch {
+      return null;
+    } finally {
+      inFlightRequests.delete(identifier);
+    }
+  })();
+
+  inFlightRequests.set(identifier, request);
+  return request;
+}
+
+/**
+ * Drops the cached summary so the next call fetches fresh data
+ */
+export function clearProfileSummaryCache(identifier: string): void {
+  clearCachedData(getCacheKey(identifier));
+}
@@ -0,0 +1,72 @@
+import type {
+  PayoutRow,
+  RoundClimbersResponse,
+  RoundSponsor,
+  RoundsResponse,
+} from "./types";
+
+/**
+ * Fetches the current rewards round and the archive of past rounds
+ */
+export async function getRounds(): Promise<RoundsResponse> {
+  const res = await fetch("/api/rounds");
+  if (!res.ok) {
+    throw new Error("Failed to fetch rewards rounds");
+  }
+  return res.json();
+}
+
+/**
+ * Fetches a creator's payout for a round, null if they aren't eligible
+ */
+export async function getRoundPayout(
+  roundId: string,
+  talentId: string,
+): Promise<PayoutRow | null> {
+  const res = await fetch(
+    `/api/rounds/${encodeURIComponent(roundId)}/payouts?talent_protocol_id=${encodeURIComponent(talentId)}`,
+  );
+  if (!res.ok) {
+    throw new Error("Failed to fetch round payout");
+  }
+  const json = await res.json();
+  return json.payout ?? null;
+}
+
+export function getPayoutDownloadUrl(
+  roundId: string,
+  format: "csv" | "json",
+): string {
+  return `/api/rounds/${encodeURIComponent(roundId)}/payouts?format=${format}`;
+}
+
+/**
+ * Fetches the creators who climbed the most ranks in a round over the last week
+ */
+export async function getRoundClimbers(
+  roundId: string,
+): Promise<RoundClimbersResponse> {
+  const res = await fetch(
+    `/api/rounds/${encodeURIComponent(roundId)}/climbers`,
+  );
+  if (!res.ok) {
+    throw new Error("Failed to fetch climbers");
+  }
+  return res.json();
+}
+
+/**
+ * Fetches a round's sponsors with the onchain verification of their contributions
+ */
+export async function getVerifiedSponsors(
+  roundId: string,
+): Promise<RoundSponsor[]> {
+  const res = await fetch(
+    `/api/rounds/${encodeURIComponent(roundId)}/sponsors`,
+  );
+  if (!res.ok) {
+    throw new Error("Failed to fetch sponsors");
+  }
+  const json = await res.json();
+  return json.sponsors || [];
+}
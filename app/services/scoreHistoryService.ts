@@ -0,0 +1,18 @@
+import { SCORER_SLUGS, type ScoreHistoryPoint } from "./types";
+
+/**
+ * Fetches the daily score history for a Talent Protocol ID, oldest first
+ */
+export async function getScoreHistoryForTalentId(
+  talentId: string | number,
+  scorerSlug: string = SCORER_SLUGS.CREATOR,
+): Promise<ScoreHistoryPoint[]> {
+  const params = new URLSearchParams({
+    talent_protocol_id: String(talentId),
+    scorer_slug: scorerSlug,
+  });
+  const response = await fetch(`/api/score-history?${params.toString()}`);
+  if (!response.ok) throw new Error(`Score history error: ${response.status}`);
+  const data = await response.json();
+  return Array.isArray(data.history) ? data.history : [];
+}
@@ -1,33 +1,48 @@
+import { SCORER_SLUGS, type ScorerSlug } from "./types";
+import { fetchWithAuth } from "./authService";
+
+function getBaseUrl(): string {
+  // Always use relative path to avoid CORS issues and ensure we use our API routes
+  if (typeof window !== "undefined") {
+    // Client-side: use relative path to ensure we call our own API routes
+    return "";
+  }
+  // Server-side: use the current origin
+  return process.env.VERCEL_URL
+    ? `https://${process.env.VERCEL_URL}`
+    : process.env.NEXT_PUBLIC_URL || "";
+}
+
 /**
- * Triggers Creator Score calculation for a Talent Protocol ID
+ * Triggers score calculation for a Talent Protocol ID, Creator Score by default.
+ * Only the signed in owner of the profile can refresh it; when the server
+ * refuses because of a cooldown or rate limit, retryAfter holds the seconds to wait.
  */
 export async function triggerScoreCalculation(
   talentId: string | number,
-): Promise<{ success: boolean; message?: string; error?: string }> {
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): Promise<{
+  success: boolean;
+  message?: string;
+  error?: string;
+  retryAfter?: number;
+}> {
   try {
-    // Always use relative path to avoid CORS issues and ensure we use our API routes
-    let baseUrl = "";
-    if (typeof window !== "undefined") {
-      // Client-side: use relative path to ensure we call our own API routes
-      baseUrl = "";
-    } else {
-      // Server-side: use the current origin
-      baseUrl = process.env.VERCEL_URL
-        ? `https://${process.env.VERCEL_URL}`
-        : process.env.NEXT_PUBLIC_URL || "";
-    }
-
     const requestBody = {
       talent_protocol_id: String(talentId),
+      scorer_slug: scorerSlug,
     };
 
-    const response = await fetch(`${baseUrl}/api/talent-score-refresh`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+    const response = await fetchWithAuth(
+      `${getBaseUrl()}/api/talent-score-refresh`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(requestBody),
       },
-      body: JSON.stringify(requestBody),
-    });
+    );
 
     const data = await response.json();
 
@@ -35,6 +50,7 @@ export async function triggerScoreCalculation(
       return {
         success: false,
         error: data.error || `HTTP ${response.status}: ${response.statusText}`,
+        retryAfter: data.retryAfter,
       };
     }
 
@@ -52,3 +68,49 @@ export async function triggerScoreCalculation(
     };
   }
 }
+
+/**
+ * Returns the seconds left before a profile's score can be refreshed again
+ */
+export async function getRefreshCooldown(
+  talentId: string | number,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): Promise<number> {
+  const params = new URLSearchParams({
+    talent_protocol_id: String(talentId),
+    scorer_slug: scorerSlug,
+  });
+  const response = await fetch(
+    `${getBaseUrl()}/api/talent-score-refresh?${params}`,
+  );
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return typeof data.retryAfter === "number" ? data.retryAfter : 0;
+}
+
+/**
+ * Tells the server the signed in requester saw their calculation finish, so no
+ * notification is sent about it. Best-effort: the notification is the fallback.
+ */
+export async function markScoreCalculationSeen(
+  talentId: string | number,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+): Promise<void> {
+  try {
+    await fetchWithAuth(`${getBaseUrl()}/api/score-calculations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        talent_protocol_id: String(talentId),
+        scorer_slug: scorerSlug,
+      }),
+    });
+  } catch (error) {
+    console.error("Error marking score calculation as seen:", error);
+  }
+}
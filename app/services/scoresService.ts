@@ -1,5 +1,54 @@
-import { LEVEL_RANGES } from "@/lib/constants";
-import { BuilderScore, CreatorScore, SCORER_SLUGS } from "./types";
+import { LEVEL_RANGES, SCORE_CALCULATION_POLLING } from "@/lib/constants";
+import { BuilderScore, CreatorScore, SCORER_SLUGS, ScorerSlug } from "./types";
+
+/**
+ * Maps a /api/talent-score response to a score with its level
+ */
+export function parseScoreResponse(
+  data: {
+    error?: string;
+    score?: {
+      points?: number | null;
+      last_calculated_at?: string | null;
+      calculating_score?: boolean;
+      calculating_score_enqueued_at?: string | null;
+    };
+  },
+  walletAddress: string | null = null,
+): BuilderScore {
+  if (data.error) {
+    return {
+      score: 0,
+      level: 1,
+      levelName: "Level 1",
+      lastCalculatedAt: null,
+      walletAddress: null,
+      error: data.error,
+    };
+  }
+
+  // Extract points and last_calculated_at from the nested score object
+  const points = data.score?.points ?? 0;
+  const lastCalculatedAt = data.score?.last_calculated_at ?? null;
+  const calculating = data.score?.calculating_score ?? false;
+  const calculatingEnqueuedAt =
+    data.score?.calculating_score_enqueued_at ?? null;
+
+  const levelInfo =
+    LEVEL_RANGES.find((range) => points >= range.min && points <= range.max) ||
+    LEVEL_RANGES[0];
+  const level = LEVEL_RANGES.indexOf(levelInfo) + 1;
+
+  return {
+    score: points,
+    level,
+    levelName: levelInfo.name,
+    lastCalculatedAt,
+    walletAddress,
+    calculating,
+    calculatingEnqueuedAt,
+  };
+}
 
 /**
  * Generic function to fetch a score for a single wallet address
@@ -28,40 +77,7 @@ async function getScoreForAddress(
       { method: "GET" },
     );
     const data = await response.json();
-
-    if (data.error) {
-      return {
-        score: 0,
-        level: 1,
-        levelName: "Level 1",
-        lastCalculatedAt: null,
-        walletAddress: null,
-        error: data.error,
-      };
-    }
-
-    // Extract points and last_calculated_at from the nested score object
-    const points = data.score?.points ?? 0;
-    const lastCalculatedAt = data.score?.last_calculated_at ?? null;
-    const calculating = data.score?.calculating_score ?? false;
-    const calculatingEnqueuedAt =
-      data.score?.calculating_score_enqueued_at ?? null;
-
-    const levelInfo =
-      LEVEL_RANGES.find(
-        (range) => points >= range.min && points <= range.max,
-      ) || LEVEL_RANGES[0];
-    const level = LEVEL_RANGES.indexOf(levelInfo) + 1;
-
-    return {
-      score: points,
-      level,
-      levelName: levelInfo.name,
-      lastCalculatedAt,
-      walletAddress: address,
-      calculating,
-      calculatingEnqueuedAt,
-    };
+    return parseScoreResponse(data, address);
   } catch (error) {
     return {
       score: 0,
@@ -152,6 +168,16 @@ export async function getCreatorScore(
 export async function getCreatorScoreForTalentId(
   talentId: string | number,
 ): Promise<CreatorScore> {
+  return getScoreForTalentId(talentId, SCORER_SLUGS.CREATOR);
+}
+
+/**
+ * Fetches the score from the given scorer for a Talent Protocol ID
+ */
+export async function getScoreForTalentId(
+  talentId: string | number,
+  scorerSlug: ScorerSlug,
+): Promise<BuilderScore> {
   try {
     // Always use relative path to avoid CORS issues and ensure we use our API routes
     let baseUrl = "";
@@ -166,43 +192,14 @@ export async function getCreatorScoreForTalentId(
     }
     const params = new URLSearchParams({
       talent_protocol_id: String(talentId),
-      scorer_slug: SCORER_SLUGS.CREATOR,
+      scorer_slug: scorerSlug,
     });
     const response = await fetch(
       `${baseUrl}/api/talent-score?${params.toString()}`,
       { method: "GET" },
     );
     const data = await response.json();
-    if (data.error) {
-      return {
-        score: 0,
-        level: 1,
-        levelName: "Level 1",
-        lastCalculatedAt: null,
-        walletAddress: null,
-        error: data.error,
-      };
-    }
-    const points = data.score?.points ?? 0;
-    const lastCalculatedAt = data.score?.last_calculated_at ?? null;
-    const calculating = data.score?.calculating_score ?? false;
-    const calculatingEnqueuedAt =
-      data.score?.calculating_score_enqueued_at ?? null;
-    const levelInfo =
-      LEVEL_RANGES.find(
-        (range) => points >= range.min && points <= range.max,
-      ) || LEVEL_RANGES[0];
-    const level = LEVEL_RANGES.indexOf(levelInfo) + 1;
-    const result = {
-      score: points,
-      level,
-      levelName: levelInfo.name,
-      lastCalculatedAt,
-      walletAddress: null,
-      calculating,
-      calculatingEnqueuedAt,
-    };
-    return result;
+    return parseScoreResponse(data);
   } catch (error) {
     return {
       score: 0,
@@ -214,3 +211,67 @@ export async function getCreatorScoreForTalentId(
     };
   }
 }
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * Polls a score after a calculation was requested until it finishes or the
+ * client timeout is hit. Checks back less often the longer the calculation has
+ * been queued. Returns null if polling was aborted.
+ */
+export async function waitForScoreCalculation(
+  talentId: string | number,
+  scorerSlug: ScorerSlug,
+  {
+    requestedAt = Date.now(),
+    signal,
+  }: { requestedAt?: number; signal?: AbortSignal } = {},
+): Promise<{ score: BuilderScore; timedOut: boolean } | null> {
+  const { MIN_DELAY_MS, MAX_DELAY_MS, CLIENT_TIMEOUT_MS } =
+    SCORE_CALCULATION_POLLING;
+  let sawCalculating = false;
+
+  while (!signal?.aborted) {
+    const score = await getScoreForTalentId(talentId, scorerSlug);
+    sawCalculating = sawCalculating || !!score.calculating;
+
+    // Right after a refresh the old score can still come back before it's marked as calculating
+    const calculatedSinceRequest =
+      !!score.lastCalculatedAt &&
+      new Date(score.lastCalculatedAt).getTime() >= requestedAt;
+    if (
+      !score.error &&
+      !score.calculating &&
+      (sawCalculating || calculatedSinceRequest)
+    ) {
+      return { score, timedOut: false };
+    }
+
+    if (Date.now() - requestedAt >= CLIENT_TIMEOUT_MS) {
+      return { score, timedOut: true };
+    }
+
+    const enqueuedAt = score.calculatingEnqueuedAt
+      ? new Date(score.calculatingEnqueuedAt).getTime()
+      : requestedAt;
+    const delay = Math.min(
+      MAX_DELAY_MS,
+      Math.max(MIN_DELAY_MS, (Date.now() - enqueuedAt) / 4),
+    );
+    await wait(delay, signal);
+  }
+
+  return null;
+}
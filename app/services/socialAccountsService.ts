@@ -25,6 +25,73 @@ function getDisplayName(source: string): string {
   return source.charAt(0).toUpperCase() + source.slice(1);
 }
 
+/**
+ * Normalizes raw Talent API socials for display, dropping duplicate sources
+ */
+export function transformSocialAccounts(
+  socials: TalentSocialAccount[],
+): SocialAccount[] {
+  // Process social accounts without merging EFP and ENS
+  return socials
+    .filter((s: TalentSocialAccount) => {
+      const src = s.source;
+      // Only exclude linkedin and duplicate ethereum accounts
+      return src !== "linkedin" && src !== "ethereum";
+    })
+    .map((s: TalentSocialAccount) => {
+      let handle = s.handle || null;
+      const src = s.source;
+
+      if (
+        src === "lens" &&
+        handle &&
+        typeof handle === "string" &&
+        handle.startsWith("lens/")
+      ) {
+        handle = handle.replace(/^lens\//, "");
+      }
+
+      if (
+        (src === "farcaster" || src === "twitter") &&
+        handle &&
+        typeof handle === "string" &&
+        !handle.startsWith("@")
+      ) {
+        handle = `@${handle}`;
+      }
+
+      const displayName = getDisplayName(src);
+
+      if (src === "basename") {
+        return {
+          source: "base",
+          handle,
+          followerCount: null,
+          accountAge: getAccountAge(s.owned_since ?? null),
+          profileUrl: s.profile_url ?? null,
+          imageUrl: s.image_url ?? null,
+          displayName: "Base",
+        };
+      }
+
+      // Special handling for EFP fallback URL
+      let profileUrl = s.profile_url ?? null;
+      if (src === "efp" && !profileUrl && handle) {
+        profileUrl = `https://efp.app/${handle}`;
+      }
+
+      return {
+        source: src,
+        handle,
+        followerCount: s.followers_count ?? null,
+        accountAge: getAccountAge(s.owned_since ?? null),
+        profileUrl,
+        imageUrl: s.image_url ?? null,
+        displayName,
+      };
+    });
+}
+
 /**
  * Fetches social accounts for a Talent Protocol ID from the API
  */
@@ -41,67 +108,7 @@ export async function getSocialAccountsForTalentId(
     const data = await response.json();
     if (!Array.isArray(data.socials)) return [];
 
-    // Process social accounts without merging EFP and ENS
-    const socials: SocialAccount[] = data.socials
-      .filter((s: TalentSocialAccount) => {
-        const src = s.source;
-        // Only exclude linkedin and duplicate ethereum accounts
-        return src !== "linkedin" && src !== "ethereum";
-      })
-      .map((s: TalentSocialAccount) => {
-        let handle = s.handle || null;
-        const src = s.source;
-
-        if (
-          src === "lens" &&
-          handle &&
-          typeof handle === "string" &&
-          handle.startsWith("lens/")
-        ) {
-          handle = handle.replace(/^lens\//, "");
-        }
-
-        if (
-          (src === "farcaster" || src === "twitter") &&
-          handle &&
-          typeof handle === "string" &&
-          !handle.startsWith("@")
-        ) {
-          handle = `@${handle}`;
-        }
-
-        const displayName = getDisplayName(src);
-
-        if (src === "basename") {
-          return {
-            source: "base",
-            handle,
-            followerCount: null,
-            accountAge: getAccountAge(s.owned_since ?? null),
-            profileUrl: s.profile_url ?? null,
-            imageUrl: s.image_url ?? null,
-            displayName: "Base",
-          };
-        }
-
-        // Special handling for EFP fallback URL
-        let profileUrl = s.profile_url ?? null;
-        if (src === "efp" && !profileUrl && handle) {
-          profileUrl = `https://efp.app/${handle}`;
-        }
-
-        return {
-          source: src,
-          handle,
-          followerCount: s.followers_count ?? null,
-          accountAge: getAccountAge(s.owned_since ?? null),
-          profileUrl,
-          imageUrl: s.image_url ?? null,
-          displayName,
-        };
-      });
-
-    return socials;
+    return transformSocialAccounts(data.socials);
   } catch {
     return [];
   }
@@ -40,11 +40,26 @@ export interface Credential {
       readable_value: string | null;
       value: string | null;
       uom: string | null;
+      points?: number | null; // set on tiers: what the credential is worth once value is reached
     }>;
     max_points: number | null;
   };
 }
 
+// Daily score snapshot returned by /api/score-history
+export interface ScoreHistoryPoint {
+  date: string; // YYYY-MM-DD
+  score: number;
+  lastCalculatedAt: string | null;
+  credentials: Record<string, number>; // credential slug -> points
+}
+
+// Credentials as they were just before the owner last refreshed their score
+export interface CredentialsSnapshot {
+  credentials: IssuerCredentialGroup[];
+  takenAt: string;
+}
+
 export interface CredentialsResponse {
   credentials: Credential[];
 }
@@ -61,16 +76,23 @@ export interface IssuerCredentialGroup {
     readable_value: string | null;
     uom: string | null;
     external_url: string | null;
+    tiers?: CredentialTier[]; // lowest threshold first
   }>;
 }
 
+// A step of a tiered credential: reaching threshold makes the credential worth points
+export interface CredentialTier {
+  threshold: number;
+  points: number;
+}
+
 export interface TalentSocialAccount {
   source: string;
   handle: string | null;
-  followers_count: number | null;
-  owned_since: string | null;
-  profile_url: string | null;
-  image_url: string | null;
+  followers_count?: number | null;
+  owned_since?: string | null;
+  profile_url?: string | null;
+  image_url?: string | null;
 }
 
 export interface Post {
@@ -99,6 +121,29 @@ export interface PostsResponse {
   };
 }
 
+export interface YearlyPostData {
+  year: number;
+  months: number[];
+  total: number;
+}
+
+export interface Streak {
+  current: number; // consecutive periods up to this one or the last
+  longest: number;
+}
+
+export interface PostingStreaks {
+  weekly: Streak;
+  monthly: Streak;
+}
+
+export interface PostAggregates {
+  totalPosts: number;
+  platformCounts: Record<string, number>;
+  yearlyData: YearlyPostData[];
+  streaks: PostingStreaks; // in the time zone the posts were aggregated for
+}
+
 export type LeaderboardEntry = {
   rank: number;
   name: string;
@@ -107,8 +152,227 @@ export type LeaderboardEntry = {
   rewards: string;
   id: string;
   talent_protocol_id: string | number;
+  humanCheckmark?: boolean; // holds a verified humanity credential
+  // Since the last daily snapshot; null when new to it, missing when there's nothing to compare
+  previousRank?: number | null;
+  scoreDelta?: number | null;
+  // Why the creator gets no share of the rewards round; null when eligible
+  ineligibleReason?: IneligibleReason | null;
 };
 
+// Rewards rounds
+export interface RoundSponsor {
+  id: string;
+  name: string;
+  avatar: string;
+  amount: number; // USDC
+  date: string; // YYYY-MM-DD
+  txHash?: string; // the USDC transfer to the pool, once it's been sent
+  verification?: SponsorVerification;
+}
+
+// What the sponsor's transaction actually moved into the rewards pool
+export interface SponsorVerification {
+  status: "verified" | "unverified";
+  onchainAmount: number | null; // USDC transferred to the pool
+  blockTimestamp: string | null; // ISO date of the transaction's block
+  reason?: string; // why the sponsor couldn't be verified
+}
+
+export interface RoundStanding {
+  rank: number;
+  talent_protocol_id: string;
+  name: string;
+  pfp?: string;
+  score: number;
+}
+
+// A snapshot entry keeps the checkmark the round's humanity rule is checked against
+export interface SnapshotEntry extends RoundStanding {
+  humanCheckmark?: boolean;
+}
+
+// A round's leaderboard as recorded by the daily snapshot job
+export interface LeaderboardSnapshot {
+  roundId: string;
+  date: string; // UTC day, YYYY-MM-DD
+  takenAt?: string; // ISO time, missing on snapshots recorded before it was kept
+  // Lists every visible creator above the round's minimum score rather than the top,
+  // as a snapshot taken once the round has ended does
+  complete?: boolean;
+  entries: SnapshotEntry[];
+}
+
+export interface LeaderboardClimber extends RoundStanding {
+  previousRank: number;
+  scoreDelta: number;
+}
+
+export interface RoundClimbersResponse {
+  roundId: string;
+  since: string | null; // day of the snapshot compared against
+  climbers: LeaderboardClimber[];
+}
+
+// What a creator needs for a share of a round's rewards
+export type EligibilityRule =
+  | { type: "minScore"; score: number }
+  | { type: "minLevel"; level: number } // 1-6, see LEVEL_RANGES
+  | { type: "humanity" }; // a verified humanity credential
+
+export type IneligibleReason = "min_score" | "min_level" | "humanity";
+
+export type RoundStatus = "upcoming" | "active" | "ended";
+
+export type RoundDistribution =
+  | { type: "proportional" } // the pool is split by score
+  | {
+      type: "tiered";
+      // Each band of ranks gets a share of the pool, split evenly within the band
+      tiers: { upToRank: number; share: number }[];
+    };
+
+export interface RewardsRound {
+  id: string;
+  name: string;
+  startsAt: string; // ISO 8601
+  endsAt: string; // ISO 8601
+  status: RoundStatus;
+  scorerSlug: ScorerSlug;
+  eligibilityRules: EligibilityRule[];
+  eligibilityMinScore: number; // lowest score the rules allow
+  distribution: RoundDistribution;
+  maxPayoutPerCreator: number | null; // USDC, excess goes to the other creators
+  poolAmount: number; // USDC, the sum of sponsor contributions
+  poolAddress: string;
+  sponsors: RoundSponsor[]; // largest contribution first
+}
+
+export interface ArchivedRound extends RewardsRound {
+  standings: RoundStanding[] | null; // null until the final standings are recorded
+}
+
+export interface PayoutRow {
+  rank: number;
+  talent_protocol_id: string;
+  name: string;
+  score: number;
+  amount: string; // USDC with 6 decimals
+}
+
+export interface PayoutManifest {
+  roundId: string;
+  scorerSlug: ScorerSlug;
+  eligibilityRules: EligibilityRule[];
+  eligibilityMinScore: number;
+  distribution: RoundDistribution;
+  maxPayoutPerCreator: number | null;
+  poolAmount: string; // USDC with 6 decimals
+  totalPaid: string; // USDC with 6 decimals
+  eligibleCount: number;
+  checksum: string; // sha256 of the CSV export
+  payouts: PayoutRow[];
+}
+
+export interface RoundsResponse {
+  current: RewardsRound | null;
+  // The round leaderboard rewards are shown for: the active one, or between
+  // rounds the one that ended last, for a week after it ended
+  rewards: RewardsRound | null;
+  past: ArchivedRound[];
+}
+
+export interface LeaderboardPosition {
+  talent_protocol_id: string;
+  score: number;
+  rank: number | null; // null when the creator has no score on this scorer
+  tiedWith: number; // other creators sharing the rank
+  total: number; // creators on the leaderboard
+  above: LeaderboardEntry[]; // in leaderboard order
+  below: LeaderboardEntry[]; // in leaderboard order
+  // The rewards round rule the creator misses, when the scorer is the rewards round's
+  ineligibleReason?: IneligibleReason | null;
+}
+
+// Creators ranked by their points in one creator category
+export interface CategoryLeaderboard {
+  category: string;
+  entries: LeaderboardEntry[];
+  updatedAt: string;
+}
+
+export interface CategoryLeaderboardResponse {
+  category: string;
+  entries: LeaderboardEntry[]; // one page
+  total: number;
+  updatedAt: string | null; // null until the first refresh has run
+}
+
+// Creators a viewer follows on Farcaster, and the viewer, ranked by Creator Score
+export interface FollowingLeaderboardResponse {
+  entries: LeaderboardEntry[];
+  viewerTalentId: string | null; // null when the viewer has no Talent profile
+  followingCount: number; // followed accounts checked
+  truncated: boolean; // only the most recent follows were checked
+}
+
+// Badges, computed by /api/badges from the rules in lib/badge-data.ts
+export type BadgeSource = "score" | "socials" | "credentials" | "posts";
+
+export interface BadgeStatus {
+  id: string;
+  completed: boolean;
+  current: number; // e.g. followers so far; 0 or 1 for yes/no badges
+  target: number;
+  progressPercent: number; // 0-100
+  source: BadgeSource; // data the badge was measured from
+  earnedAt: string | null; // when the badge was first unlocked
+}
+
+// A badge as it was when first unlocked, kept even if the data later drops
+export interface BadgeAward {
+  earnedAt: string;
+  value: number; // the badge's current value at the time
+}
+
+export interface BadgesResponse {
+  talentUuid: string;
+  badges: BadgeStatus[];
+}
+
+// Leaderboard moderation
+export interface HiddenProfile {
+  talent_protocol_id: string;
+  reason: string;
+  hiddenBy: number; // FID of the admin who hid the profile
+  hiddenAt: string;
+}
+
+export type ModerationFlagReason = "no_humanity" | "score_spike";
+
+// Raised by the daily checks for an admin to review; flags never hide a profile
+export interface ModerationFlag {
+  talent_protocol_id: string;
+  name: string;
+  reasons: ModerationFlagReason[];
+  scoreDelta: number | null; // change over the day, for score spikes
+  flaggedAt: string;
+}
+
+export interface ModerationAuditEntry {
+  action: "hide" | "unhide" | "flag" | "dismiss_flag";
+  talent_protocol_id: string;
+  reason: string | null;
+  actor: number | "system"; // FID of the admin, or the daily checks
+  at: string;
+}
+
+export interface ModerationResponse {
+  hidden: HiddenProfile[];
+  flags: ModerationFlag[];
+  audit: ModerationAuditEntry[]; // newest first
+}
+
 // Wallet account types for Talent Protocol API
 export interface WalletAccount {
   identifier: string; // wallet address
@@ -135,6 +399,8 @@ export const SCORER_SLUGS = {
   CREATOR: "creator_score",
 } as const;
 
+export type ScorerSlug = (typeof SCORER_SLUGS)[keyof typeof SCORER_SLUGS];
+
 // Settings page types
 export interface ConnectedAccount {
   identifier: string; // username, handle, or address
@@ -237,3 +503,45 @@ export interface SearchResult {
   avatarUrl?: string;
   score: number;
 }
+
+// Earnings types
+export interface EarningsBreakdownSegment {
+  name: string;
+  value: number;
+  percentage: number;
+}
+
+export interface EarningsBreakdown {
+  totalEarnings: number;
+  segments: EarningsBreakdownSegment[];
+}
+
+// Profile summary types
+export interface ProfileSummaryUser {
+  id: string | null;
+  fid: number | null;
+  wallet: string | null;
+  github: string | null;
+  fname: string | null;
+  display_name: string | null;
+  image_url: string | null;
+  bio?: string | null;
+  [key: string]: unknown;
+}
+
+// Each section is resolved independently so one failing upstream call doesn't fail the rest
+export type ProfileSummarySection<T> =
+  | { data: T; error: null }
+  | { data: null; error: string };
+
+export interface ProfileSummary {
+  talentUuid: string;
+  profile: ProfileSummarySection<ProfileSummaryUser>;
+  creatorScore: ProfileSummarySection<CreatorScore>;
+  socialAccounts: ProfileSummarySection<SocialAccount[]>;
+  credentials: ProfileSummarySection<IssuerCredentialGroup[]>;
+  totalEarnings: ProfileSummarySection<number>;
+  earningsBreakdown: ProfileSummarySection<EarningsBreakdown>;
+  posts: ProfileSummarySection<PostAggregates>;
+  timeZone: string; // the creator's, for posting streaks; UTC until they've reported one
+}
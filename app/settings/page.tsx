@@ -40,6 +40,15 @@ export default function SettingsPage() {
   const user = getUserContext(context);
   const router = useRouter();
   const [talentUuid, setTalentUuid] = useState<string | null>(null);
+  const [openSection, setOpenSection] = useState("connected-socials");
+
+  // Links like /settings#proof-of-humanity open that section
+  useEffect(() => {
+    const section = window.location.hash.slice(1);
+    if (section) {
+      setOpenSection(section);
+    }
+  }, []);
 
   // Resolve FID to Talent UUID
   useEffect(() => {
@@ -114,7 +123,8 @@ export default function SettingsPage() {
         type="single"
         collapsible
         className="w-full space-y-2"
-        defaultValue="connected-socials"
+        value={openSection}
+        onValueChange={setOpenSection}
       >
         {/* Connected Socials */}
         <AccordionItem
@@ -156,6 +166,7 @@ export default function SettingsPage() {
 
         {/* Proof of Humanity */}
         <AccordionItem
+          id="proof-of-humanity"
           value="proof-of-humanity"
           className="bg-muted rounded-xl border-0 shadow-none"
         >
@@ -1,4 +1,5 @@
-import { BadgeItem } from "@/lib/badge-data";
+import { Progress } from "@/components/ui/progress";
+import { BadgeItem, getBadgeRemainingText } from "@/lib/badge-data";
 
 interface BadgeCardProps {
   badge: BadgeItem;
@@ -7,6 +8,8 @@ interface BadgeCardProps {
 
 export function BadgeCard({ badge, onBadgeClick }: BadgeCardProps) {
   const IconComponent = badge.icon;
+  // Only badges with something to count show how far along they are
+  const showProgress = getBadgeRemainingText(badge) !== null;
 
   return (
     <div
@@ -32,6 +35,11 @@ export function BadgeCard({ badge, onBadgeClick }: BadgeCardProps) {
           {badge.name}
         </span>
       </div>
+
+      {/* Badge Progress */}
+      {showProgress && (
+        <Progress value={badge.progressPercent} className="h-1.5 w-16" />
+      )}
     </div>
   );
 }
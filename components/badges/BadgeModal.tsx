@@ -12,7 +12,8 @@ import {
   DrawerTitle,
 } from "@/components/ui/drawer";
 import { Button } from "@/components/ui/button";
-import { BadgeItem } from "@/lib/badge-data";
+import { Progress } from "@/components/ui/progress";
+import { BadgeItem, getBadgeRemainingText } from "@/lib/badge-data";
 
 interface BadgeModalProps {
   badge: BadgeItem | null;
@@ -40,6 +41,8 @@ export function BadgeModal({ badge, onClose }: BadgeModalProps) {
 
   if (!badge) return null;
 
+  const remainingText = getBadgeRemainingText(badge);
+
   const ModalContent = () => (
     <div className="space-y-6 text-center">
       <div className="flex flex-col items-center gap-3">
@@ -57,13 +60,32 @@ export function BadgeModal({ badge, onClose }: BadgeModalProps) {
         <div>
           <h3 className="font-semibold">{badge.name}</h3>
           <p className="text-sm text-muted-foreground">
-            {badge.completed ? "Completed" : "In Progress"}
+            {badge.earnedAt
+              ? `Earned on ${new Date(badge.earnedAt).toLocaleDateString(
+                  "en-US",
+                  { month: "short", day: "numeric", year: "numeric" },
+                )}`
+              : badge.completed
+                ? "Completed"
+                : `${badge.progressPercent}% complete`}
           </p>
         </div>
       </div>
 
       <p className="text-sm text-gray-600">{badge.description}</p>
 
+      {remainingText && (
+        <div className="space-y-2">
+          <Progress value={badge.progressPercent} className="h-2" />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              {badge.current.toLocaleString()} / {badge.target.toLocaleString()}
+            </span>
+            <span>{remainingText}</span>
+          </div>
+        </div>
+      )}
+
       <div className="flex justify-center">
         <Button
           onClick={onClose}
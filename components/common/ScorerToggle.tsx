@@ -0,0 +1,34 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import type { ScorerSlug } from "@/app/services/types";
+import { getScorerOptions } from "@/lib/scorer";
+
+interface ScorerToggleProps {
+  value: ScorerSlug;
+  onChange: (scorerSlug: ScorerSlug) => void;
+  className?: string;
+}
+
+export function ScorerToggle({
+  value,
+  onChange,
+  className = "",
+}: ScorerToggleProps) {
+  return (
+    <div className={`flex gap-2 ${className}`}>
+      {getScorerOptions().map((option) => (
+        <Button
+          key={option.slug}
+          variant={value === option.slug ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(option.slug)}
+          className="flex-1 transition-all duration-200"
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
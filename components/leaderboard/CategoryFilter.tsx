@@ -0,0 +1,42 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  CREATOR_CATEGORIES,
+  type CreatorCategoryType,
+} from "@/lib/credentialUtils";
+
+interface CategoryFilterProps {
+  value: CreatorCategoryType | null; // null shows every creator
+  onChange: (category: CreatorCategoryType | null) => void;
+}
+
+export const CategoryFilter: React.FC<CategoryFilterProps> = ({
+  value,
+  onChange,
+}) => {
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      <Button
+        variant={value === null ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange(null)}
+        className="shrink-0"
+      >
+        All
+      </Button>
+      {(
+        Object.entries(CREATOR_CATEGORIES) as [CreatorCategoryType, string][]
+      ).map(([category, emoji]) => (
+        <Button
+          key={category}
+          variant={value === category ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(category)}
+          className="shrink-0"
+        >
+          {emoji} {category}
+        </Button>
+      ))}
+    </div>
+  );
+};
@@ -1,6 +1,14 @@
 import React from "react";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import Link from "next/link";
 import { cn } from "@/lib/utils";
+import type { IneligibleReason } from "@/app/services/types";
+
+const INELIGIBLE_REASON_LABELS: Record<IneligibleReason, string> = {
+  min_score: "Below the minimum score",
+  min_level: "Below the minimum level",
+  humanity: "No proof of humanity",
+};
 
 interface LeaderboardRowProps {
   rank: number | string;
@@ -8,16 +16,64 @@ interface LeaderboardRowProps {
   avatarUrl?: string;
   score: number;
   rewards: string;
+  total?: number; // shows the rank out of the whole leaderboard
+  scoreLabel: string; // e.g. the selected scorer's label
+  previousRank?: number | null; // null marks a newcomer; undefined shows no movement
+  scoreDelta?: number | null;
+  ineligibleReason?: IneligibleReason | null;
+  verifyHref?: string; // where the creator can verify their humanity
   isPinned?: boolean;
   onClick?: () => void;
 }
 
+function MovementBadge({
+  rank,
+  previousRank,
+}: {
+  rank: number | string;
+  previousRank?: number | null;
+}) {
+  if (previousRank === undefined || typeof rank !== "number") {
+    return null;
+  }
+
+  if (previousRank === null) {
+    return (
+      <span className="text-xs px-1.5 rounded-full bg-blue-100 text-blue-700">
+        New
+      </span>
+    );
+  }
+
+  const change = previousRank - rank;
+  if (change === 0) {
+    return null;
+  }
+
+  return (
+    <span
+      className={cn(
+        "text-xs px-1.5 rounded-full",
+        change > 0 ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700",
+      )}
+    >
+      {change > 0 ? "▲" : "▼"} {Math.abs(change).toLocaleString()}
+    </span>
+  );
+}
+
 export const LeaderboardRow: React.FC<LeaderboardRowProps> = ({
   rank,
   name,
   avatarUrl,
   score,
   rewards,
+  total,
+  scoreLabel,
+  previousRank,
+  scoreDelta,
+  ineligibleReason,
+  verifyHref,
   isPinned = false,
   onClick,
 }) => {
@@ -31,7 +87,17 @@ export const LeaderboardRow: React.FC<LeaderboardRowProps> = ({
       )}
       onClick={onClick}
     >
-      <span className="text-sm font-medium w-6">#{rank}</span>
+      {total !== undefined && typeof rank === "number" ? (
+        <span className="text-sm font-medium whitespace-nowrap">
+          #{rank.toLocaleString()}
+          <span className="text-xs text-gray-600 font-normal">
+            {" "}
+            of {total.toLocaleString()}
+          </span>
+        </span>
+      ) : (
+        <span className="text-sm font-medium w-6">#{rank}</span>
+      )}
       <Avatar className="h-8 w-8">
         {avatarUrl ? (
           <AvatarImage src={avatarUrl} />
@@ -41,10 +107,39 @@ export const LeaderboardRow: React.FC<LeaderboardRowProps> = ({
       </Avatar>
       <div className="flex-1">
         <p className="font-medium text-sm">{name}</p>
-        <p className="text-xs text-gray-600">Creator Score: {score}</p>
+        <p className="text-xs text-gray-600">
+          {scoreLabel}: {score.toLocaleString()}
+          {!!scoreDelta && (
+            <span
+              className={scoreDelta > 0 ? "text-green-700" : "text-red-700"}
+            >
+              {" "}
+              ({scoreDelta > 0 ? "+" : ""}
+              {scoreDelta.toLocaleString()})
+            </span>
+          )}
+        </p>
+        {ineligibleReason && (
+          <p className="text-xs text-red-700">
+            {INELIGIBLE_REASON_LABELS[ineligibleReason]}
+            {ineligibleReason === "humanity" && verifyHref && (
+              <>
+                {" · "}
+                <Link
+                  href={verifyHref}
+                  className="underline hover:text-red-900"
+                  onClick={(event) => event.stopPropagation()}
+                >
+                  Verify
+                </Link>
+              </>
+            )}
+          </p>
+        )}
       </div>
       <div className="flex flex-col items-end">
         <span className="text-sm font-medium">{rewards}</span>
+        <MovementBadge rank={rank} previousRank={previousRank} />
       </div>
     </div>
   );
@@ -0,0 +1,97 @@
+import React from "react";
+import type { ArchivedRound } from "@/app/services/types";
+import { getPayoutDownloadUrl } from "@/app/services/roundsService";
+import { getScorerLabel } from "@/lib/scorer";
+import { LeaderboardRow } from "./LeaderboardRow";
+
+// Past rounds only show the top of their final standings
+const STANDINGS_PREVIEW_SIZE = 10;
+
+interface PastRoundsProps {
+  rounds: ArchivedRound[];
+  onEntryClick?: (talentId: string) => void;
+}
+
+function formatRoundDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export const PastRounds: React.FC<PastRoundsProps> = ({
+  rounds,
+  onEntryClick,
+}) => {
+  if (rounds.length === 0) {
+    return <p className="text-sm text-gray-600 px-2">No past rounds yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {rounds.map((round) => (
+        <div key={round.id} className="space-y-2">
+          <div className="flex items-end justify-between px-1">
+            <div>
+              <p className="font-medium text-sm">{round.name}</p>
+              <p className="text-xs text-gray-600">
+                {formatRoundDate(round.startsAt)} -{" "}
+                {formatRoundDate(round.endsAt)}
+              </p>
+            </div>
+            <div className="flex flex-col items-end">
+              <span className="text-sm font-medium">
+                ${round.poolAmount.toLocaleString()}
+              </span>
+              <span className="text-xs text-gray-600">
+                Payouts:{" "}
+                <a
+                  href={getPayoutDownloadUrl(round.id, "csv")}
+                  className="underline hover:text-gray-900"
+                >
+                  CSV
+                </a>{" "}
+                ·{" "}
+                <a
+                  href={getPayoutDownloadUrl(round.id, "json")}
+                  className="underline hover:text-gray-900"
+                >
+                  JSON
+                </a>
+              </span>
+            </div>
+          </div>
+          {round.standings ? (
+            <div className="overflow-hidden rounded-lg bg-gray-50">
+              {round.standings
+                .slice(0, STANDINGS_PREVIEW_SIZE)
+                .map((standing, index, array) => (
+                  <div key={standing.talent_protocol_id}>
+                    <LeaderboardRow
+                      rank={standing.rank}
+                      name={standing.name}
+                      avatarUrl={standing.pfp}
+                      score={standing.score}
+                      scoreLabel={getScorerLabel(round.scorerSlug)}
+                      rewards="-"
+                      onClick={() =>
+                        onEntryClick?.(standing.talent_protocol_id)
+                      }
+                    />
+                    {index < array.length - 1 && (
+                      <div className="h-px bg-gray-200" />
+                    )}
+                  </div>
+                ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-600 px-1">
+              Final standings aren&apos;t available yet.
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
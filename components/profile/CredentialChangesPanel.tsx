@@ -0,0 +1,109 @@
+import * as React from "react";
+import {
+  shouldShowUom,
+  formatReadableValue,
+  cleanCredentialLabel,
+} from "@/lib/utils";
+import { useCredentialChanges } from "@/hooks/useCredentialChanges";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
+
+function formatValue(value: string | null, uom: string | null): string {
+  if (!value) return "—";
+  if (uom === "USDC") return `$${formatReadableValue(value)}`;
+  const formatted = formatReadableValue(value, uom);
+  return shouldShowUom(uom) ? `${formatted} ${uom}` : formatted;
+}
+
+function formatDelta(delta: number): string {
+  const sign = delta > 0 ? "+" : "";
+  return `${sign}${delta} ${Math.abs(delta) === 1 ? "pt" : "pts"}`;
+}
+
+export function CredentialChangesPanel({
+  talentUUID,
+  scorerSlug = SCORER_SLUGS.CREATOR,
+}: {
+  talentUUID: string;
+  scorerSlug?: ScorerSlug;
+}) {
+  const { changes, snapshotTakenAt, loading } = useCredentialChanges(
+    talentUUID,
+    scorerSlug,
+  );
+
+  if (loading || !snapshotTakenAt || changes.length === 0) {
+    return null;
+  }
+
+  const netDelta = changes.reduce((sum, change) => sum + change.pointsDelta, 0);
+  const snapshotDate = new Date(snapshotTakenAt).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+
+  return (
+    <div className="bg-card rounded-2xl shadow border px-6 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex flex-col gap-1">
+          <span className="text-base font-medium text-foreground">
+            Since your last refresh
+          </span>
+          <span className="text-xs text-muted-foreground">
+            Compared to {snapshotDate}
+          </span>
+        </div>
+        <span
+          className={`ml-4 text-xl font-semibold ${
+            netDelta > 0
+              ? "text-green-600"
+              : netDelta < 0
+                ? "text-red-500"
+                : "text-foreground"
+          }`}
+        >
+          {netDelta > 0 ? "+" : ""}
+          {netDelta}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {changes.map((change) => (
+          <li
+            key={change.slug || `${change.issuer}:${change.label}`}
+            className="flex items-center justify-between text-xs"
+          >
+            <span
+              className="truncate text-muted-foreground max-w-[50%]"
+              title={change.label}
+            >
+              {change.issuer} ·{" "}
+              {cleanCredentialLabel(change.label, change.issuer)}
+              {change.type === "added" && (
+                <span className="ml-1 text-green-600 font-medium">New</span>
+              )}
+              {change.type === "removed" && (
+                <span className="ml-1 text-red-500 font-medium">Removed</span>
+              )}
+            </span>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {change.previousReadableValue !== change.currentReadableValue && (
+                <span className="text-muted-foreground">
+                  {formatValue(change.previousReadableValue, change.uom)} →{" "}
+                  {formatValue(change.currentReadableValue, change.uom)}
+                </span>
+              )}
+              {change.pointsDelta !== 0 && (
+                <span
+                  className={`font-medium whitespace-nowrap ${
+                    change.pointsDelta > 0 ? "text-green-600" : "text-red-500"
+                  }`}
+                >
+                  {formatDelta(change.pointsDelta)}
+                </span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+import * as React from "react";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { PostingStreaks, Streak } from "@/lib/streaks";
+
+interface PostingStreakCardProps {
+  streaks: PostingStreaks;
+  loading?: boolean;
+  error?: string | null;
+}
+
+function formatStreak(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+function StreakColumn({
+  label,
+  unit,
+  streak,
+}: {
+  label: string;
+  unit: string;
+  streak: Streak;
+}) {
+  return (
+    <div className="flex flex-col flex-1 min-w-0">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <span className="text-lg font-semibold">
+        {formatStreak(streak.current, unit)}
+      </span>
+      <span className="text-xs text-muted-foreground">
+        Longest: {formatStreak(streak.longest, unit)}
+      </span>
+    </div>
+  );
+}
+
+export function PostingStreakCard({
+  streaks,
+  loading = false,
+  error = null,
+}: PostingStreakCardProps) {
+  return (
+    <Card className="flex flex-col bg-muted rounded-xl p-6 border-0 shadow-none">
+      <div className="flex flex-col space-y-4">
+        <span className="text-xs text-muted-foreground font-medium">
+          Posting Streak
+        </span>
+        {loading ? (
+          <div className="flex gap-4">
+            <Skeleton className="h-12 flex-1" />
+            <Skeleton className="h-12 flex-1" />
+          </div>
+        ) : error ? (
+          <span className="text-sm text-muted-foreground">
+            Failed to load data
+          </span>
+        ) : (
+          <div className="flex gap-4">
+            <StreakColumn label="Weekly" unit="week" streak={streaks.weekly} />
+            <StreakColumn
+              label="Monthly"
+              unit="month"
+              streak={streaks.monthly}
+            />
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
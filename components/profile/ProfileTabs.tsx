@@ -1,16 +1,20 @@
 import * as React from "react";
 import { usePathname } from "next/navigation";
 import { TabNavigation } from "@/components/common/tabs-navigation";
+import { withScorerParam } from "@/lib/scorer";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
 
 interface ProfileTabsProps {
   talentUUID: string;
   identifier: string; // The URL identifier for building links
+  scorerSlug?: ScorerSlug;
 }
 
 export function ProfileTabs({
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   talentUUID,
   identifier,
+  scorerSlug = SCORER_SLUGS.CREATOR,
 }: ProfileTabsProps) {
   const pathname = usePathname();
 
@@ -19,23 +23,30 @@ export function ProfileTabs({
     ? "content"
     : pathname.endsWith("/score")
       ? "credentials"
-      : "score"; // default to stats tab
+      : pathname.endsWith("/badges")
+        ? "badges"
+        : "score"; // default to stats tab
 
   const tabs = [
     {
       id: "score",
       label: "Stats",
-      href: `/${identifier}/stats`,
+      href: withScorerParam(`/${identifier}/stats`, scorerSlug),
     },
     {
       id: "content",
       label: "Posts",
-      href: `/${identifier}/posts`,
+      href: withScorerParam(`/${identifier}/posts`, scorerSlug),
     },
     {
       id: "credentials",
       label: "Score",
-      href: `/${identifier}/score`,
+      href: withScorerParam(`/${identifier}/score`, scorerSlug),
+    },
+    {
+      id: "badges",
+      label: "Badges",
+      href: withScorerParam(`/${identifier}/badges`, scorerSlug),
     },
   ];
 
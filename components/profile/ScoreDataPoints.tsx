@@ -17,18 +17,27 @@ import {
   mergeCredentialsWithComingSoon,
   sortCredentialsByTotal,
 } from "@/lib/credentialUtils";
+import { getScorerLabel } from "@/lib/scorer";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
 
-export function ScoreDataPoints({ talentUUID }: { talentUUID: string }) {
+export function ScoreDataPoints({
+  talentUUID,
+  scorerSlug = SCORER_SLUGS.CREATOR,
+}: {
+  talentUUID: string;
+  scorerSlug?: ScorerSlug;
+}) {
   const {
     credentials,
     loading: isLoading,
     error,
-  } = useProfileCredentials(talentUUID);
+  } = useProfileCredentials(talentUUID, scorerSlug);
 
   // Merge credentials with coming soon credentials using utility
+  // Upcoming credentials are all Creator Score credentials
   const allCredentials = mergeCredentialsWithComingSoon(
     credentials,
-    COMING_SOON_CREDENTIALS,
+    scorerSlug === SCORER_SLUGS.CREATOR ? COMING_SOON_CREDENTIALS : [],
   );
 
   if (isLoading) {
@@ -57,8 +66,8 @@ export function ScoreDataPoints({ talentUUID }: { talentUUID: string }) {
           No score data available.
         </span>
         <span className="text-muted-foreground text-xs mt-2">
-          Try calculating or refreshing your Creator Score to see detailed
-          breakdown.
+          Try calculating or refreshing your {getScorerLabel(scorerSlug)} to see
+          detailed breakdown.
         </span>
       </div>
     );
@@ -0,0 +1,232 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { LEVEL_RANGES } from "@/lib/constants";
+import type { ScoreHistoryPoint } from "@/app/services/types";
+
+interface ScoreHistoryChartProps {
+  history: ScoreHistoryPoint[];
+  loading: boolean;
+  error: string | null;
+  scorerLabel?: string;
+}
+
+const RANGES = [
+  { label: "30D", days: 30 },
+  { label: "90D", days: 90 },
+  { label: "1Y", days: 365 },
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The day a point was recorded for. lastCalculatedAt isn't used, since a day's
+// point can repeat a calculation made days earlier.
+function getPointTime(point: ScoreHistoryPoint): number {
+  return new Date(`${point.date}T00:00:00Z`).getTime();
+}
+
+function formatShortDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function ScoreHistoryChart({
+  history,
+  loading,
+  error,
+  scorerLabel = "Creator Score",
+}: ScoreHistoryChartProps) {
+  const [rangeDays, setRangeDays] = useState<number>(90);
+
+  const points = useMemo(() => {
+    const since = new Date(Date.now() - rangeDays * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    return history.filter((point) => point.date >= since);
+  }, [history, rangeDays]);
+
+  // Y axis spans whole levels so the level guides frame the line
+  const { yMin, yMax, guides } = useMemo(() => {
+    if (points.length === 0) return { yMin: 0, yMax: 1, guides: [] };
+
+    const scores = points.map((p) => p.score);
+    const low = Math.min(...scores);
+    const high = Math.max(...scores);
+    const lowLevel =
+      LEVEL_RANGES.find((r) => low >= r.min && low <= r.max) || LEVEL_RANGES[0];
+    const highLevel =
+      LEVEL_RANGES.find((r) => high >= r.min && high <= r.max) ||
+      LEVEL_RANGES[LEVEL_RANGES.length - 1];
+    const min = lowLevel.min;
+    const max = Number.isFinite(highLevel.max)
+      ? highLevel.max + 1
+      : Math.ceil(high * 1.1);
+
+    return {
+      yMin: min,
+      yMax: Math.max(max, min + 1),
+      guides: LEVEL_RANGES.filter((r) => r.min >= min && r.min < max),
+    };
+  }, [points]);
+
+  // X axis is scaled by time, so uneven gaps between points keep their length
+  const { tMin, tMax } = useMemo(() => {
+    const times = points.map(getPointTime);
+    return {
+      tMin: Math.min(...times),
+      tMax: Math.max(...times),
+    };
+  }, [points]);
+
+  const toY = (score: number) => 100 - ((score - yMin) / (yMax - yMin)) * 100;
+  const toX = (point: ScoreHistoryPoint) =>
+    tMax > tMin ? ((getPointTime(point) - tMin) / (tMax - tMin)) * 100 : 50;
+
+  if (loading) {
+    return (
+      <Card className="w-full min-w-0 p-3 sm:p-6 bg-white rounded-xl border border-gray-200">
+        <div className="space-y-4 sm:space-y-6">
+          <div className="flex gap-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-8 w-12 rounded-md" />
+            ))}
+          </div>
+          <Skeleton className="h-32 sm:h-40 w-full rounded-lg" />
+        </div>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="w-full min-w-0 p-3 sm:p-6 bg-white rounded-xl border border-gray-200">
+        <div className="text-center py-8">
+          <div className="text-sm text-destructive">{error}</div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <Card className="w-full min-w-0 p-3 sm:p-6 bg-white rounded-xl border border-gray-200">
+        <div className="text-center py-8 text-muted-foreground">
+          <p className="text-sm">No score history yet.</p>
+          <p className="text-xs mt-2">
+            Your {scorerLabel} is recorded each time this profile is viewed or
+            refreshed.
+          </p>
+        </div>
+      </Card>
+    );
+  }
+
+  const latest = points[points.length - 1];
+  const change =
+    latest && points.length > 1 ? latest.score - points[0].score : 0;
+  const linePoints = points
+    .map((point) => `${toX(point)},${toY(point.score)}`)
+    .join(" ");
+
+  return (
+    <Card className="w-full min-w-0 p-3 sm:p-6 bg-white rounded-xl border border-gray-200">
+      {/* Range Pills & Current Score - Same Line */}
+      <div className="mb-4 sm:mb-6 flex items-center justify-between gap-4">
+        <div className="flex gap-2 flex-wrap">
+          {RANGES.map((range) => (
+            <Button
+              key={range.label}
+              variant={rangeDays === range.days ? "default" : "outline"}
+              size="sm"
+              onClick={() => setRangeDays(range.days)}
+              className="transition-all duration-200"
+            >
+              {range.label}
+            </Button>
+          ))}
+        </div>
+        <div className="text-right flex-shrink-0">
+          <div className="text-xs text-muted-foreground font-medium">
+            {scorerLabel}
+          </div>
+          <div className="text-xl sm:text-2xl font-bold text-gray-900">
+            {latest?.score.toLocaleString() ?? "—"}
+            {change !== 0 && (
+              <span
+                className={`ml-2 text-xs font-medium ${
+                  change > 0 ? "text-green-600" : "text-red-500"
+                }`}
+              >
+                {change > 0 ? "+" : ""}
+                {change}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <div className="text-center py-8 text-sm text-muted-foreground">
+          No score changes recorded in this period.
+        </div>
+      ) : (
+        <>
+          <div className="relative h-32 sm:h-40 bg-gray-50 rounded-lg overflow-hidden">
+            {/* Level guides */}
+            {guides.map((level) => (
+              <div
+                key={level.name}
+                className="absolute left-0 right-0 border-t border-dashed border-gray-300"
+                style={{ top: `${toY(level.min)}%` }}
+              >
+                <span className="absolute right-1 -top-4 text-[10px] text-gray-400">
+                  {level.name}
+                </span>
+              </div>
+            ))}
+
+            <svg
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+              className="absolute inset-0 h-full w-full"
+            >
+              {points.length > 1 ? (
+                <polyline
+                  points={linePoints}
+                  fill="none"
+                  stroke="#a855f7"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ) : (
+                <line
+                  x1={0}
+                  x2={100}
+                  y1={toY(points[0].score)}
+                  y2={toY(points[0].score)}
+                  stroke="#a855f7"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+          </div>
+
+          {/* Date Labels */}
+          <div className="mt-2 flex justify-between text-xs text-gray-400">
+            <span>{formatShortDate(points[0].date)}</span>
+            {points.length > 1 && (
+              <span>{formatShortDate(points[points.length - 1].date)}</span>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -11,11 +11,26 @@ import {
   calculatePointsToNextLevel,
 } from "@/lib/utils";
 import { useProfileCreatorScore } from "@/hooks/useProfileCreatorScore";
+import { useProfileCredentials } from "@/hooks/useProfileCredentials";
+import { useCreatorCategory } from "@/hooks/useCreatorCategory";
 import { LEVEL_RANGES } from "@/lib/constants";
+import { getLevelUpRecommendations } from "@/lib/recommendations";
+import { getScorerLabel } from "@/lib/scorer";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
+import { COMING_SOON_CREDENTIALS } from "./comingSoonCredentials";
 
-export function ScoreProgressAccordion({ talentUUID }: { talentUUID: string }) {
-  const { creatorScore, lastCalculatedAt, loading } =
-    useProfileCreatorScore(talentUUID);
+export function ScoreProgressAccordion({
+  talentUUID,
+  scorerSlug = SCORER_SLUGS.CREATOR,
+}: {
+  talentUUID: string;
+  scorerSlug?: ScorerSlug;
+}) {
+  const { creatorScore, lastCalculatedAt, loading } = useProfileCreatorScore(
+    talentUUID,
+    scorerSlug,
+  );
+  const isCreatorScorer = scorerSlug === SCORER_SLUGS.CREATOR;
 
   const score = typeof creatorScore === "number" ? creatorScore : null;
 
@@ -32,6 +47,21 @@ export function ScoreProgressAccordion({ talentUUID }: { talentUUID: string }) {
   const progress = calculateScoreProgress(score ?? 0, level ?? 1);
   const pointsToNext = calculatePointsToNextLevel(score ?? 0, level ?? 1);
 
+  const { credentials } = useProfileCredentials(talentUUID, scorerSlug);
+  const { data: categoryData } = useCreatorCategory(talentUUID);
+  // Creator categories and upcoming credentials only apply to the Creator Score
+  const recommendations = React.useMemo(
+    () =>
+      getLevelUpRecommendations(credentials, {
+        pointsToNextLevel: pointsToNext,
+        primaryCategory: isCreatorScorer
+          ? (categoryData?.primaryCategory.name ?? null)
+          : null,
+        comingSoonCredentials: isCreatorScorer ? COMING_SOON_CREDENTIALS : [],
+      }),
+    [credentials, pointsToNext, categoryData, isCreatorScorer],
+  );
+
   return (
     <Accordion type="single" collapsible className="space-y-2">
       <AccordionItem
@@ -41,7 +71,7 @@ export function ScoreProgressAccordion({ talentUUID }: { talentUUID: string }) {
         <AccordionTrigger className="p-6 flex items-center justify-between bg-muted rounded-xl">
           <div className="flex flex-col flex-1 gap-1 text-left">
             <span className="text-xs text-muted-foreground font-medium">
-              Creator Score
+              {getScorerLabel(scorerSlug)}
             </span>
             <span className="text-xl font-semibold text-foreground mt-0.5">
               Level {level ?? "—"}
@@ -75,6 +105,35 @@ export function ScoreProgressAccordion({ talentUUID }: { talentUUID: string }) {
               </span>
             </div>
           </div>
+          {level !== null && recommendations.length > 0 && (
+            <div className="mt-5 space-y-2">
+              <span className="text-xs font-medium text-foreground">
+                How to level up
+              </span>
+              <ul className="space-y-2">
+                {recommendations.map((rec) => (
+                  <li
+                    key={rec.id}
+                    className="flex items-center justify-between text-xs"
+                  >
+                    <div className="flex flex-col min-w-0 max-w-[75%]">
+                      <span className="truncate text-foreground">
+                        {rec.title}
+                      </span>
+                      {rec.detail && (
+                        <span className="truncate text-muted-foreground">
+                          {rec.detail}
+                        </span>
+                      )}
+                    </div>
+                    <span className="font-medium text-muted-foreground whitespace-nowrap">
+                      {rec.points !== null ? `+${rec.points} pts` : "Soon"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </AccordionContent>
       </AccordionItem>
     </Accordion>
@@ -1,23 +1,46 @@
+"use client";
+
 import { useState, useEffect } from "react";
-import { BadgeSection, mockBadgeData } from "@/lib/badge-data";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { BadgeSection, toBadgeSections } from "@/lib/badge-data";
+import { getBadges } from "@/app/services/badgesService";
+import type { BadgeStatus } from "@/app/services/types";
 
-export function useBadges() {
+export function useBadges(
+  talentUuid: string | null | undefined,
+  isOwnProfile: boolean = false,
+) {
   const [data, setData] = useState<BadgeSection[] | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    async function fetchBadges() {
-      try {
-        setLoading(true);
-        setError(null);
+    if (!talentUuid) {
+      setData(null);
+      return;
+    }
 
-        // Simulate API call delay
-        await new Promise((resolve) => setTimeout(resolve, 100));
+    async function fetchBadges(talentUuid: string) {
+      // The owner's request reports their time zone, so their badges are cached apart
+      const cacheKey = `badges_${isOwnProfile ? "own" : "public"}_${talentUuid}`;
 
-        // For now, return mock data
-        // Later this can be replaced with: const response = await fetch('/api/badges');
-        setData(mockBadgeData);
+      // Check cache first
+      const cachedBadges = getCachedData<BadgeStatus[]>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedBadges) {
+        setData(toBadgeSections(cachedBadges));
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await getBadges(talentUuid, isOwnProfile);
+        setData(toBadgeSections(response.badges));
+        setCachedData(cacheKey, response.badges);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to fetch badges");
       } finally {
@@ -25,8 +48,8 @@ export function useBadges() {
       }
     }
 
-    fetchBadges();
-  }, []);
+    fetchBadges(talentUuid);
+  }, [talentUuid, isOwnProfile]);
 
   return {
     data,
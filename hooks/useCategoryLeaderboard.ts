@@ -0,0 +1,106 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type {
+  CategoryLeaderboardResponse,
+  LeaderboardEntry,
+} from "@/app/services/types";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getCategoryLeaderboard } from "@/app/services/leaderboardService";
+
+export function useCategoryLeaderboard(
+  category: string | null,
+  perPage: number = 10,
+) {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEntries([]);
+    setTotal(0);
+    setUpdatedAt(null);
+    setPage(1);
+
+    if (!category) {
+      return;
+    }
+
+    async function fetchFirstPage(category: string) {
+      const cacheKey = `category_leaderboard_${category}_page_1_${perPage}`;
+
+      // Check cache first
+      const cachedData = getCachedData<CategoryLeaderboardResponse>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedData) {
+        setEntries(cachedData.entries);
+        setTotal(cachedData.total);
+        setUpdatedAt(cachedData.updatedAt);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getCategoryLeaderboard(category, 1, perPage);
+        setEntries(data.entries);
+        setTotal(data.total);
+        setUpdatedAt(data.updatedAt);
+
+        // Don't cache until the leaderboard has been computed
+        if (data.updatedAt) {
+          setCachedData(cacheKey, data);
+        }
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Failed to load category leaderboard",
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchFirstPage(category);
+  }, [category, perPage]);
+
+  const hasMore = entries.length < total;
+
+  const loadMore = useCallback(async () => {
+    if (!category || loading || !hasMore) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const nextPage = page + 1;
+      const data = await getCategoryLeaderboard(category, nextPage, perPage);
+      setEntries((current) => [...current, ...data.entries]);
+      setTotal(data.total);
+      setPage(nextPage);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load more entries",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [category, page, perPage, loading, hasMore]);
+
+  return {
+    entries,
+    total,
+    updatedAt,
+    loading,
+    error,
+    hasMore,
+    loadMore,
+  };
+}
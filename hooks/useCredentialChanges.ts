@@ -0,0 +1,44 @@
+"use client";
+
+import { useMemo } from "react";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
+import { useProfileCredentials } from "@/hooks/useProfileCredentials";
+import { getCredentialsSnapshot } from "@/app/services/credentialsService";
+import { diffCredentials } from "@/lib/credentialUtils";
+
+/**
+ * Per-credential changes between the last pre-refresh snapshot and the
+ * profile's current credentials
+ */
+export function useCredentialChanges(
+  talentUUID: string,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+) {
+  const { credentials, loading, error } = useProfileCredentials(
+    talentUUID,
+    scorerSlug,
+  );
+
+  const snapshot = useMemo(
+    () =>
+      talentUUID && !loading
+        ? getCredentialsSnapshot(talentUUID, scorerSlug)
+        : null,
+    [talentUUID, scorerSlug, loading],
+  );
+
+  const changes = useMemo(
+    () =>
+      snapshot && !error && credentials.length > 0
+        ? diffCredentials(snapshot.credentials, credentials)
+        : [],
+    [snapshot, credentials, error],
+  );
+
+  return {
+    changes,
+    snapshotTakenAt: snapshot?.takenAt ?? null,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getFollowingLeaderboard } from "@/app/services/leaderboardService";
+import type { FollowingLeaderboardResponse } from "@/app/services/types";
+
+export function useFollowingLeaderboard(fid: number | undefined) {
+  const [leaderboard, setLeaderboard] =
+    useState<FollowingLeaderboardResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!fid) {
+      setLeaderboard(null);
+      return;
+    }
+
+    async function fetchLeaderboard(fid: number) {
+      const cacheKey = `following_leaderboard_${fid}`;
+
+      // Check cache first
+      const cachedData = getCachedData<FollowingLeaderboardResponse>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedData) {
+        setLeaderboard(cachedData);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getFollowingLeaderboard();
+        setLeaderboard(data);
+        setCachedData(cacheKey, data);
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Failed to load following leaderboard",
+        );
+        setLeaderboard(null);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchLeaderboard(fid);
+  }, [fid]);
+
+  return {
+    entries: leaderboard?.entries ?? [],
+    viewerTalentId: leaderboard?.viewerTalentId ?? null,
+    followingCount: leaderboard?.followingCount ?? 0,
+    truncated: leaderboard?.truncated ?? false,
+    loading,
+    error,
+  };
+}
@@ -1,11 +1,18 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import type { LeaderboardEntry } from "@/app/services/types";
+import {
+  SCORER_SLUGS,
+  type LeaderboardEntry,
+  type ScorerSlug,
+} from "@/app/services/types";
 import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
 import { getLeaderboardCreators } from "@/app/services/leaderboardService";
 
-export function useLeaderboard(perPage: number = 10) {
+export function useLeaderboard(
+  perPage: number = 10,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+) {
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
   const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(false);
@@ -13,7 +20,10 @@ export function useLeaderboard(perPage: number = 10) {
   const [hasMore, setHasMore] = useState(true);
 
   const loadInitialData = useCallback(async () => {
-    const cacheKey = `leaderboard_page_1_${perPage}`;
+    const cacheKey =
+      scorerSlug === SCORER_SLUGS.CREATOR
+        ? `leaderboard_page_1_${perPage}`
+        : `leaderboard_${scorerSlug}_page_1_${perPage}`;
 
     // Check cache first
     const cachedData = getCachedData<LeaderboardEntry[]>(
@@ -33,7 +43,11 @@ export function useLeaderboard(perPage: number = 10) {
     setError(null);
 
     try {
-      const data = await getLeaderboardCreators({ page: 1, perPage });
+      const data = await getLeaderboardCreators({
+        page: 1,
+        perPage,
+        scorerSlug,
+      });
       setEntries(data);
       setPage(1);
       setHasMore(data.length >= perPage);
@@ -48,7 +62,7 @@ export function useLeaderboard(perPage: number = 10) {
     } finally {
       setLoading(false);
     }
-  }, [perPage]);
+  }, [perPage, scorerSlug]);
 
   const loadMore = useCallback(async () => {
     if (loading || !hasMore) return;
@@ -58,22 +72,26 @@ export function useLeaderboard(perPage: number = 10) {
 
     try {
       const nextPage = page + 1;
-      const data = await getLeaderboardCreators({ page: nextPage, perPage });
+      const data = await getLeaderboardCreators({
+        page: nextPage,
+        perPage,
+        scorerSlug,
+      });
 
       if (data.length === 0) {
         setHasMore(false);
         return;
       }
 
-      // Combine previous and new entries
-      const combined = [...entries, ...data];
-      // Recalculate rank for all entries to handle ties properly
-      const reRanked = combined.map((entry, idx) => ({
-        ...entry,
-        rank: idx + 1,
-      }));
+      // Ranks come from the server against the whole leaderboard, so keep them.
+      // Skip anyone already loaded in case scores moved between pages.
+      const loadedIds = new Set(entries.map((entry) => entry.id));
+      const combined = [
+        ...entries,
+        ...data.filter((entry) => !loadedIds.has(entry.id)),
+      ];
 
-      setEntries(reRanked);
+      setEntries(combined);
       setPage(nextPage);
       setHasMore(data.length >= perPage);
     } catch (err) {
@@ -83,7 +101,7 @@ export function useLeaderboard(perPage: number = 10) {
     } finally {
       setLoading(false);
     }
-  }, [entries, page, perPage, loading, hasMore]);
+  }, [entries, page, perPage, scorerSlug, loading, hasMore]);
 
   // Load initial data on mount
   useEffect(() => {
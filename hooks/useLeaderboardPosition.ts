@@ -0,0 +1,63 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getLeaderboardPosition } from "@/app/services/leaderboardService";
+import {
+  SCORER_SLUGS,
+  type LeaderboardPosition,
+  type ScorerSlug,
+} from "@/app/services/types";
+
+export function useLeaderboardPosition(
+  talentId: string | null,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+) {
+  const [position, setPosition] = useState<LeaderboardPosition | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!talentId) {
+      setPosition(null);
+      return;
+    }
+
+    async function fetchPosition(talentId: string) {
+      const cacheKey = `leaderboard_position_${scorerSlug}_${talentId}`;
+
+      // Check cache first
+      const cachedPosition = getCachedData<LeaderboardPosition>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedPosition) {
+        setPosition(cachedPosition);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getLeaderboardPosition(talentId, scorerSlug);
+        setPosition(data);
+        setCachedData(cacheKey, data);
+      } catch (err) {
+        console.error("Error fetching leaderboard position:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Failed to fetch leaderboard position",
+        );
+        setPosition(null);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPosition(talentId);
+  }, [talentId, scorerSlug]);
+
+  return { position, loading, error };
+}
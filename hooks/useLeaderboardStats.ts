@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
 import { getLeaderboardStats } from "@/app/services/leaderboardService";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
 
 interface LeaderboardStats {
   minScore: number | null;
@@ -10,7 +11,9 @@ interface LeaderboardStats {
   eligibleCreators: number;
 }
 
-export function useLeaderboardStats() {
+export function useLeaderboardStats(
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+) {
   const [stats, setStats] = useState<LeaderboardStats>({
     minScore: null,
     totalCreators: 0,
@@ -21,7 +24,10 @@ export function useLeaderboardStats() {
 
   useEffect(() => {
     async function fetchStats() {
-      const cacheKey = "leaderboard_stats";
+      const cacheKey =
+        scorerSlug === SCORER_SLUGS.CREATOR
+          ? "leaderboard_stats"
+          : `leaderboard_stats_${scorerSlug}`;
 
       // Check cache first
       const cachedStats = getCachedData<LeaderboardStats>(
@@ -39,7 +45,7 @@ export function useLeaderboardStats() {
       setError(null);
 
       try {
-        const newStats = await getLeaderboardStats();
+        const newStats = await getLeaderboardStats(scorerSlug);
 
         setStats({
           minScore: newStats.minScore,
@@ -63,7 +69,7 @@ export function useLeaderboardStats() {
     }
 
     fetchStats();
-  }, []);
+  }, [scorerSlug]);
 
   return { stats, loading, error };
 }
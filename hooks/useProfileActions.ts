@@ -3,11 +3,15 @@ import { useMiniKit } from "@coinbase/onchainkit/minikit";
 import { getUserContext } from "@/lib/user-context";
 import { resolveFidToTalentUuid } from "@/lib/user-resolver";
 import { useScoreRefresh } from "@/hooks/useScoreRefresh";
+import { getRefreshCooldown } from "@/app/services/scoreRefreshService";
 import { useCreatorCategory } from "@/hooks/useCreatorCategory";
 import { formatNumberWithSuffix, formatK } from "@/lib/utils";
+import { getScorerLabel } from "@/lib/scorer";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
 
 interface UseProfileActionsProps {
   talentUUID: string;
+  scorerSlug?: ScorerSlug;
   refetchScore?: () => void;
   profile?: {
     bio?: string;
@@ -21,6 +25,7 @@ interface UseProfileActionsProps {
 
 export function useProfileActions({
   talentUUID,
+  scorerSlug = SCORER_SLUGS.CREATOR,
   refetchScore,
   profile,
   creatorScore,
@@ -34,6 +39,7 @@ export function useProfileActions({
   const [currentUserTalentUuid, setCurrentUserTalentUuid] = useState<
     string | null
   >(null);
+  const [cooldownEndsAt, setCooldownEndsAt] = useState<number | null>(null);
   const [cooldownMinutes, setCooldownMinutes] = useState<number | null>(null);
 
   // Resolve current user's Talent UUID
@@ -52,37 +58,6 @@ export function useProfileActions({
     resolveCurrentUserTalentUuid();
   }, [user?.fid]);
 
-  // Cooldown detection and countdown logic
-  useEffect(() => {
-    const calculateCooldownTime = () => {
-      if (!lastCalculatedAt) {
-        setCooldownMinutes(null);
-        return;
-      }
-
-      const lastRefreshTime = new Date(lastCalculatedAt).getTime();
-      const currentTime = new Date().getTime();
-      const oneHourInMs = 60 * 60 * 1000; // 1 hour in milliseconds
-      const cooldownEndTime = lastRefreshTime + oneHourInMs;
-
-      if (currentTime < cooldownEndTime) {
-        const remainingMs = cooldownEndTime - currentTime;
-        const remainingMinutes = Math.ceil(remainingMs / (60 * 1000));
-        setCooldownMinutes(remainingMinutes);
-      } else {
-        setCooldownMinutes(null);
-      }
-    };
-
-    // Calculate immediately
-    calculateCooldownTime();
-
-    // Update every minute
-    const interval = setInterval(calculateCooldownTime, 60000);
-
-    return () => clearInterval(interval);
-  }, [lastCalculatedAt]);
-
   // Get creator category data
   const { data: categoryData } = useCreatorCategory(talentUUID);
 
@@ -91,9 +66,54 @@ export function useProfileActions({
     isRefreshing,
     successMessage,
     error: refreshError,
+    retryAfter,
     refreshScore,
     clearError,
-  } = useScoreRefresh(talentUUID, refetchScore);
+  } = useScoreRefresh(talentUUID, refetchScore, scorerSlug);
+
+  // The server owns the cooldown; sync it on load and whenever a refresh settles
+  useEffect(() => {
+    if (!talentUUID || isRefreshing) return;
+
+    let cancelled = false;
+    getRefreshCooldown(talentUUID, scorerSlug)
+      .then((seconds) => {
+        if (cancelled) return;
+        setCooldownEndsAt(seconds > 0 ? Date.now() + seconds * 1000 : null);
+      })
+      .catch(() => {
+        if (!cancelled) setCooldownEndsAt(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [talentUUID, scorerSlug, isRefreshing, lastCalculatedAt]);
+
+  // A refused refresh reports how long to wait, which replaces the error
+  useEffect(() => {
+    if (retryAfter && retryAfter > 0) {
+      setCooldownEndsAt(Date.now() + retryAfter * 1000);
+      clearError();
+    }
+  }, [retryAfter, clearError]);
+
+  // Count down locally between syncs
+  useEffect(() => {
+    const updateCooldownMinutes = () => {
+      const remainingMs = cooldownEndsAt ? cooldownEndsAt - Date.now() : 0;
+      setCooldownMinutes(
+        remainingMs > 0 ? Math.ceil(remainingMs / (60 * 1000)) : null,
+      );
+    };
+
+    updateCooldownMinutes();
+
+    // Update every minute
+    const interval = setInterval(updateCooldownMinutes, 60000);
+
+    return () => clearInterval(interval);
+  }, [cooldownEndsAt]);
 
   // Don't auto-reset error state - let user see the error until page refresh
 
@@ -126,7 +146,7 @@ export function useProfileActions({
       ? formatNumberWithSuffix(totalEarnings)
       : "—";
 
-    const shareText = `🎯 ${creatorType}\n📊 Creator Score: ${scoreText}\n👥 Total Followers: ${followersText}\n💰 Total Earnings: ${earningsText}\n\nCheck out my full profile on Talent Protocol!`;
+    const shareText = `🎯 ${creatorType}\n📊 ${getScorerLabel(scorerSlug)}: ${scoreText}\n👥 Total Followers: ${followersText}\n💰 Total Earnings: ${earningsText}\n\nCheck out my full profile on Talent Protocol!`;
 
     // Proper Farcaster environment detection (like in lib/utils.ts)
     const isInFarcaster =
@@ -156,7 +176,14 @@ export function useProfileActions({
       const warpcastUrl = `https://warpcast.com/~/compose?text=${encodedText}`;
       window.open(warpcastUrl, "_blank");
     }
-  }, [categoryData, profile, creatorScore, totalFollowers, totalEarnings]);
+  }, [
+    categoryData,
+    profile,
+    scorerSlug,
+    creatorScore,
+    totalFollowers,
+    totalEarnings,
+  ]);
 
   // Handle refresh/calculate score action
   const handleRefreshScore = useCallback(() => {
@@ -1,8 +1,13 @@
 import { useState, useEffect, useCallback } from "react";
 import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
-import { getCreatorScoreForTalentId } from "@/app/services/scoresService";
+import { getScoreForTalentId } from "@/app/services/scoresService";
+import { getProfileSummary } from "@/app/services/profileSummaryService";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
 
-export function useProfileCreatorScore(talentUUID: string) {
+export function useProfileCreatorScore(
+  talentUUID: string,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+) {
   const [creatorScore, setCreatorScore] = useState<number | undefined>(
     undefined,
   );
@@ -15,78 +20,94 @@ export function useProfileCreatorScore(talentUUID: string) {
   const [error, setError] = useState<string | null>(null);
   const [hasNoScore, setHasNoScore] = useState<boolean>(false);
 
-  const fetchScore = useCallback(async () => {
-    const cacheKey = `creator_score_data_${talentUUID}`;
+  // The initial load hydrates from the profile summary; refetches always hit the score endpoint
+  const fetchScore = useCallback(
+    async (fromSummary = false) => {
+      const cacheKey =
+        scorerSlug === SCORER_SLUGS.CREATOR
+          ? `creator_score_data_${talentUUID}`
+          : `${scorerSlug}_data_${talentUUID}`;
 
-    // TEMPORARILY DISABLE CACHE - Check cache first
-    // const cachedData = getCachedData<{
-    //   score: number;
-    //   lastCalculatedAt: string | null;
-    //   calculating: boolean;
-    //   calculatingEnqueuedAt: string | null;
-    // }>(cacheKey, CACHE_DURATIONS.SCORE_BREAKDOWN);
-    // if (cachedData !== null) {
-    //   console.log("[useProfileCreatorScore] Using cached data:", cachedData);
-    //   setCreatorScore(cachedData.score);
-    //   setLastCalculatedAt(cachedData.lastCalculatedAt);
-    //   setCalculating(cachedData.calculating);
-    //   setCalculatingEnqueuedAt(cachedData.calculatingEnqueuedAt);
-    //   setLoading(false);
-    //   setHasNoScore(cachedData.lastCalculatedAt === null);
-    //   return;
-    // }
+      // TEMPORARILY DISABLE CACHE - Check cache first
+      // const cachedData = getCachedData<{
+      //   score: number;
+      //   lastCalculatedAt: string | null;
+      //   calculating: boolean;
+      //   calculatingEnqueuedAt: string | null;
+      // }>(cacheKey, CACHE_DURATIONS.SCORE_BREAKDOWN);
+      // if (cachedData !== null) {
+      //   console.log("[useProfileCreatorScore] Using cached data:", cachedData);
+      //   setCreatorScore(cachedData.score);
+      //   setLastCalculatedAt(cachedData.lastCalculatedAt);
+      //   setCalculating(cachedData.calculating);
+      //   setCalculatingEnqueuedAt(cachedData.calculatingEnqueuedAt);
+      //   setLoading(false);
+      //   setHasNoScore(cachedData.lastCalculatedAt === null);
+      //   return;
+      // }
 
-    try {
-      setLoading(true);
-      setError(null);
+      try {
+        setLoading(true);
+        setError(null);
 
-      // Use service layer instead of direct API call
-      const scoreData = await getCreatorScoreForTalentId(talentUUID);
+        // Use service layer instead of direct API call
+        // The profile summary only carries the Creator Score
+        const summary =
+          fromSummary && scorerSlug === SCORER_SLUGS.CREATOR
+            ? await getProfileSummary(talentUUID)
+            : null;
+        const scoreData =
+          summary?.creatorScore.data ??
+          (await getScoreForTalentId(talentUUID, scorerSlug));
 
-      if (scoreData.error) {
-        setError(scoreData.error);
+        if (scoreData.error) {
+          setError(scoreData.error);
+          setCreatorScore(undefined);
+          setLastCalculatedAt(null);
+          setCalculating(false);
+          setCalculatingEnqueuedAt(null);
+          setHasNoScore(true);
+        } else {
+          setCreatorScore(scoreData.score);
+          setLastCalculatedAt(scoreData.lastCalculatedAt);
+          setCalculating(scoreData.calculating || false);
+          setCalculatingEnqueuedAt(scoreData.calculatingEnqueuedAt || null);
+          // Fix: hasNoScore should be based on lastCalculatedAt, not score value
+          setHasNoScore(scoreData.lastCalculatedAt === null);
+
+          // Cache the complete score data
+          setCachedData(cacheKey, {
+            score: scoreData.score,
+            lastCalculatedAt: scoreData.lastCalculatedAt,
+            calculating: scoreData.calculating || false,
+            calculatingEnqueuedAt: scoreData.calculatingEnqueuedAt || null,
+          });
+        }
+      } catch (err) {
+        console.error("Error fetching creator score:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch creator score",
+        );
         setCreatorScore(undefined);
         setLastCalculatedAt(null);
         setCalculating(false);
         setCalculatingEnqueuedAt(null);
         setHasNoScore(true);
-      } else {
-        setCreatorScore(scoreData.score);
-        setLastCalculatedAt(scoreData.lastCalculatedAt);
-        setCalculating(scoreData.calculating || false);
-        setCalculatingEnqueuedAt(scoreData.calculatingEnqueuedAt || null);
-        // Fix: hasNoScore should be based on lastCalculatedAt, not score value
-        setHasNoScore(scoreData.lastCalculatedAt === null);
-
-        // Cache the complete score data
-        setCachedData(cacheKey, {
-          score: scoreData.score,
-          lastCalculatedAt: scoreData.lastCalculatedAt,
-          calculating: scoreData.calculating || false,
-          calculatingEnqueuedAt: scoreData.calculatingEnqueuedAt || null,
-        });
+      } finally {
+        setLoading(false);
       }
-    } catch (err) {
-      console.error("Error fetching creator score:", err);
-      setError(
-        err instanceof Error ? err.message : "Failed to fetch creator score",
-      );
-      setCreatorScore(undefined);
-      setLastCalculatedAt(null);
-      setCalculating(false);
-      setCalculatingEnqueuedAt(null);
-      setHasNoScore(true);
-    } finally {
-      setLoading(false);
-    }
-  }, [talentUUID]);
+    },
+    [talentUUID, scorerSlug],
+  );
 
   useEffect(() => {
     if (talentUUID) {
-      fetchScore();
+      fetchScore(true);
     }
   }, [talentUUID, fetchScore]);
 
+  const refetch = useCallback(() => fetchScore(), [fetchScore]);
+
   return {
     creatorScore,
     lastCalculatedAt,
@@ -95,6 +116,6 @@ export function useProfileCreatorScore(talentUUID: string) {
     loading,
     error,
     hasNoScore,
-    refetch: fetchScore,
+    refetch,
   };
 }
@@ -1,11 +1,22 @@
 "use client";
 
 import * as React from "react";
-import type { IssuerCredentialGroup } from "@/app/services/types";
+import {
+  SCORER_SLUGS,
+  type IssuerCredentialGroup,
+  type ScorerSlug,
+} from "@/app/services/types";
 import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
-import { getCredentialsForTalentId } from "@/app/services/credentialsService";
+import {
+  getCredentialsCacheKey,
+  getCredentialsForTalentId,
+} from "@/app/services/credentialsService";
+import { getProfileSummary } from "@/app/services/profileSummaryService";
 
-export function useProfileCredentials(talentUUID: string) {
+export function useProfileCredentials(
+  talentUUID: string,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+) {
   const [credentials, setCredentials] = React.useState<IssuerCredentialGroup[]>(
     [],
   );
@@ -20,7 +31,7 @@ export function useProfileCredentials(talentUUID: string) {
         setLoading(true);
         setError(null);
 
-        const cacheKey = `credentials-${talentUUID}`;
+        const cacheKey = getCredentialsCacheKey(talentUUID, scorerSlug);
         const cached = getCachedData<IssuerCredentialGroup[]>(
           cacheKey,
           CACHE_DURATIONS.PROFILE_DATA,
@@ -32,7 +43,14 @@ export function useProfileCredentials(talentUUID: string) {
           return;
         }
 
-        const credentialsData = await getCredentialsForTalentId(talentUUID);
+        // The profile summary only carries Creator Score credentials
+        const summary =
+          scorerSlug === SCORER_SLUGS.CREATOR
+            ? await getProfileSummary(talentUUID)
+            : null;
+        const credentialsData =
+          summary?.credentials.data ??
+          (await getCredentialsForTalentId(talentUUID, scorerSlug));
 
         setCredentials(credentialsData);
 
@@ -49,7 +67,7 @@ export function useProfileCredentials(talentUUID: string) {
     }
 
     fetchCredentials();
-  }, [talentUUID]);
+  }, [talentUUID, scorerSlug]);
 
   return { credentials, loading, error };
 }
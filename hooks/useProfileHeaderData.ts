@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { resolveTalentUser } from "@/lib/user-resolver";
 import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getProfileSummary } from "@/app/services/profileSummaryService";
 
 export function useProfileHeaderData(talentUUID: string) {
   const [profile, setProfile] = useState<any>(null);
@@ -26,7 +27,9 @@ export function useProfileHeaderData(talentUUID: string) {
         setLoading(true);
         setError(null);
 
-        const user = await resolveTalentUser(talentUUID);
+        const summary = await getProfileSummary(talentUUID);
+        const user =
+          summary?.profile.data ?? (await resolveTalentUser(talentUUID));
 
         setProfile(user);
 
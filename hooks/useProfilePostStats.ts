@@ -0,0 +1,75 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { PostAggregates } from "@/app/services/types";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import {
+  aggregatePosts,
+  getAllPostsForTalentId,
+} from "@/app/services/postsService";
+import { getProfileSummary } from "@/app/services/profileSummaryService";
+
+const EMPTY_POST_STATS: PostAggregates = {
+  totalPosts: 0,
+  platformCounts: {},
+  yearlyData: [],
+  streaks: {
+    weekly: { current: 0, longest: 0 },
+    monthly: { current: 0, longest: 0 },
+  },
+};
+
+/**
+ * Post totals per platform and per month, and posting streaks, without loading
+ * the posts themselves
+ */
+export function useProfilePostStats(talentUUID: string) {
+  const [postStats, setPostStats] = useState<PostAggregates>(EMPTY_POST_STATS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchPostStats() {
+      const cacheKey = `post_aggregates_${talentUUID}`;
+
+      // Check cache first
+      const cachedStats = getCachedData<PostAggregates>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedStats) {
+        setPostStats(cachedStats);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const summary = await getProfileSummary(talentUUID);
+        const stats =
+          summary?.posts.data ??
+          aggregatePosts(await getAllPostsForTalentId(talentUUID));
+        setPostStats(stats);
+
+        // Cache the post stats
+        setCachedData(cacheKey, stats);
+      } catch (err) {
+        console.error("Error fetching post stats:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch post stats",
+        );
+        setPostStats(EMPTY_POST_STATS);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (talentUUID) {
+      fetchPostStats();
+    }
+  }, [talentUUID]);
+
+  return { ...postStats, loading, error };
+}
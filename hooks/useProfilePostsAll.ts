@@ -3,13 +3,12 @@
 import { useState, useEffect, useMemo } from "react";
 import type { Post } from "@/app/services/types";
 import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
-import { getAllPostsForTalentId } from "@/app/services/postsService";
+import {
+  getAllPostsForTalentId,
+  groupPostsByYear,
+} from "@/app/services/postsService";
 
-export interface YearlyPostData {
-  year: number;
-  months: number[];
-  total: number;
-}
+export type { YearlyPostData } from "@/app/services/types";
 
 export function useProfilePostsAll(talentUUID: string) {
   const [posts, setPosts] = useState<Post[]>([]);
@@ -17,50 +16,7 @@ export function useProfilePostsAll(talentUUID: string) {
   const [error, setError] = useState<string | null>(null);
 
   // Process posts into yearly data for chart
-  const yearlyData = useMemo((): YearlyPostData[] => {
-    if (posts.length === 0) return [];
-
-    // Group posts by year and month
-    const yearMonthCounts: Record<string, Record<string, number>> = {};
-
-    posts.forEach((post) => {
-      const date = new Date(post.onchain_created_at);
-      const year = date.getFullYear().toString();
-      const month = date.getMonth(); // 0-11
-
-      if (!yearMonthCounts[year]) {
-        yearMonthCounts[year] = {};
-      }
-      if (!yearMonthCounts[year][month]) {
-        yearMonthCounts[year][month] = 0;
-      }
-      yearMonthCounts[year][month]++;
-    });
-
-    // Convert to YearlyPostData format
-    const years = Object.keys(yearMonthCounts)
-      .map(Number)
-      .sort((a, b) => a - b);
-
-    return years.map((year) => {
-      const months = Array(12).fill(0);
-      const yearData = yearMonthCounts[year.toString()];
-
-      // Fill in the months that have posts
-      Object.keys(yearData).forEach((monthStr) => {
-        const monthIndex = parseInt(monthStr);
-        months[monthIndex] = yearData[monthStr];
-      });
-
-      const total = months.reduce((sum, count) => sum + count, 0);
-
-      return {
-        year,
-        months,
-        total,
-      };
-    });
-  }, [posts]);
+  const yearlyData = useMemo(() => groupPostsByYear(posts), [posts]);
 
   useEffect(() => {
     async function fetchAllPosts() {
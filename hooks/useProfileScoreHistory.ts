@@ -0,0 +1,64 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  SCORER_SLUGS,
+  type ScoreHistoryPoint,
+  type ScorerSlug,
+} from "@/app/services/types";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getScoreHistoryForTalentId } from "@/app/services/scoreHistoryService";
+
+export function useProfileScoreHistory(
+  talentUUID: string,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+) {
+  const [history, setHistory] = useState<ScoreHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchHistory() {
+      const cacheKey = `score_history_${scorerSlug}_${talentUUID}`;
+
+      // Check cache first
+      const cachedHistory = getCachedData<ScoreHistoryPoint[]>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedHistory) {
+        setHistory(cachedHistory);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const historyData = await getScoreHistoryForTalentId(
+          talentUUID,
+          scorerSlug,
+        );
+        setHistory(historyData);
+
+        // Cache the history data
+        setCachedData(cacheKey, historyData);
+      } catch (err) {
+        console.error("Error fetching score history:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch score history",
+        );
+        setHistory([]);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (talentUUID) {
+      fetchHistory();
+    }
+  }, [talentUUID, scorerSlug]);
+
+  return { history, loading, error };
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import type { SocialAccount } from "@/app/services/types";
 import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
 import { getSocialAccountsForTalentId } from "@/app/services/socialAccountsService";
+import { getProfileSummary } from "@/app/services/profileSummaryService";
 
 export function useProfileSocialAccounts(talentUUID: string) {
   const [socialAccounts, setSocialAccounts] = useState<SocialAccount[]>([]);
@@ -27,7 +28,10 @@ export function useProfileSocialAccounts(talentUUID: string) {
         setLoading(true);
         setError(null);
 
-        const accounts = await getSocialAccountsForTalentId(talentUUID);
+        const summary = await getProfileSummary(talentUUID);
+        const accounts =
+          summary?.socialAccounts.data ??
+          (await getSocialAccountsForTalentId(talentUUID));
         setSocialAccounts(accounts);
 
         // Cache the social accounts data
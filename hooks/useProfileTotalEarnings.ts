@@ -1,12 +1,13 @@
 import { useState, useEffect } from "react";
 import {
-  calculateTotalRewards,
   getEthUsdcPrice,
   getCachedData,
   setCachedData,
   CACHE_DURATIONS,
 } from "@/lib/utils";
 import { getCredentialsForTalentId } from "@/app/services/credentialsService";
+import { getTotalEarningsFromCredentials } from "@/app/services/earningsService";
+import { getProfileSummary } from "@/app/services/profileSummaryService";
 
 export function useProfileTotalEarnings(talentUUID: string) {
   const [totalEarnings, setTotalEarnings] = useState<number | undefined>(
@@ -34,26 +35,13 @@ export function useProfileTotalEarnings(talentUUID: string) {
         setLoading(true);
         setError(null);
 
-        const credentialsGroups = await getCredentialsForTalentId(talentUUID);
-
-        // Transform grouped credentials into the structure expected by calculateTotalRewards
-        const credentials = credentialsGroups.flatMap((group) =>
-          group.points.map((point) => ({
-            name: point.label,
-            slug: point.slug,
-            points_calculation_logic: {
-              data_points: [
-                {
-                  value: `${point.readable_value} ${point.uom}`, // Reconstruct original value with currency
-                  readable_value: point.readable_value,
-                  uom: point.uom,
-                },
-              ],
-            },
-          })),
-        );
-
-        const total = await calculateTotalRewards(credentials, getEthUsdcPrice);
+        const summary = await getProfileSummary(talentUUID);
+        const total =
+          summary?.totalEarnings.data ??
+          (await getTotalEarningsFromCredentials(
+            await getCredentialsForTalentId(talentUUID),
+            await getEthUsdcPrice(),
+          ));
 
         setTotalEarnings(total);
 
@@ -0,0 +1,54 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getRoundClimbers } from "@/app/services/roundsService";
+import type { LeaderboardClimber } from "@/app/services/types";
+
+export function useRoundClimbers(roundId: string | undefined) {
+  const [climbers, setClimbers] = useState<LeaderboardClimber[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roundId) {
+      setClimbers([]);
+      return;
+    }
+
+    async function fetchClimbers(roundId: string) {
+      const cacheKey = `round_climbers_${roundId}`;
+
+      // Check cache first
+      const cachedClimbers = getCachedData<LeaderboardClimber[]>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedClimbers) {
+        setClimbers(cachedClimbers);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getRoundClimbers(roundId);
+        setClimbers(data.climbers);
+        setCachedData(cacheKey, data.climbers);
+      } catch (err) {
+        console.error("Error fetching climbers:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch climbers",
+        );
+        setClimbers([]);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchClimbers(roundId);
+  }, [roundId]);
+
+  return { climbers, loading, error };
+}
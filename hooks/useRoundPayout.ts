@@ -0,0 +1,57 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getRoundPayout } from "@/app/services/roundsService";
+import type { PayoutRow } from "@/app/services/types";
+
+export function useRoundPayout(
+  roundId: string | undefined,
+  talentId: string | null,
+) {
+  const [payout, setPayout] = useState<PayoutRow | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roundId || !talentId) {
+      setPayout(null);
+      return;
+    }
+
+    async function fetchPayout(roundId: string, talentId: string) {
+      const cacheKey = `round_payout_${roundId}_${talentId}`;
+
+      // Check cache first
+      const cachedPayout = getCachedData<PayoutRow | null>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedPayout) {
+        setPayout(cachedPayout);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getRoundPayout(roundId, talentId);
+        setPayout(data);
+        if (data) setCachedData(cacheKey, data);
+      } catch (err) {
+        console.error("Error fetching round payout:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch round payout",
+        );
+        setPayout(null);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPayout(roundId, talentId);
+  }, [roundId, talentId]);
+
+  return { payout, loading, error };
+}
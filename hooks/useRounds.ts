@@ -0,0 +1,54 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getRounds } from "@/app/services/roundsService";
+import type { RoundsResponse } from "@/app/services/types";
+
+export function useRounds() {
+  const [rounds, setRounds] = useState<RoundsResponse>({
+    current: null,
+    rewards: null,
+    past: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchRounds() {
+      const cacheKey = "rewards_rounds";
+
+      // Check cache first
+      const cachedRounds = getCachedData<RoundsResponse>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+
+      if (cachedRounds) {
+        setRounds(cachedRounds);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getRounds();
+        setRounds(data);
+        setCachedData(cacheKey, data);
+      } catch (err) {
+        console.error("Error fetching rewards rounds:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch rewards rounds",
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchRounds();
+  }, []);
+
+  return { rounds, loading, error };
+}
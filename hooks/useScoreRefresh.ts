@@ -1,29 +1,58 @@
-import { useState, useRef } from "react";
-import { triggerScoreCalculation } from "@/app/services/scoreRefreshService";
+import { useState, useRef, useEffect, useCallback } from "react";
+import {
+  markScoreCalculationSeen,
+  triggerScoreCalculation,
+} from "@/app/services/scoreRefreshService";
+import { waitForScoreCalculation } from "@/app/services/scoresService";
+import {
+  getCredentialsCacheKey,
+  saveCredentialsSnapshot,
+  takeCredentialsSnapshot,
+} from "@/app/services/credentialsService";
+import { clearProfileSummaryCache } from "@/app/services/profileSummaryService";
+import { clearCachedData } from "@/lib/utils";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
 
 interface UseScoreRefreshResult {
   isRefreshing: boolean;
   successMessage: string | null;
   error: string | null;
+  retryAfter: number | null; // seconds to wait when the server refused the refresh
   refreshScore: () => Promise<void>;
   clearError: () => void;
 }
 
+// Everything derived from the score's credentials needs to be fetched again
+function clearScoreDependentCaches(talentUUID: string, scorerSlug: ScorerSlug) {
+  clearCachedData(getCredentialsCacheKey(talentUUID, scorerSlug));
+  clearCachedData(`score_history_${scorerSlug}_${talentUUID}`);
+  clearProfileSummaryCache(talentUUID);
+  if (scorerSlug === SCORER_SLUGS.CREATOR) {
+    clearCachedData(`total_earnings_${talentUUID}`);
+    clearCachedData(`earnings_breakdown_${talentUUID}`);
+  }
+}
+
 export function useScoreRefresh(
   talentUUID: string,
   onSuccess?: () => void,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
 ): UseScoreRefreshResult {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [retryAfter, setRetryAfter] = useState<number | null>(null);
 
-  const successTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const errorTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const hasCalledSuccessRef = useRef(false);
+  // Stops polling when the profile is closed; the server notifies instead
+  const pollingRef = useRef<AbortController | null>(null);
 
-  const clearError = () => {
+  useEffect(() => {
+    return () => pollingRef.current?.abort();
+  }, []);
+
+  const clearError = useCallback(() => {
     setError(null);
-  };
+  }, []);
 
   const refreshScore = async () => {
     if (!talentUUID || isRefreshing) return;
@@ -33,41 +62,63 @@ export function useScoreRefresh(
       // Clear any existing messages
       setError(null);
       setSuccessMessage(null);
-      hasCalledSuccessRef.current = false;
-
-      const result = await triggerScoreCalculation(talentUUID);
-
-      if (result.success) {
-        setSuccessMessage("Calculation enqueued");
-        // Call onSuccess callback to trigger score refetch
-        // Only call once per refresh to prevent loops
-        if (onSuccess && !hasCalledSuccessRef.current) {
-          hasCalledSuccessRef.current = true;
-          // Small delay to show success message before refetching
-          setTimeout(async () => {
-            try {
-              await onSuccess();
-            } catch (error) {
-              console.error("Error during score refetch:", error);
-            } finally {
-              // Keep isRefreshing true for a bit longer after refetch completes
-              // to prevent flickering between states
-              setTimeout(() => {
-                setIsRefreshing(false);
-              }, 500);
-            }
-          }, 1000);
-        } else {
-          // If no onSuccess callback, reset immediately
-          setIsRefreshing(false);
-        }
-        // No auto-clear of success message
-      } else {
+      setRetryAfter(null);
+
+      // Read the pre-refresh credentials so we can show what changed; they're
+      // only kept once the refresh is accepted, so a refused one leaves the last baseline
+      const snapshot = await takeCredentialsSnapshot(
+        talentUUID,
+        scorerSlug,
+      ).catch((snapshotError) => {
+        console.error("Error taking credentials snapshot:", snapshotError);
+        return null;
+      });
+
+      const requestedAt = Date.now();
+      const result = await triggerScoreCalculation(talentUUID, scorerSlug);
+
+      if (!result.success) {
         const errorMessage = result.error || "Failed to trigger calculation";
         setError(errorMessage);
+        setRetryAfter(result.retryAfter ?? null);
         setIsRefreshing(false);
         // No auto-clear of error message
+        return;
+      }
+
+      if (snapshot) {
+        saveCredentialsSnapshot(talentUUID, snapshot, scorerSlug);
+      }
+      setSuccessMessage("Calculation enqueued");
+
+      pollingRef.current?.abort();
+      const polling = new AbortController();
+      pollingRef.current = polling;
+
+      const outcome = await waitForScoreCalculation(talentUUID, scorerSlug, {
+        requestedAt,
+        signal: polling.signal,
+      });
+      if (!outcome) return; // Unmounted while calculating
+
+      // The result is being viewed, so there's no need to notify about it
+      if (!outcome.timedOut) {
+        await markScoreCalculationSeen(talentUUID, scorerSlug);
+      }
+      clearScoreDependentCaches(talentUUID, scorerSlug);
+      setSuccessMessage(
+        outcome.timedOut
+          ? "Still calculating, check back later"
+          : "Calculation complete",
+      );
+
+      // Refetch so the final score shows up
+      try {
+        await onSuccess?.();
+      } catch (error) {
+        console.error("Error during score refetch:", error);
       }
+      setIsRefreshing(false);
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to trigger calculation";
@@ -81,6 +132,7 @@ export function useScoreRefresh(
     isRefreshing,
     successMessage,
     error,
+    retryAfter,
     refreshScore,
     clearError,
   };
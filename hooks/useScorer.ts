@@ -0,0 +1,41 @@
+"use client";
+
+import { useCallback } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
+import {
+  SCORER_QUERY_PARAM,
+  getScorerLabel,
+  parseScorerSlug,
+  withScorerParam,
+} from "@/lib/scorer";
+
+/**
+ * The scorer selected in the URL, so every score view and shared link agrees on it
+ */
+export function useScorer() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const scorerSlug = parseScorerSlug(searchParams.get(SCORER_QUERY_PARAM));
+
+  const setScorer = useCallback(
+    (slug: ScorerSlug) => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.delete(SCORER_QUERY_PARAM);
+      const query = params.toString();
+      router.replace(
+        withScorerParam(query ? `${pathname}?${query}` : pathname, slug),
+        { scroll: false },
+      );
+    },
+    [router, pathname, searchParams],
+  );
+
+  return {
+    scorerSlug,
+    scorerLabel: getScorerLabel(scorerSlug),
+    isCreatorScorer: scorerSlug === SCORER_SLUGS.CREATOR,
+    setScorer,
+  };
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { CreatorCategoryType } from "@/lib/credentialUtils";
+import { saveSelfReportedCategory } from "@/app/services/leaderboardService";
 
 const STORAGE_KEY = "user_creator_category";
 
@@ -41,6 +42,11 @@ export function useUserCategory(talentUUID: string) {
     } catch (error) {
       console.error("Error saving user category to localStorage:", error);
     }
+
+    // Lists the creator in this category's leaderboard
+    saveSelfReportedCategory(talentUUID, category).catch((error) =>
+      console.error("Error saving user category to server:", error),
+    );
   };
 
   // Clear category from localStorage
@@ -53,6 +59,10 @@ export function useUserCategory(talentUUID: string) {
     } catch (error) {
       console.error("Error clearing user category from localStorage:", error);
     }
+
+    saveSelfReportedCategory(talentUUID, null).catch((error) =>
+      console.error("Error clearing user category on server:", error),
+    );
   };
 
   return {
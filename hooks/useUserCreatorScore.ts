@@ -2,8 +2,12 @@
 
 import { useState, useEffect } from "react";
 import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
 
-export function useUserCreatorScore(fid: number | undefined) {
+export function useUserCreatorScore(
+  fid: number | undefined,
+  scorerSlug: ScorerSlug = SCORER_SLUGS.CREATOR,
+) {
   const [creatorScore, setCreatorScore] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -16,7 +20,10 @@ export function useUserCreatorScore(fid: number | undefined) {
         return;
       }
 
-      const cacheKey = `user_creator_score_${fid}`;
+      const cacheKey =
+        scorerSlug === SCORER_SLUGS.CREATOR
+          ? `user_creator_score_${fid}`
+          : `user_${scorerSlug}_${fid}`;
 
       // Check cache first
       const cachedScore = getCachedData<number>(
@@ -35,7 +42,7 @@ export function useUserCreatorScore(fid: number | undefined) {
 
         // Direct FID-based score lookup - much more efficient than fetching wallets first
         const response = await fetch(
-          `/api/talent-score?fid=${fid}&account_source=farcaster&scorer_slug=creator_score`,
+          `/api/talent-score?fid=${fid}&account_source=farcaster&scorer_slug=${scorerSlug}`,
         );
         if (!response.ok) {
           throw new Error(`Failed to fetch creator score: ${response.status}`);
@@ -63,7 +70,7 @@ export function useUserCreatorScore(fid: number | undefined) {
     }
 
     fetchUserScore();
-  }, [fid]);
+  }, [fid, scorerSlug]);
 
   return { creatorScore, loading, error };
 }
@@ -0,0 +1,54 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getCachedData, setCachedData, CACHE_DURATIONS } from "@/lib/utils";
+import { getVerifiedSponsors } from "@/app/services/roundsService";
+import type { RoundSponsor } from "@/app/services/types";
+
+export function useVerifiedSponsors(roundId: string | undefined) {
+  const [sponsors, setSponsors] = useState<RoundSponsor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roundId) {
+      setSponsors([]);
+      return;
+    }
+
+    async function fetchSponsors(roundId: string) {
+      const cacheKey = `round_sponsors_${roundId}`;
+
+      // Check cache first
+      const cachedSponsors = getCachedData<RoundSponsor[]>(
+        cacheKey,
+        CACHE_DURATIONS.PROFILE_DATA,
+      );
+      if (cachedSponsors) {
+        setSponsors(cachedSponsors);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getVerifiedSponsors(roundId);
+        setSponsors(data);
+        setCachedData(cacheKey, data);
+      } catch (err) {
+        console.error("Error fetching sponsors:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch sponsors",
+        );
+        setSponsors([]);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSponsors(roundId);
+  }, [roundId]);
+
+  return { sponsors, loading, error };
+}
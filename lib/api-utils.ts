@@ -98,6 +98,35 @@ export function createBadRequestResponse(error: string): NextResponse {
   return createErrorResponse(error, 400);
 }
 
+// Cron utilities
+/**
+ * Refuses a cron request that doesn't carry the CRON_SECRET bearer token, or null
+ * when it may run. Without a secret only development lets requests through.
+ */
+export function verifyCronRequest(req: Request): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return process.env.NODE_ENV === "development"
+      ? null
+      : createServerErrorResponse("Cron secret not configured");
+  }
+
+  return req.headers.get("authorization") === `Bearer ${cronSecret}`
+    ? null
+    : createErrorResponse("Unauthorized", 401);
+}
+
+// Talent API client methods return NextResponses; unwrap them and surface errors.
+// T is the response the client method returns, e.g. from talent-api-schemas.
+export async function readJson<T>(response: Promise<NextResponse>): Promise<T> {
+  const res = await response;
+  const data = await res.json();
+  if (!res.ok || data.error) {
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return data;
+}
+
 // Response content type validation
 export function validateJsonResponse(response: Response): boolean {
   const contentType = response.headers.get("content-type");
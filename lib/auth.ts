@@ -0,0 +1,150 @@
+import { NextRequest } from "next/server";
+import { verifyMessage, type Hex } from "viem";
+import {
+  generateSiweNonce,
+  parseSiweMessage,
+  validateSiweMessage,
+} from "viem/siwe";
+import { redis } from "./redis";
+import { getNeynarClient } from "./neynar-client";
+import { getDevUserContext } from "./user-context";
+import { talentApiClient } from "./talent-api-client";
+
+const AUTH_NONCE_TTL_SECONDS = 5 * 60; // 5 minutes to complete sign in
+const AUTH_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+function getNonceKey(nonce: string): string {
+  return `auth:nonce:${nonce}`;
+}
+
+function getSessionKey(token: string): string {
+  return `auth:session:${token}`;
+}
+
+// Sign In With Farcaster messages list the signer as farcaster://fid/<fid>
+function getFidFromResources(resources: string[] = []): number | null {
+  for (const resource of resources) {
+    const match = resource.match(/^farcaster:\/\/fid\/(\d+)$/);
+    if (match) return Number(match[1]);
+  }
+  return null;
+}
+
+function getAppDomain(): string | undefined {
+  try {
+    return process.env.NEXT_PUBLIC_URL
+      ? new URL(process.env.NEXT_PUBLIC_URL).host
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Issues a single-use nonce for a Sign In With Farcaster request
+ */
+export async function createAuthNonce(): Promise<string | null> {
+  if (!redis) {
+    return null;
+  }
+
+  const nonce = generateSiweNonce();
+  await redis.set(getNonceKey(nonce), 1, { ex: AUTH_NONCE_TTL_SECONDS });
+  return nonce;
+}
+
+/**
+ * Verifies a Sign In With Farcaster message against the FID's custody address
+ * and returns the signer's FID, or null if the message isn't valid
+ */
+export async function verifySignIn(
+  message: string,
+  signature: string,
+): Promise<number | null> {
+  if (!redis) {
+    return null;
+  }
+
+  const parsed = parseSiweMessage(message);
+  const fid = getFidFromResources(parsed.resources);
+  if (!fid || !parsed.nonce || !parsed.address) {
+    return null;
+  }
+
+  // Nonces are single use
+  const nonceKnown = await redis.del(getNonceKey(parsed.nonce));
+  if (
+    !nonceKnown ||
+    !validateSiweMessage({ message: parsed, domain: getAppDomain() })
+  ) {
+    return null;
+  }
+
+  const { custodyAddress } = await getNeynarClient().getWalletAddressesRaw(fid);
+  if (
+    !custodyAddress ||
+    custodyAddress.toLowerCase() !== parsed.address.toLowerCase()
+  ) {
+    return null;
+  }
+
+  const valid = await verifyMessage({
+    address: parsed.address,
+    message,
+    signature: signature as Hex,
+  });
+  return valid ? fid : null;
+}
+
+/**
+ * Starts a session for a verified FID and returns its bearer token
+ */
+export async function createAuthSession(fid: number): Promise<string | null> {
+  if (!redis) {
+    return null;
+  }
+
+  const token = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(
+    /-/g,
+    "",
+  );
+  await redis.set(getSessionKey(token), fid, { ex: AUTH_SESSION_TTL_SECONDS });
+  return token;
+}
+
+/**
+ * Returns the FID behind the request's bearer token, or null if unauthenticated.
+ * In development the configured dev user is always signed in.
+ */
+export async function getAuthenticatedFid(
+  req: NextRequest,
+): Promise<number | null> {
+  if (process.env.NODE_ENV === "development") {
+    return getDevUserContext().fid;
+  }
+
+  const header = req.headers.get("authorization");
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : null;
+  if (!token || !redis) {
+    return null;
+  }
+
+  return await redis.get<number>(getSessionKey(token));
+}
+
+/**
+ * A Talent profile belongs to the Farcaster user it's linked to
+ */
+export async function isProfileOwner(
+  fid: number,
+  talentUuid: string,
+): Promise<boolean> {
+  const response = await talentApiClient.getProfile({
+    id: String(fid),
+    account_source: "farcaster",
+  });
+  if (!response.ok) return false;
+
+  const profile = await response.json();
+  return profile.id === talentUuid;
+}
@@ -0,0 +1,156 @@
+import { redis } from "./redis";
+import { talentApiClient } from "./talent-api-client";
+import { sendFrameNotification } from "./notification-client";
+import { BADGE_SECTIONS } from "./badge-data";
+import type { BadgeAward, BadgeStatus } from "@/app/services/types";
+
+const BADGE_NAMES = new Map(
+  BADGE_SECTIONS.flatMap((section) =>
+    section.badges.map((badge) => [badge.id, badge.name]),
+  ),
+);
+
+// One hash per profile, with a field per earned badge
+function getBadgeAwardsKey(talentUuid: string): string {
+  return `badge_awards:${talentUuid}`;
+}
+
+// Set once the profile's already-unlocked badges have been recorded
+function getFirstEvaluationKey(talentUuid: string): string {
+  return `badge_awards:${talentUuid}:initialized`;
+}
+
+export async function getBadgeAwards(
+  talentUuid: string,
+): Promise<Record<string, BadgeAward>> {
+  if (!redis) {
+    return {};
+  }
+
+  return (
+    (await redis.hgetall<Record<string, BadgeAward>>(
+      getBadgeAwardsKey(talentUuid),
+    )) ?? {}
+  );
+}
+
+/**
+ * Stores the badges a creator has just unlocked and returns them.
+ * Each badge is only ever stored once, so concurrent evaluations can't award it twice.
+ */
+async function awardBadges(
+  talentUuid: string,
+  statuses: BadgeStatus[],
+): Promise<BadgeStatus[]> {
+  if (!redis) {
+    return [];
+  }
+
+  const key = getBadgeAwardsKey(talentUuid);
+  const earnedAt = new Date().toISOString();
+  const stored = await Promise.all(
+    statuses.map((status) =>
+      redis!.hsetnx(key, status.id, {
+        earnedAt,
+        value: status.current,
+      } satisfies BadgeAward),
+    ),
+  );
+  return statuses.filter((_, index) => stored[index] === 1);
+}
+
+async function notifyBadgeAwards(
+  talentUuid: string,
+  awarded: BadgeStatus[],
+): Promise<void> {
+  const res = await talentApiClient.getProfile({ id: talentUuid });
+  if (!res.ok) return;
+
+  const profile = await res.json();
+  if (!profile.fid) return;
+
+  const first = BADGE_NAMES.get(awarded[0].id) ?? awarded[0].id;
+  const result = await sendFrameNotification({
+    fid: profile.fid,
+    title:
+      awarded.length === 1
+        ? "You unlocked a badge"
+        : `You unlocked ${awarded.length} badges`,
+    body:
+      awarded.length === 1
+        ? `You earned ${first}. Open the app to see your badges.`
+        : `You earned ${first} and ${awarded.length - 1} more. Open the app to see your badges.`,
+  });
+  if (result.state === "error") {
+    console.error(
+      `[badgeAwards] Failed to notify ${talentUuid}:`,
+      result.error,
+    );
+  }
+}
+
+/**
+ * Records newly unlocked badges and notifies the creator about them. Earned badges
+ * stay unlocked even if the data behind them later drops. The first evaluation of a
+ * profile, claimed with a single SET NX, records what it has already unlocked without
+ * a notification.
+ */
+async function recordBadgeAwards(
+  talentUuid: string,
+  statuses: BadgeStatus[],
+): Promise<void> {
+  if (!redis) {
+    return;
+  }
+
+  const isFirstEvaluation =
+    (await redis.set(getFirstEvaluationKey(talentUuid), Date.now(), {
+      nx: true,
+    })) !== null;
+
+  const awards = await getBadgeAwards(talentUuid);
+  const awarded = await awardBadges(
+    talentUuid,
+    statuses.filter((status) => status.completed && !awards[status.id]),
+  );
+  if (awarded.length > 0 && !isFirstEvaluation) {
+    await notifyBadgeAwards(talentUuid, awarded);
+  }
+}
+
+/**
+ * Returns every badge with its earned date. Only the badge awards cron and the
+ * profile owner's own requests record new awards and send notifications; everyone
+ * else just reads them.
+ */
+export async function withBadgeAwards(
+  talentUuid: string,
+  statuses: BadgeStatus[],
+  recordAwards: boolean,
+): Promise<BadgeStatus[]> {
+  let awards: Record<string, BadgeAward> = {};
+  try {
+    if (recordAwards) {
+      await recordBadgeAwards(talentUuid, statuses);
+    }
+    awards = await getBadgeAwards(talentUuid);
+  } catch (error) {
+    // Awards are best-effort; the badges themselves are still valid
+    console.error(
+      `[badgeAwards] Failed to update awards for ${talentUuid}:`,
+      error,
+    );
+  }
+
+  return statuses.map((status) => {
+    const award = awards[status.id];
+    return award
+      ? {
+          ...status,
+          completed: true,
+          progressPercent: 100,
+          earnedAt: award.earnedAt,
+        }
+      : status;
+  });
+}
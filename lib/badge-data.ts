@@ -18,24 +18,46 @@ import {
   Link,
   type LucideIcon,
 } from "lucide-react";
+import type { CreatorCategoryType } from "./credentialUtils";
+import type { BadgeStatus } from "@/app/services/types";
 
-export interface BadgeItem {
+// What unlocks a badge, evaluated on the server by lib/badges.ts
+export type BadgeRule =
+  | { type: "level"; level: number } // 1-6, see LEVEL_RANGES
+  | { type: "platform"; socialSources: string[]; credentialSlugs: string[] } // followers or collectors there
+  | { type: "followers"; min: number } // across all platforms
+  | { type: "earnings"; min: number } // USD
+  | { type: "posts"; min: number }
+  | { type: "yearsOnchain"; years: number } // oldest account age credential
+  | { type: "category"; category: CreatorCategoryType } // points in a creator category
+  | { type: "credential"; slugs: string[] } // points in any of the credentials
+  | { type: "streak"; unit: "week" | "month"; count: number };
+
+export interface BadgeDefinition {
   id: string;
   name: string;
   description: string;
   icon: LucideIcon;
-  completed: boolean;
+  rule: BadgeRule;
   actionUrl?: string;
 }
 
+export interface BadgeSectionDefinition {
+  id: string;
+  title: string;
+  badges: BadgeDefinition[];
+}
+
+export interface BadgeItem extends BadgeDefinition, Omit<BadgeStatus, "id"> {}
+
 export interface BadgeSection {
   id: string;
   title: string;
   badges: BadgeItem[];
 }
 
-// Mock data for all badge categories
-export const mockBadgeData: BadgeSection[] = [
+// Every badge, grouped by section
+export const BADGE_SECTIONS: BadgeSectionDefinition[] = [
   {
     id: "creator-score",
     title: "Creator Score",
@@ -45,42 +67,42 @@ export const mockBadgeData: BadgeSection[] = [
         name: "Level 1",
         description: "Reach Creator Score Level 1",
         icon: Trophy,
-        completed: true,
+        rule: { type: "level", level: 1 },
       },
       {
         id: "level-2",
         name: "Level 2",
         description: "Reach Creator Score Level 2",
         icon: Trophy,
-        completed: true,
+        rule: { type: "level", level: 2 },
       },
       {
         id: "level-3",
         name: "Level 3",
         description: "Reach Creator Score Level 3",
         icon: Trophy,
-        completed: false,
+        rule: { type: "level", level: 3 },
       },
       {
         id: "level-4",
         name: "Level 4",
         description: "Reach Creator Score Level 4",
         icon: Trophy,
-        completed: false,
+        rule: { type: "level", level: 4 },
       },
       {
         id: "level-5",
         name: "Level 5",
         description: "Reach Creator Score Level 5",
         icon: Trophy,
-        completed: false,
+        rule: { type: "level", level: 5 },
       },
       {
         id: "level-6",
         name: "Level 6",
         description: "Reach Creator Score Level 6",
         icon: Trophy,
-        completed: false,
+        rule: { type: "level", level: 6 },
       },
     ],
   },
@@ -93,42 +115,66 @@ export const mockBadgeData: BadgeSection[] = [
         name: "X",
         description: "Connect your X account and have followers",
         icon: MessageSquare,
-        completed: true,
+        rule: {
+          type: "platform",
+          socialSources: ["twitter"],
+          credentialSlugs: ["twitter_followers"],
+        },
       },
       {
         id: "zora",
         name: "Zora",
         description: "Connect your Zora account and have collectors",
         icon: Globe,
-        completed: false,
+        rule: {
+          type: "platform",
+          socialSources: ["zora"],
+          credentialSlugs: ["zora_unique_holders"],
+        },
       },
       {
         id: "farcaster",
         name: "Farcaster",
         description: "Connect your Farcaster account and have followers",
         icon: MessageCircle,
-        completed: true,
+        rule: {
+          type: "platform",
+          socialSources: ["farcaster"],
+          credentialSlugs: ["farcaster_followers"],
+        },
       },
       {
         id: "mirror",
         name: "Mirror",
         description: "Connect your Mirror account and have followers",
         icon: Link,
-        completed: false,
+        rule: {
+          type: "platform",
+          socialSources: ["mirror"],
+          credentialSlugs: ["mirror_unique_collectors"],
+        },
       },
       {
         id: "paragraph",
         name: "Paragraph",
         description: "Connect your Paragraph account and have followers",
         icon: FileText,
-        completed: false,
+        rule: {
+          type: "platform",
+          socialSources: ["paragraph"],
+          credentialSlugs: ["paragraph_unique_collectors"],
+        },
       },
       {
         id: "lens",
         name: "Lens",
         description: "Connect your Lens account and have followers",
         icon: Globe,
-        completed: false,
+        rule: {
+          type: "platform",
+          socialSources: ["lens"],
+          credentialSlugs: ["lens_followers"],
+        },
       },
     ],
   },
@@ -141,140 +187,140 @@ export const mockBadgeData: BadgeSection[] = [
         name: "100 Followers",
         description: "Reach 100 followers across all platforms",
         icon: Users,
-        completed: true,
+        rule: { type: "followers", min: 100 },
       },
       {
         id: "1k-followers",
         name: "1K Followers",
         description: "Reach 1,000 followers across all platforms",
         icon: Users,
-        completed: true,
+        rule: { type: "followers", min: 1_000 },
       },
       {
         id: "10k-followers",
         name: "10K Followers",
         description: "Reach 10,000 followers across all platforms",
         icon: Users,
-        completed: false,
+        rule: { type: "followers", min: 10_000 },
       },
       {
         id: "100k-followers",
         name: "100K Followers",
         description: "Reach 100,000 followers across all platforms",
         icon: Users,
-        completed: false,
+        rule: { type: "followers", min: 100_000 },
       },
       {
         id: "1m-followers",
         name: "1M Followers",
         description: "Reach 1,000,000 followers across all platforms",
         icon: Users,
-        completed: false,
+        rule: { type: "followers", min: 1_000_000 },
       },
       {
         id: "10-earnings",
         name: "$10 Earnings",
         description: "Earn $10 from your content",
         icon: DollarSign,
-        completed: true,
+        rule: { type: "earnings", min: 10 },
       },
       {
         id: "100-earnings",
         name: "$100 Earnings",
         description: "Earn $100 from your content",
         icon: DollarSign,
-        completed: false,
+        rule: { type: "earnings", min: 100 },
       },
       {
         id: "1k-earnings",
         name: "$1k Earnings",
         description: "Earn $1,000 from your content",
         icon: DollarSign,
-        completed: false,
+        rule: { type: "earnings", min: 1_000 },
       },
       {
         id: "10k-earnings",
         name: "$10k Earnings",
         description: "Earn $10,000 from your content",
         icon: DollarSign,
-        completed: false,
+        rule: { type: "earnings", min: 10_000 },
       },
       {
         id: "100k-earnings",
         name: "$100k Earnings",
         description: "Earn $100,000 from your content",
         icon: DollarSign,
-        completed: false,
+        rule: { type: "earnings", min: 100_000 },
       },
       {
         id: "10-posts",
         name: "10 Posts",
         description: "Publish 10 posts",
         icon: FileText,
-        completed: true,
+        rule: { type: "posts", min: 10 },
       },
       {
         id: "100-posts",
         name: "100 Posts",
         description: "Publish 100 posts",
         icon: FileText,
-        completed: true,
+        rule: { type: "posts", min: 100 },
       },
       {
         id: "1k-posts",
         name: "1K Posts",
         description: "Publish 1,000 posts",
         icon: FileText,
-        completed: false,
+        rule: { type: "posts", min: 1_000 },
       },
       {
         id: "10k-posts",
         name: "10K Posts",
         description: "Publish 10,000 posts",
         icon: FileText,
-        completed: false,
+        rule: { type: "posts", min: 10_000 },
       },
       {
         id: "1-year-onchain",
         name: "1 Year Onchain",
         description: "Be active onchain for 1 year",
         icon: Calendar,
-        completed: true,
+        rule: { type: "yearsOnchain", years: 1 },
       },
       {
         id: "2-years-onchain",
         name: "2 Years Onchain",
         description: "Be active onchain for 2 years",
         icon: Calendar,
-        completed: true,
+        rule: { type: "yearsOnchain", years: 2 },
       },
       {
         id: "3-years-onchain",
         name: "3 Years Onchain",
         description: "Be active onchain for 3 years",
         icon: Calendar,
-        completed: false,
+        rule: { type: "yearsOnchain", years: 3 },
       },
       {
         id: "4-years-onchain",
         name: "4 Years Onchain",
         description: "Be active onchain for 4 years",
         icon: Calendar,
-        completed: false,
+        rule: { type: "yearsOnchain", years: 4 },
       },
       {
         id: "5-years-onchain",
         name: "5 Years Onchain",
         description: "Be active onchain for 5 years",
         icon: Calendar,
-        completed: false,
+        rule: { type: "yearsOnchain", years: 5 },
       },
       {
         id: "10-years-onchain",
         name: "10 Years Onchain",
         description: "Be active onchain for 10 years",
         icon: Calendar,
-        completed: false,
+        rule: { type: "yearsOnchain", years: 10 },
       },
     ],
   },
@@ -287,42 +333,45 @@ export const mockBadgeData: BadgeSection[] = [
         name: "Writing",
         description: "Publish written content",
         icon: PenTool,
-        completed: true,
+        rule: { type: "category", category: "Writer" },
       },
       {
         id: "music",
         name: "Music",
         description: "Create and share music",
         icon: Music,
-        completed: false,
+        rule: { type: "category", category: "Music" },
       },
       {
         id: "podcast",
         name: "Podcast",
         description: "Host or appear on podcasts",
         icon: Mic,
-        completed: false,
+        rule: { type: "category", category: "Podcast" },
       },
       {
         id: "visual",
         name: "Visual",
         description: "Create visual art and content",
         icon: Palette,
-        completed: true,
+        rule: { type: "category", category: "Artist" },
       },
       {
         id: "social",
         name: "Social",
         description: "Engage actively on social platforms",
         icon: MessageCircle,
-        completed: true,
+        rule: { type: "category", category: "Social" },
       },
       {
         id: "coin",
         name: "Coin",
         description: "Create or launch a token",
         icon: Coins,
-        completed: false,
+        rule: {
+          type: "credential",
+          slugs: ["zora_coin_earnings", "flaunch_earnings"],
+        },
       },
     ],
   },
@@ -335,56 +384,56 @@ export const mockBadgeData: BadgeSection[] = [
         name: "2 Weeks in a Row",
         description: "Publish posts for 2 consecutive weeks",
         icon: Calendar,
-        completed: true,
+        rule: { type: "streak", unit: "week", count: 2 },
       },
       {
         id: "3-weeks",
         name: "3 Weeks in a Row",
         description: "Publish posts for 3 consecutive weeks",
         icon: Calendar,
-        completed: true,
+        rule: { type: "streak", unit: "week", count: 3 },
       },
       {
         id: "4-weeks",
         name: "4 Weeks in a Row",
         description: "Publish posts for 4 consecutive weeks",
         icon: Calendar,
-        completed: false,
+        rule: { type: "streak", unit: "week", count: 4 },
       },
       {
         id: "5-weeks",
         name: "5 Weeks in a Row",
         description: "Publish posts for 5 consecutive weeks",
         icon: Calendar,
-        completed: false,
+        rule: { type: "streak", unit: "week", count: 5 },
       },
       {
         id: "6-weeks",
         name: "6 Weeks in a Row",
         description: "Publish posts for 6 consecutive weeks",
         icon: Calendar,
-        completed: false,
+        rule: { type: "streak", unit: "week", count: 6 },
       },
       {
         id: "7-weeks",
         name: "7 Weeks in a Row",
         description: "Publish posts for 7 consecutive weeks",
         icon: Calendar,
-        completed: false,
+        rule: { type: "streak", unit: "week", count: 7 },
       },
       {
         id: "2-months",
         name: "2 Months in a Row",
         description: "Publish posts for 2 consecutive months",
         icon: Clock,
-        completed: false,
+        rule: { type: "streak", unit: "month", count: 2 },
       },
       {
         id: "3-months",
         name: "3 Months in a Row",
         description: "Publish posts for 3 consecutive months",
         icon: Clock,
-        completed: false,
+        rule: { type: "streak", unit: "month", count: 3 },
       },
     ],
   },
@@ -397,22 +446,80 @@ export const mockBadgeData: BadgeSection[] = [
         name: "Zora",
         description: "Participate in Zora airdrops",
         icon: Gift,
-        completed: true,
+        rule: { type: "credential", slugs: ["zora_airdrop_one"] },
       },
       {
         id: "kaito-airdrop",
         name: "Kaito",
         description: "Participate in Kaito airdrops",
         icon: Zap,
-        completed: false,
+        rule: { type: "credential", slugs: ["kaito_airdrop_one"] },
       },
       {
         id: "bonsai-airdrop",
         name: "Bonsai",
         description: "Participate in Bonsai airdrops",
         icon: Gift,
-        completed: false,
+        rule: { type: "credential", slugs: ["bonsai_airdrop"] },
       },
     ],
   },
 ];
+
+/**
+ * Fills in each badge's status; badges the server didn't evaluate are left out
+ */
+export function toBadgeSections(statuses: BadgeStatus[]): BadgeSection[] {
+  const byId = new Map(statuses.map((status) => [status.id, status]));
+  return BADGE_SECTIONS.map((section) => ({
+    ...section,
+    badges: section.badges.flatMap((badge) => {
+      const status = byId.get(badge.id);
+      return status ? [{ ...badge, ...status }] : [];
+    }),
+  }));
+}
+
+function plural(count: number, unit: string): string {
+  return `${count.toLocaleString()} more ${unit}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * What's left to unlock a badge, e.g. "60 more followers to unlock";
+ * null once it's unlocked or when there's nothing to count
+ */
+export function getBadgeRemainingText(badge: BadgeItem): string | null {
+  if (badge.completed || !Number.isFinite(badge.target)) {
+    return null;
+  }
+
+  const remaining = Math.ceil(badge.target - badge.current);
+  const { rule } = badge;
+  switch (rule.type) {
+    case "level":
+      return `${plural(remaining, "point")} to unlock`;
+    case "followers":
+      return `${plural(remaining, "follower")} to unlock`;
+    case "earnings":
+      return `$${remaining.toLocaleString()} more in earnings to unlock`;
+    case "posts":
+      return `${plural(remaining, "post")} to unlock`;
+    case "yearsOnchain":
+      return `${plural(remaining, "year")} onchain to unlock`;
+    case "streak":
+      return `${plural(remaining, rule.unit)} in a row to unlock`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Locked badges nearest to their target first, unlocked badges last
+ */
+export function sortByClosestToUnlocking(badges: BadgeItem[]): BadgeItem[] {
+  return [...badges].sort(
+    (a, b) =>
+      Number(a.completed) - Number(b.completed) ||
+      b.progressPercent - a.progressPercent,
+  );
+}
@@ -0,0 +1,242 @@
+import { talentApiClient } from "./talent-api-client";
+import {
+  getEthUsdcPrice,
+  calculateTotalFollowers,
+  parseReadableValue,
+} from "./utils";
+import { readJson } from "./api-utils";
+import type {
+  TalentScoreApiResponse,
+  TalentSocialsApiResponse,
+} from "./talent-api-schemas";
+import { fetchAllPosts } from "./posts";
+import { LEVEL_RANGES } from "./constants";
+import { processCreatorCategories } from "./credentialUtils";
+import { BADGE_SECTIONS, type BadgeRule } from "./badge-data";
+import { calculatePostingStreaks, type PostingStreaks } from "./streaks";
+import { withBadgeAwards } from "./badge-awards";
+import { getCreatorTimeZone } from "./creator-timezones";
+import { parseScoreResponse } from "@/app/services/scoresService";
+import { transformSocialAccounts } from "@/app/services/socialAccountsService";
+import { groupCredentialsByIssuer } from "@/app/services/credentialsService";
+import { getTotalEarningsFromCredentials } from "@/app/services/earningsService";
+import {
+  SCORER_SLUGS,
+  type BadgeSource,
+  type BadgeStatus,
+  type BadgesResponse,
+  type CredentialsResponse,
+  type IssuerCredentialGroup,
+  type Post,
+  type SocialAccount,
+} from "@/app/services/types";
+
+// Account age credentials, in days unless their unit says otherwise
+const ACCOUNT_AGE_SLUGS = [
+  "onchain_account_age",
+  "ens_account_age",
+  "farcaster_account_age",
+  "lens_account_age",
+  "twitter_account_age",
+];
+
+const DAYS_PER_YEAR = 365;
+
+export interface BadgeInputs {
+  score: number;
+  socialAccounts: SocialAccount[];
+  credentials: IssuerCredentialGroup[];
+  totalEarnings: number;
+  posts: Post[];
+  streaks: PostingStreaks;
+}
+
+function getCredentialPoints(
+  credentials: IssuerCredentialGroup[],
+): Map<string, IssuerCredentialGroup["points"][number]> {
+  const points = new Map<string, IssuerCredentialGroup["points"][number]>();
+  credentials.forEach((group) =>
+    group.points.forEach((point) => {
+      if (point.slug) points.set(point.slug, point);
+    }),
+  );
+  return points;
+}
+
+function getYearsOnchain(credentials: IssuerCredentialGroup[]): number {
+  const points = getCredentialPoints(credentials);
+  return ACCOUNT_AGE_SLUGS.reduce((years, slug) => {
+    const point = points.get(slug);
+    if (!point) return years;
+
+    const age = parseReadableValue(point.readable_value);
+    return Math.max(
+      years,
+      point.uom?.startsWith("year") ? age : age / DAYS_PER_YEAR,
+    );
+  }, 0);
+}
+
+function hasCredentialPoints(
+  credentials: IssuerCredentialGroup[],
+  slugs: string[],
+): boolean {
+  const points = getCredentialPoints(credentials);
+  return slugs.some((slug) => (points.get(slug)?.value ?? 0) > 0);
+}
+
+type BadgeMeasure = Pick<BadgeStatus, "current" | "target" | "source">;
+
+// Yes/no rules count as 0 or 1 out of 1
+function measureMet(met: boolean, source: BadgeSource): BadgeMeasure {
+  return { current: met ? 1 : 0, target: 1, source };
+}
+
+/**
+ * Measures a creator's progress towards a badge's rule
+ */
+export function measureBadgeRule(
+  rule: BadgeRule,
+  inputs: BadgeInputs,
+): BadgeMeasure {
+  switch (rule.type) {
+    case "level":
+      return {
+        current: inputs.score,
+        target: LEVEL_RANGES[rule.level - 1]?.min ?? Infinity,
+        source: "score",
+      };
+    case "platform": {
+      const hasFollowers = inputs.socialAccounts.some(
+        (account) =>
+          rule.socialSources.includes(account.source) &&
+          (account.followerCount ?? 0) > 0,
+      );
+      return hasFollowers
+        ? measureMet(true, "socials")
+        : measureMet(
+            hasCredentialPoints(inputs.credentials, rule.credentialSlugs),
+            "credentials",
+          );
+    }
+    case "followers":
+      return {
+        current: calculateTotalFollowers(inputs.socialAccounts),
+        target: rule.min,
+        source: "socials",
+      };
+    case "earnings":
+      return {
+        current: Math.round(inputs.totalEarnings * 100) / 100,
+        target: rule.min,
+        source: "credentials",
+      };
+    case "posts":
+      return {
+        current: inputs.posts.length,
+        target: rule.min,
+        source: "posts",
+      };
+    case "yearsOnchain":
+      return {
+        // Whole years, so a badge isn't shown as reached a few days early
+        current: Math.floor(getYearsOnchain(inputs.credentials)),
+        target: rule.years,
+        source: "credentials",
+      };
+    case "category":
+      return measureMet(
+        (processCreatorCategories(inputs.credentials).categories.find(
+          (category) => category.name === rule.category,
+        )?.points ?? 0) > 0,
+        "credentials",
+      );
+    case "credential":
+      return measureMet(
+        hasCredentialPoints(inputs.credentials, rule.slugs),
+        "credentials",
+      );
+    case "streak": {
+      const streak =
+        rule.unit === "week" ? inputs.streaks.weekly : inputs.streaks.monthly;
+      // Once reached the badge is kept; until then, progress is the streak still going
+      return {
+        current: streak.longest >= rule.count ? streak.longest : streak.current,
+        target: rule.count,
+        source: "posts",
+      };
+    }
+  }
+}
+
+export function computeBadges(inputs: BadgeInputs): BadgeStatus[] {
+  return BADGE_SECTIONS.flatMap((section) =>
+    section.badges.map((badge) => {
+      const measure = measureBadgeRule(badge.rule, inputs);
+      const completed = measure.current >= measure.target;
+      return {
+        id: badge.id,
+        completed,
+        ...measure,
+        progressPercent: completed
+          ? 100
+          : Math.floor((measure.current / measure.target) * 100),
+        earnedAt: null,
+      };
+    }),
+  );
+}
+
+async function loadBadgeInputs(talentUuid: string): Promise<BadgeInputs> {
+  const [scoreData, socialsData, credentialsData, posts, ethPrice, timeZone] =
+    await Promise.all([
+      readJson<TalentScoreApiResponse>(
+        talentApiClient.getScore({
+          talent_protocol_id: talentUuid,
+          scorer_slug: SCORER_SLUGS.CREATOR,
+        }),
+      ),
+      readJson<TalentSocialsApiResponse>(
+        talentApiClient.getSocials({ talent_protocol_id: talentUuid }),
+      ),
+      readJson<CredentialsResponse>(
+        talentApiClient.getCredentials({
+          talent_protocol_id: talentUuid,
+          scorer_slug: SCORER_SLUGS.CREATOR,
+        }),
+      ),
+      fetchAllPosts(talentUuid),
+      getEthUsdcPrice(),
+      getCreatorTimeZone(talentUuid),
+    ]);
+  const credentials = groupCredentialsByIssuer(credentialsData.credentials);
+
+  return {
+    score: parseScoreResponse(scoreData).score,
+    socialAccounts: transformSocialAccounts(socialsData.socials),
+    credentials,
+    totalEarnings: await getTotalEarningsFromCredentials(credentials, ethPrice),
+    posts,
+    streaks: calculatePostingStreaks(posts, timeZone),
+  };
+}
+
+/**
+ * Evaluates every badge for a creator from their score, socials, credentials and posts.
+ * With recordAwards, the ones unlocked for the first time are recorded and notified.
+ * Posting streaks follow the creator's own time zone, so recorded awards don't
+ * depend on who happened to be viewing.
+ */
+export async function getBadges(
+  talentUuid: string,
+  recordAwards: boolean = false,
+): Promise<BadgesResponse> {
+  return {
+    talentUuid,
+    badges: await withBadgeAwards(
+      talentUuid,
+      computeBadges(await loadBadgeInputs(talentUuid)),
+      recordAwards,
+    ),
+  };
+}
@@ -0,0 +1,197 @@
+import { redis } from "./redis";
+import { talentApiClient } from "./talent-api-client";
+import { fetchFullLeaderboard, rankByScore } from "./leaderboard";
+import { getSelfReportedCategories } from "./creator-categories";
+import { getHiddenIds, withoutHidden } from "./moderation";
+import {
+  CREATOR_CATEGORIES,
+  processCreatorCategories,
+  type CreatorCategoryType,
+} from "./credentialUtils";
+import { groupCredentialsByIssuer } from "@/app/services/credentialsService";
+import {
+  SCORER_SLUGS,
+  type CategoryLeaderboard,
+  type LeaderboardEntry,
+} from "@/app/services/types";
+
+// Top creators by Creator Score whose credentials are checked on each refresh
+const CANDIDATE_COUNT = 500;
+// Credential requests sent to the Talent API at a time
+const CREDENTIALS_BATCH_SIZE = 10;
+// Creators kept per category
+const CATEGORY_LEADERBOARD_SIZE = 200;
+
+type Candidate = Pick<
+  LeaderboardEntry,
+  "id" | "talent_protocol_id" | "name" | "pfp"
+>;
+
+type CategoryPoints = Record<CreatorCategoryType, number>;
+
+function getCategoryLeaderboardKey(category: CreatorCategoryType): string {
+  return `category_leaderboards:${category}`;
+}
+
+async function fetchCategoryPoints(
+  talentUuid: string,
+): Promise<CategoryPoints | null> {
+  const res = await talentApiClient.getCredentials({
+    talent_protocol_id: talentUuid,
+    scorer_slug: SCORER_SLUGS.CREATOR,
+  });
+  if (!res.ok) return null;
+
+  const data = await res.json();
+  const breakdown = processCreatorCategories(
+    groupCredentialsByIssuer(data.credentials || []),
+  );
+  return Object.fromEntries(
+    breakdown.categories.map((category) => [category.name, category.points]),
+  ) as CategoryPoints;
+}
+
+// Self-reported creators outside the top candidates still need a name and avatar
+async function fetchCandidate(talentUuid: string): Promise<Candidate | null> {
+  const res = await talentApiClient.getProfile({ id: talentUuid });
+  if (!res.ok) return null;
+
+  const profile = await res.json();
+  return {
+    id: talentUuid,
+    talent_protocol_id: talentUuid,
+    name: profile.display_name || profile.name || "Unknown",
+    pfp: profile.image_url || undefined,
+  };
+}
+
+async function inBatches<T, R>(
+  items: T[],
+  load: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += CREDENTIALS_BATCH_SIZE) {
+    const batch = items.slice(i, i + CREDENTIALS_BATCH_SIZE);
+    results.push(
+      ...(await Promise.all(
+        batch.map((item) =>
+          load(item).catch((error) => {
+            console.error("[categoryLeaderboards] Failed to load:", error);
+            return null as R;
+          }),
+        ),
+      )),
+    );
+  }
+  return results;
+}
+
+/**
+ * Ranks creators by their points in each category's credentials.
+ * Creators are drawn from the top of the Creator Score leaderboard, plus anyone
+ * who picked a category for themselves, who is always listed in that category.
+ * Hidden profiles are left out.
+ */
+export async function computeCategoryLeaderboards(
+  apiKey: string,
+): Promise<Record<CreatorCategoryType, LeaderboardEntry[]>> {
+  const [topCreators, selfReported, hiddenIds] = await Promise.all([
+    fetchFullLeaderboard(SCORER_SLUGS.CREATOR, 1, apiKey, CANDIDATE_COUNT),
+    getSelfReportedCategories(),
+    getHiddenIds(),
+  ]);
+
+  const candidates: Candidate[] = withoutHidden(topCreators, hiddenIds).map(
+    (entry) => ({
+      id: entry.id,
+      talent_protocol_id: String(entry.talent_protocol_id),
+      name: entry.name,
+      pfp: entry.pfp,
+    }),
+  );
+  const candidateIds = new Set(candidates.map((candidate) => candidate.id));
+  const extras = await inBatches(
+    Object.keys(selfReported).filter(
+      (id) => !candidateIds.has(id) && !hiddenIds.has(id),
+    ),
+    fetchCandidate,
+  );
+  candidates.push(...extras.filter((extra): extra is Candidate => !!extra));
+
+  const points = await inBatches(candidates, (candidate) =>
+    fetchCategoryPoints(candidate.id),
+  );
+
+  const categories = Object.keys(CREATOR_CATEGORIES) as CreatorCategoryType[];
+  return Object.fromEntries(
+    categories.map((category) => {
+      const members = candidates.flatMap((candidate, index) => {
+        const score = points[index]?.[category] ?? 0;
+        const isSelfReported = selfReported[candidate.id] === category;
+        return score > 0 || isSelfReported
+          ? [{ ...candidate, score, rewards: "-" }]
+          : [];
+      });
+      return [
+        category,
+        rankByScore(members).slice(0, CATEGORY_LEADERBOARD_SIZE),
+      ];
+    }),
+  ) as Record<CreatorCategoryType, LeaderboardEntry[]>;
+}
+
+/**
+ * Recomputes every category leaderboard and stores it for readers
+ */
+export async function refreshCategoryLeaderboards(
+  apiKey: string,
+): Promise<Record<CreatorCategoryType, number>> {
+  const leaderboards = await computeCategoryLeaderboards(apiKey);
+  const updatedAt = new Date().toISOString();
+
+  if (redis) {
+    for (const [category, entries] of Object.entries(leaderboards)) {
+      const leaderboard: CategoryLeaderboard = {
+        category: category as CreatorCategoryType,
+        entries,
+        updatedAt,
+      };
+      await redis.set(
+        getCategoryLeaderboardKey(category as CreatorCategoryType),
+        leaderboard,
+      );
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(leaderboards).map(([category, entries]) => [
+      category,
+      entries.length,
+    ]),
+  ) as Record<CreatorCategoryType, number>;
+}
+
+/**
+ * Returns the last computed leaderboard for a category, or null before the first refresh.
+ * Profiles hidden since then are left out straight away, and the rest ranked again.
+ */
+export async function getCategoryLeaderboard(
+  category: CreatorCategoryType,
+): Promise<CategoryLeaderboard | null> {
+  if (!redis) {
+    return null;
+  }
+
+  const [leaderboard, hiddenIds] = await Promise.all([
+    redis.get<CategoryLeaderboard>(getCategoryLeaderboardKey(category)),
+    getHiddenIds(),
+  ]);
+  if (!leaderboard || hiddenIds.size === 0) {
+    return leaderboard;
+  }
+
+  return {
+    ...leaderboard,
+    entries: rankByScore(withoutHidden(leaderboard.entries, hiddenIds)),
+  };
+}
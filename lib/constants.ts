@@ -11,6 +11,45 @@ export function getLocalBaseUrl(): string {
   return `http://localhost:${DEV_PORT}`;
 }
 
+/**
+ * Get the Talent Protocol API base URL.
+ * Set TALENT_API_BASE_URL to point at the local mock server (`npm run mock:api`)
+ */
+export function getTalentApiBaseUrl(): string {
+  return (
+    process.env.TALENT_API_BASE_URL || "https://api.talentprotocol.com"
+  ).replace(/\/+$/, "");
+}
+
+/**
+ * Get the Neynar API base URL override, if any.
+ * Returns undefined so the Neynar SDK falls back to its own default
+ */
+export function getNeynarApiBaseUrl(): string | undefined {
+  return process.env.NEYNAR_API_BASE_URL?.replace(/\/+$/, "") || undefined;
+}
+
+/**
+ * Get the Base RPC URL override, if any.
+ * Set BASE_RPC_URL to point at a local chain; otherwise viem uses Base's public RPC
+ */
+export function getBaseRpcUrl(): string | undefined {
+  return process.env.BASE_RPC_URL || undefined;
+}
+
+/**
+ * Get the FIDs allowed to moderate the leaderboard, from a comma-separated MODERATION_ADMIN_FIDS
+ */
+export function getModerationAdminFids(): number[] {
+  return (process.env.MODERATION_ADMIN_FIDS || "")
+    .split(",")
+    .map((fid) => Number(fid.trim()))
+    .filter((fid) => Number.isInteger(fid) && fid > 0);
+}
+
+// USDC on Base, the token rewards pools are funded with
+export const BASE_USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
 export const LEVEL_RANGES = [
   { min: 0, max: 39, name: "Level 1" },
   { min: 40, max: 79, name: "Level 2" },
@@ -36,6 +75,27 @@ export const PLATFORM_NAMES: Record<string, string> = {
   telegram: "Telegram",
 } as const;
 
+// Server-side (Redis) cache lifetimes per Talent API endpoint, in seconds
+export const TALENT_API_CACHE_TTLS: Record<
+  string,
+  { ttl: number; staleWhileRevalidate: number }
+> = {
+  "/score": { ttl: 5 * 60, staleWhileRevalidate: 10 * 60 },
+  "/credentials": { ttl: 30 * 60, staleWhileRevalidate: 60 * 60 },
+  "/socials": { ttl: 60 * 60, staleWhileRevalidate: 6 * 60 * 60 },
+  "/profile": { ttl: 30 * 60, staleWhileRevalidate: 6 * 60 * 60 },
+  "/accounts": { ttl: 30 * 60, staleWhileRevalidate: 60 * 60 },
+  "/human_checkmark": { ttl: 60 * 60, staleWhileRevalidate: 6 * 60 * 60 },
+  "/creator_posts/profile_posts": {
+    ttl: 30 * 60,
+    staleWhileRevalidate: 60 * 60,
+  },
+  "/search/advanced/profiles": { ttl: 5 * 60, staleWhileRevalidate: 10 * 60 },
+};
+
+// Set by middleware to the requested path and query, which layouts aren't given
+export const REQUEST_PATH_HEADER = "x-request-path";
+
 // List of reserved words that cannot be used as profile identifiers
 export const RESERVED_WORDS = [
   "api",
@@ -116,3 +176,24 @@ export function validateEnvironmentVariables() {
 if (typeof window === "undefined") {
   validateEnvironmentVariables();
 }
+
+// Score calculation tracking after a refresh
+export const SCORE_CALCULATION_POLLING = {
+  MIN_DELAY_MS: 2 * 1000,
+  MAX_DELAY_MS: 30 * 1000,
+  CLIENT_TIMEOUT_MS: 10 * 60 * 1000, // 10 minutes before the client gives up
+  SERVER_TIMEOUT_MS: 2 * 60 * 60 * 1000, // 2 hours before the server stops watching
+} as const;
+
+// Server-enforced limits on score refreshes
+export const SCORE_REFRESH_LIMITS = {
+  COOLDOWN_SECONDS: 60 * 60, // 1 hour between refreshes of the same profile
+  RATE_LIMIT_MAX: 5, // refreshes a single user can trigger per window
+  RATE_LIMIT_WINDOW_SECONDS: 60 * 60,
+} as const;
+
+// Automatic moderation flags, raised by the daily snapshot job when MODERATION_AUTO_FLAGS=true
+export const MODERATION_AUTO_FLAGS = {
+  SCORE_SPIKE_PER_DAY: 100, // points gained since the previous day's snapshot
+  HUMANITY_CHECK_TOP: 100, // top of the snapshot checked for a humanity credential
+} as const;
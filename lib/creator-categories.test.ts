@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { isCreatorCategory } from "./creator-categories";
+import { CREATOR_CATEGORIES } from "./credentialUtils";
+
+describe("isCreatorCategory", () => {
+  it("accepts every creator category", () => {
+    for (const category of Object.keys(CREATOR_CATEGORIES)) {
+      expect(isCreatorCategory(category)).toBe(true);
+    }
+  });
+
+  it("rejects names inherited from Object.prototype", () => {
+    for (const name of [
+      "toString",
+      "constructor",
+      "__proto__",
+      "hasOwnProperty",
+    ]) {
+      expect(isCreatorCategory(name)).toBe(false);
+    }
+  });
+
+  it("rejects unknown and non-string values", () => {
+    expect(isCreatorCategory("Dancer")).toBe(false);
+    expect(isCreatorCategory("artist")).toBe(false);
+    expect(isCreatorCategory(null)).toBe(false);
+    expect(isCreatorCategory(1)).toBe(false);
+  });
+});
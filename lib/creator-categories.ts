@@ -0,0 +1,54 @@
+import { redis } from "./redis";
+import {
+  CREATOR_CATEGORIES,
+  type CreatorCategoryType,
+} from "./credentialUtils";
+
+// Self-reported categories for every profile, keyed by Talent UUID
+const SELF_REPORTED_CATEGORIES_KEY = "creator_categories:self_reported";
+
+// Own keys only, so names inherited from Object.prototype aren't taken for categories
+export function isCreatorCategory(
+  value: unknown,
+): value is CreatorCategoryType {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(CREATOR_CATEGORIES, value)
+  );
+}
+
+/**
+ * Stores the category a creator picked for themselves, or clears it when null
+ */
+export async function setSelfReportedCategory(
+  talentUuid: string,
+  category: CreatorCategoryType | null,
+): Promise<void> {
+  if (!redis) {
+    return;
+  }
+
+  if (category) {
+    await redis.hset(SELF_REPORTED_CATEGORIES_KEY, { [talentUuid]: category });
+  } else {
+    await redis.hdel(SELF_REPORTED_CATEGORIES_KEY, talentUuid);
+  }
+}
+
+export async function getSelfReportedCategories(): Promise<
+  Record<string, CreatorCategoryType>
+> {
+  if (!redis) {
+    return {};
+  }
+
+  const categories =
+    (await redis.hgetall<Record<string, string>>(
+      SELF_REPORTED_CATEGORIES_KEY,
+    )) ?? {};
+  return Object.fromEntries(
+    Object.entries(categories).filter(([, category]) =>
+      isCreatorCategory(category),
+    ),
+  ) as Record<string, CreatorCategoryType>;
+}
@@ -0,0 +1,35 @@
+import { redis } from "./redis";
+import { resolveTimeZone } from "./streaks";
+
+// Each creator's IANA time zone, keyed by Talent UUID, used for their posting streaks
+const CREATOR_TIME_ZONES_KEY = "creator_timezones";
+
+/**
+ * Stores the time zone reported by a creator's own signed-in browser.
+ * Anything Intl doesn't recognise is stored as UTC.
+ */
+export async function setCreatorTimeZone(
+  talentUuid: string,
+  timeZone: string,
+): Promise<void> {
+  if (!redis) {
+    return;
+  }
+
+  await redis.hset(CREATOR_TIME_ZONES_KEY, {
+    [talentUuid]: resolveTimeZone(timeZone),
+  });
+}
+
+/**
+ * A creator's time zone, or UTC until they've reported one
+ */
+export async function getCreatorTimeZone(talentUuid: string): Promise<string> {
+  if (!redis) {
+    return "UTC";
+  }
+
+  return resolveTimeZone(
+    await redis.hget<string>(CREATOR_TIME_ZONES_KEY, talentUuid),
+  );
+}
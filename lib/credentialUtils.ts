@@ -65,6 +65,96 @@ export function sortCredentialsByTotal(
   ];
 }
 
+export interface CredentialChange {
+  issuer: string;
+  label: string;
+  slug?: string;
+  type: "added" | "removed" | "changed";
+  previousPoints: number;
+  currentPoints: number;
+  pointsDelta: number;
+  previousReadableValue: string | null;
+  currentReadableValue: string | null;
+  uom: string | null;
+}
+
+type CredentialPoint = IssuerCredentialGroup["points"][number];
+
+// Slugs are stable across refreshes; fall back to issuer + label for older data
+function getCredentialKey(issuer: string, point: CredentialPoint): string {
+  return point.slug || `${issuer}:${point.label}`;
+}
+
+function indexCredentials(
+  credentials: IssuerCredentialGroup[],
+): Map<string, { issuer: string; point: CredentialPoint }> {
+  const index = new Map<string, { issuer: string; point: CredentialPoint }>();
+  credentials.forEach((group) => {
+    group.points.forEach((point) => {
+      index.set(getCredentialKey(group.issuer, point), {
+        issuer: group.issuer,
+        point,
+      });
+    });
+  });
+  return index;
+}
+
+// Compare two credential snapshots, biggest point swings first
+export function diffCredentials(
+  previous: IssuerCredentialGroup[],
+  current: IssuerCredentialGroup[],
+): CredentialChange[] {
+  const previousIndex = indexCredentials(previous);
+  const currentIndex = indexCredentials(current);
+  const changes: CredentialChange[] = [];
+
+  currentIndex.forEach(({ issuer, point }, key) => {
+    const before = previousIndex.get(key)?.point;
+    if (
+      before &&
+      before.value === point.value &&
+      before.readable_value === point.readable_value
+    ) {
+      return;
+    }
+
+    changes.push({
+      issuer,
+      label: point.label,
+      slug: point.slug,
+      type: before ? "changed" : "added",
+      previousPoints: before?.value ?? 0,
+      currentPoints: point.value,
+      pointsDelta: point.value - (before?.value ?? 0),
+      previousReadableValue: before?.readable_value ?? null,
+      currentReadableValue: point.readable_value,
+      uom: point.uom,
+    });
+  });
+
+  previousIndex.forEach(({ issuer, point }, key) => {
+    if (currentIndex.has(key)) return;
+
+    changes.push({
+      issuer,
+      label: point.label,
+      slug: point.slug,
+      type: "removed",
+      previousPoints: point.value,
+      currentPoints: 0,
+      pointsDelta: -point.value,
+      previousReadableValue: point.readable_value,
+      currentReadableValue: null,
+      uom: point.uom,
+    });
+  });
+
+  return changes.sort(
+    (a, b) => Math.abs(b.pointsDelta) - Math.abs(a.pointsDelta),
+  );
+}
+
 // Category mapping based on credential slugs
 export const CREDENTIAL_CATEGORIES = {
   // Artist
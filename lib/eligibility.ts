@@ -0,0 +1,77 @@
+import { talentApiClient } from "./talent-api-client";
+import { LEVEL_RANGES } from "./constants";
+import type {
+  EligibilityRule,
+  IneligibleReason,
+  LeaderboardEntry,
+  RewardsRound,
+} from "@/app/services/types";
+
+/**
+ * Lowest score a round's rules allow, from its minimum score and level rules
+ */
+export function getEligibilityMinScore(rules: EligibilityRule[]): number {
+  return rules.reduce((minScore, rule) => {
+    if (rule.type === "minScore") return Math.max(minScore, rule.score);
+    if (rule.type === "minLevel") {
+      return Math.max(minScore, LEVEL_RANGES[rule.level - 1]?.min ?? 0);
+    }
+    return minScore;
+  }, 1);
+}
+
+export function requiresHumanity(round: RewardsRound): boolean {
+  return round.eligibilityRules.some((rule) => rule.type === "humanity");
+}
+
+/**
+ * Whether a creator holds at least one verified humanity credential
+ */
+export async function isVerifiedHuman(talentId: string): Promise<boolean> {
+  const res = await talentApiClient.getHumanityCredentials({
+    talent_protocol_id: talentId,
+  });
+  if (!res.ok) {
+    throw new Error(`Humanity check failed with status ${res.status}`);
+  }
+
+  const data = await res.json();
+  return (data.credentials || []).some(
+    (credential: { points: number }) => credential.points > 0,
+  );
+}
+
+/**
+ * The first of the round's rules an entry misses, or null when it meets them all.
+ * Humanity is read from the profile's human checkmark.
+ */
+export function getIneligibleReason(
+  round: RewardsRound,
+  entry: Pick<LeaderboardEntry, "score" | "humanCheckmark">,
+): IneligibleReason | null {
+  for (const rule of round.eligibilityRules) {
+    if (rule.type === "minScore" && entry.score < rule.score) {
+      return "min_score";
+    }
+    if (
+      rule.type === "minLevel" &&
+      entry.score < (LEVEL_RANGES[rule.level - 1]?.min ?? 0)
+    ) {
+      return "min_level";
+    }
+    if (rule.type === "humanity" && !entry.humanCheckmark) {
+      return "humanity";
+    }
+  }
+  // Every round needs at least some score
+  return entry.score < round.eligibilityMinScore ? "min_score" : null;
+}
+
+/**
+ * Keeps the leaderboard entries that meet every one of the round's rules
+ */
+export function filterEligibleEntries<
+  T extends Pick<LeaderboardEntry, "score" | "humanCheckmark">,
+>(round: RewardsRound, entries: T[]): T[] {
+  return entries.filter((entry) => getIneligibleReason(round, entry) === null);
+}
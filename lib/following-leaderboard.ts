@@ -0,0 +1,150 @@
+import { getNeynarClient } from "./neynar-client";
+import { talentApiClient } from "./talent-api-client";
+import { resolveFidToTalentUuid } from "./user-resolver";
+import { getOrSetCached } from "./server-cache";
+import { rankByScore } from "./leaderboard";
+import { getRewardsRound } from "./rounds";
+import { getRewardsByTalentId } from "./payouts";
+import {
+  MODERATION_CACHE_TAG,
+  getHiddenIds,
+  withoutHidden,
+} from "./moderation";
+import {
+  SCORER_SLUGS,
+  type FollowingLeaderboardResponse,
+  type LeaderboardEntry,
+} from "@/app/services/types";
+
+// Following lists are capped so accounts that follow thousands stay fast; the
+// response is marked truncated when follows were left out
+const MAX_FOLLOWING = 500;
+// FIDs resolved to Talent UUIDs at a time
+const RESOLVE_BATCH_SIZE = 20;
+const FOLLOWING_LEADERBOARD_TTL_SECONDS = 10 * 60;
+
+type Member = {
+  fid: number;
+  name: string | null;
+  pfp: string | null;
+};
+
+async function getCreatorScore(talentUuid: string): Promise<number> {
+  const res = await talentApiClient.getScore({
+    talent_protocol_id: talentUuid,
+    scorer_slug: SCORER_SLUGS.CREATOR,
+  });
+  if (!res.ok) return 0;
+
+  const data = await res.json();
+  return data.score?.points ?? 0;
+}
+
+async function getProfileSummary(
+  talentUuid: string,
+): Promise<{ name: string | null; pfp: string | null }> {
+  const res = await talentApiClient.getProfile({ id: talentUuid });
+  if (!res.ok) return { name: null, pfp: null };
+
+  const profile = await res.json();
+  return { name: profile.display_name, pfp: profile.image_url };
+}
+
+async function toEntry(
+  member: Member,
+): Promise<Omit<LeaderboardEntry, "rank" | "rewards"> | null> {
+  const talentUuid = await resolveFidToTalentUuid(member.fid);
+  if (!talentUuid) return null;
+
+  const [score, profile] = await Promise.all([
+    getCreatorScore(talentUuid),
+    // Followed accounts come with their Farcaster name and avatar already
+    member.name
+      ? Promise.resolve({ name: member.name, pfp: member.pfp })
+      : getProfileSummary(talentUuid),
+  ]);
+
+  return {
+    id: talentUuid,
+    talent_protocol_id: talentUuid,
+    name: profile.name || "Unknown",
+    pfp: profile.pfp || undefined,
+    score,
+  };
+}
+
+/**
+ * Ranks the creators a viewer follows on Farcaster, and the viewer, by Creator Score.
+ * Followed accounts without a Talent profile or a Creator Score are left out, and so
+ * are hidden profiles.
+ */
+export async function getFollowingLeaderboard(
+  viewerFid: number,
+): Promise<FollowingLeaderboardResponse> {
+  return getOrSetCached(
+    `leaderboard:following:${viewerFid}`,
+    async () => {
+      const { users: following, truncated } =
+        await getNeynarClient().getFollowingRaw(viewerFid, MAX_FOLLOWING);
+      const members: Member[] = [
+        { fid: viewerFid, name: null, pfp: null },
+        ...following
+          .filter((user) => user.fid !== viewerFid)
+          .map((user) => ({
+            fid: user.fid,
+            name: user.displayName || user.username,
+            pfp: user.pfpUrl,
+          })),
+      ];
+
+      const loaded: (Omit<LeaderboardEntry, "rank" | "rewards"> | null)[] = [];
+      for (let i = 0; i < members.length; i += RESOLVE_BATCH_SIZE) {
+        loaded.push(
+          ...(await Promise.all(
+            members.slice(i, i + RESOLVE_BATCH_SIZE).map((member) =>
+              toEntry(member).catch((error) => {
+                console.error(
+                  `[followingLeaderboard] Failed to load fid ${member.fid}:`,
+                  error,
+                );
+                return null;
+              }),
+            ),
+          )),
+        );
+      }
+
+      // The viewer is always listed, even without a score yet
+      const [viewer, ...followed] = loaded;
+      const entries = withoutHidden(
+        [
+          ...(viewer ? [viewer] : []),
+          ...followed.filter(
+            (entry): entry is Omit<LeaderboardEntry, "rank" | "rewards"> =>
+              !!entry && entry.score > 0 && entry.id !== viewer?.id,
+          ),
+        ],
+        await getHiddenIds(),
+      );
+
+      const round = await getRewardsRound();
+      const rewards =
+        round?.scorerSlug === SCORER_SLUGS.CREATOR
+          ? await getRewardsByTalentId(round)
+          : null;
+
+      return {
+        entries: rankByScore(
+          entries.map((entry) => ({
+            ...entry,
+            rewards: rewards ? (rewards.get(entry.id) ?? "$0") : "-",
+          })),
+        ),
+        viewerTalentId: viewer?.id ?? null,
+        followingCount: following.length,
+        truncated,
+      };
+    },
+    { ttl: FOLLOWING_LEADERBOARD_TTL_SECONDS, tags: [MODERATION_CACHE_TAG] },
+  );
+}
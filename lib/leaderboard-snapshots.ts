@@ -0,0 +1,227 @@
+import { redis } from "./redis";
+import {
+  fetchFullLeaderboard,
+  fetchVisibleLeaderboardPage,
+  rankByScore,
+  sortLeaderboardEntries,
+} from "./leaderboard";
+import { getHiddenIds, getHiddenScores, withoutHidden } from "./moderation";
+import type {
+  LeaderboardClimber,
+  LeaderboardEntry,
+  LeaderboardSnapshot,
+  RewardsRound,
+  RoundClimbersResponse,
+} from "@/app/services/types";
+
+// How much of the leaderboard each daily snapshot records
+export const SNAPSHOT_SIZE = 500;
+// Kept long enough for weekly comparisons across a whole round
+const SNAPSHOT_TTL_SECONDS = 45 * 24 * 60 * 60;
+const CLIMBERS_WINDOW_DAYS = 7;
+const CLIMBERS_LIMIT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getSnapshotKey(roundId: string, date: string): string {
+  return `leaderboard_snapshots:${roundId}:${date}`;
+}
+
+function toSnapshotDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+async function getSnapshot(
+  roundId: string,
+  date: string,
+): Promise<LeaderboardSnapshot | null> {
+  if (!redis) {
+    return null;
+  }
+
+  return redis.get<LeaderboardSnapshot>(getSnapshotKey(roundId, date));
+}
+
+/**
+ * Records today's top of a round's leaderboard, replacing any earlier snapshot from today.
+ * Hidden profiles are left out so ranks match the ones the leaderboard shows.
+ * Once the round has ended it lists every creator above the round's minimum score
+ * instead, and becomes the round's final standings.
+ */
+export async function takeLeaderboardSnapshot(
+  round: RewardsRound,
+  apiKey: string,
+): Promise<LeaderboardSnapshot> {
+  const now = Date.now();
+  const hiddenIds = await getHiddenIds();
+  const complete = now >= new Date(round.endsAt).getTime();
+  const leaderboard = complete
+    ? rankByScore(
+        sortLeaderboardEntries(
+          withoutHidden(
+            await fetchFullLeaderboard(
+              round.scorerSlug,
+              round.eligibilityMinScore,
+              apiKey,
+            ),
+            hiddenIds,
+          ),
+        ),
+      )
+    : await fetchVisibleLeaderboardPage(
+        round.scorerSlug,
+        1,
+        SNAPSHOT_SIZE,
+        hiddenIds,
+        await getHiddenScores(round.scorerSlug),
+        apiKey,
+      );
+  const snapshot: LeaderboardSnapshot = {
+    roundId: round.id,
+    date: toSnapshotDate(now),
+    takenAt: new Date(now).toISOString(),
+    ...(complete ? { complete } : {}),
+    entries: leaderboard.map((entry) => ({
+      talent_protocol_id: String(entry.talent_protocol_id),
+      name: entry.name,
+      pfp: entry.pfp,
+      score: entry.score,
+      rank: entry.rank,
+      humanCheckmark: entry.humanCheckmark === true,
+    })),
+  };
+
+  if (redis) {
+    await redis.set(getSnapshotKey(round.id, snapshot.date), snapshot, {
+      ex: SNAPSHOT_TTL_SECONDS,
+    });
+  }
+
+  return snapshot;
+}
+
+/**
+ * Returns the most recent snapshot of a round from today or yesterday
+ */
+export async function getLatestSnapshot(
+  roundId: string,
+): Promise<LeaderboardSnapshot | null> {
+  const now = Date.now();
+  return (
+    (await getSnapshot(roundId, toSnapshotDate(now))) ??
+    (await getSnapshot(roundId, toSnapshotDate(now - DAY_MS)))
+  );
+}
+
+/**
+ * Returns the first complete snapshot of a round taken at or after it ended and
+ * no later than withinMs after, or null when none was taken in that time
+ */
+export async function getFinalSnapshot(
+  round: RewardsRound,
+  withinMs: number,
+): Promise<LeaderboardSnapshot | null> {
+  const endsAt = new Date(round.endsAt).getTime();
+  const lastDate = toSnapshotDate(Math.min(endsAt + withinMs, Date.now()));
+
+  for (let day = endsAt; toSnapshotDate(day) <= lastDate; day += DAY_MS) {
+    const snapshot = await getSnapshot(round.id, toSnapshotDate(day));
+    // Snapshots without takenAt were recorded before complete ones waited for the end
+    if (
+      snapshot?.complete &&
+      snapshot.takenAt &&
+      new Date(snapshot.takenAt).getTime() >= endsAt
+    ) {
+      return snapshot;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the snapshot taken the day before another one of the same round
+ */
+export async function getPreviousDaySnapshot(
+  snapshot: LeaderboardSnapshot,
+): Promise<LeaderboardSnapshot | null> {
+  return getSnapshot(
+    snapshot.roundId,
+    toSnapshotDate(new Date(snapshot.date).getTime() - DAY_MS),
+  );
+}
+
+/**
+ * Adds each entry's rank and score change since the snapshot.
+ * Entries within the snapshot's range that it doesn't list are new to it;
+ * entries further down can't be compared and are left as they are.
+ */
+export function withMovement<T extends LeaderboardEntry>(
+  entries: T[],
+  snapshot: LeaderboardSnapshot | null,
+): T[] {
+  if (!snapshot) {
+    return entries;
+  }
+
+  const previous = new Map(
+    snapshot.entries.map((entry) => [entry.talent_protocol_id, entry]),
+  );
+  return entries.map((entry) => {
+    const before = previous.get(String(entry.talent_protocol_id));
+    if (before) {
+      return {
+        ...entry,
+        previousRank: before.rank,
+        scoreDelta: entry.score - before.score,
+      };
+    }
+    return entry.rank <= snapshot.entries.length
+      ? { ...entry, previousRank: null, scoreDelta: null }
+      : entry;
+  });
+}
+
+/**
+ * Returns the creators who climbed the most ranks over the last week of snapshots
+ */
+export async function getRoundClimbers(
+  roundId: string,
+): Promise<RoundClimbersResponse> {
+  const latest = await getLatestSnapshot(roundId);
+  const weekAgo = latest
+    ? await getSnapshot(
+        roundId,
+        toSnapshotDate(
+          new Date(latest.date).getTime() - CLIMBERS_WINDOW_DAYS * DAY_MS,
+        ),
+      )
+    : null;
+
+  if (!latest || !weekAgo) {
+    return { roundId, since: null, climbers: [] };
+  }
+
+  const previous = new Map(
+    weekAgo.entries.map((entry) => [entry.talent_protocol_id, entry]),
+  );
+  const climbers: LeaderboardClimber[] = latest.entries
+    .flatMap((entry) => {
+      const before = previous.get(entry.talent_protocol_id);
+      return before && before.rank > entry.rank
+        ? [
+            {
+              ...entry,
+              previousRank: before.rank,
+              scoreDelta: entry.score - before.score,
+            },
+          ]
+        : [];
+    })
+    .sort(
+      (a, b) =>
+        b.previousRank - b.rank - (a.previousRank - a.rank) || a.rank - b.rank,
+    )
+    .slice(0, CLIMBERS_LIMIT);
+
+  return { roundId, since: weekAgo.date, climbers };
+}
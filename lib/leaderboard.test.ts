@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchVisibleLeaderboardPage } from "./leaderboard";
+import { SCORER_SLUGS } from "@/app/services/types";
+
+// Deeper than the 100 pages of 100 a walk from the top could reach
+const LISTED = 12_000;
+const TOP_SCORE = 20_000;
+
+// Profile p<i> sits at position i with a score one below the one above it
+const scoreAt = (position: number) => TOP_SCORE - position;
+
+// Stands in for the search API, paging the leaderboard above and honouring the minimum score
+function stubSearchApi() {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const minScore = JSON.parse(params.get("query")!).score.min;
+      const page = Number(params.get("page"));
+      const perPage = Number(params.get("per_page"));
+      const total = Math.min(LISTED, Math.max(TOP_SCORE - minScore + 1, 0));
+      const from = (page - 1) * perPage;
+      const profiles = Array.from(
+        { length: Math.max(Math.min(perPage, total - from), 0) },
+        (_, index) => ({
+          id: `p${from + index}`,
+          display_name: `P${from + index}`,
+          scores: [
+            { slug: SCORER_SLUGS.CREATOR, points: scoreAt(from + index) },
+          ],
+        }),
+      );
+      return new Response(JSON.stringify({ profiles, pagination: { total } }), {
+        headers: { "content-type": "application/json" },
+      });
+    }),
+  );
+}
+
+function visiblePage(page: number, perPage: number, ...hidden: number[]) {
+  return fetchVisibleLeaderboardPage(
+    SCORER_SLUGS.CREATOR,
+    page,
+    perPage,
+    new Set(hidden.map((position) => `p${position}`)),
+    Object.fromEntries(
+      hidden.map((position) => [`p${position}`, scoreAt(position)]),
+    ),
+    "test-key",
+  );
+}
+
+describe("fetchVisibleLeaderboardPage", () => {
+  beforeEach(() => {
+    stubSearchApi();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("moves the first page past hidden profiles at the top", async () => {
+    const entries = await visiblePage(1, 3, 0, 2);
+
+    expect(entries.map(({ id, rank }) => [id, rank])).toEqual([
+      ["p1", 1],
+      ["p3", 2],
+      ["p4", 3],
+    ]);
+  });
+
+  it("finds a page past the 10,000th profile without walking from the top", async () => {
+    const entries = await visiblePage(420, 25, 3, 10_500);
+
+    expect(entries).toHaveLength(25);
+    expect(entries[0]).toMatchObject({ id: "p10476", rank: 10_476 });
+    expect(entries.map((entry) => entry.id)).not.toContain("p10500");
+    expect(entries[24]).toMatchObject({ id: "p10501", rank: 10_500 });
+    expect(vi.mocked(fetch).mock.calls.length).toBeLessThan(10);
+  });
+
+  it("returns an empty page past the end of the leaderboard", async () => {
+    expect(await visiblePage(1_000, 25, 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,406 @@
+import { TALENT_API_CACHE_TTLS, getTalentApiBaseUrl } from "./constants";
+import { getOrSetCached } from "./server-cache";
+import { getScorerSearchName } from "./scorer";
+import {
+  countHiddenAhead,
+  countHiddenWithMinScore,
+  withoutHidden,
+  type HiddenScores,
+} from "./moderation";
+import {
+  validateTalentApiResponse,
+  type TalentApiSearchProfile,
+  type TalentSearchApiResponse,
+} from "./talent-api-schemas";
+import type { LeaderboardEntry, ScorerSlug } from "@/app/services/types";
+
+export type LeaderboardProfile = TalentApiSearchProfile;
+
+// A failed search carries the upstream error text instead of profiles
+export type ProfilesSearchResult =
+  | { ok: true; status: number; body: TalentSearchApiResponse }
+  | { ok: false; status: number; body: string };
+
+/**
+ * Shares upstream search results across viewers; only successful responses are cached.
+ * Throws TalentApiSchemaError when the response doesn't match the expected shape.
+ */
+export async function fetchProfilesSearch(
+  queryString: string,
+  apiKey: string,
+): Promise<ProfilesSearchResult> {
+  return getOrSetCached(
+    `talent_api:/search/advanced/profiles?${queryString}`,
+    async (): Promise<ProfilesSearchResult> => {
+      const url = `${getTalentApiBaseUrl()}/search/advanced/profiles`;
+      const res = await fetch(`${url}?${queryString}`, {
+        headers: {
+          Accept: "application/json",
+          "X-API-KEY": apiKey,
+        },
+      });
+      return res.ok
+        ? {
+            ok: true,
+            status: res.status,
+            body: validateTalentApiResponse(
+              "/search/advanced/profiles",
+              await res.json(),
+            ),
+          }
+        : { ok: false, status: res.status, body: await res.text() };
+    },
+    {
+      ...TALENT_API_CACHE_TTLS["/search/advanced/profiles"],
+      shouldCache: (result) => result.ok,
+    },
+  );
+}
+
+/**
+ * Builds the search query for profiles with at least minScore on a scorer,
+ * highest score first when sorted
+ */
+export function buildProfilesSearchQueryString({
+  scorerSlug,
+  minScore = 1,
+  page = 1,
+  perPage = 25,
+  sorted = true,
+}: {
+  scorerSlug: ScorerSlug;
+  minScore?: number;
+  page?: number;
+  perPage?: number;
+  sorted?: boolean;
+}): string {
+  const scorerName = getScorerSearchName(scorerSlug);
+  const query = { score: { min: minScore, scorer: scorerName } };
+  const sort = {
+    score: { order: "desc", scorer: scorerName },
+    id: { order: "desc" },
+  };
+
+  return [
+    `query=${encodeURIComponent(JSON.stringify(query))}`,
+    ...(sorted ? [`sort=${encodeURIComponent(JSON.stringify(sort))}`] : []),
+    `page=${page}`,
+    `per_page=${perPage}`,
+  ].join("&");
+}
+
+/**
+ * Maps a search profile to a leaderboard entry using its highest score for the scorer
+ */
+export function toLeaderboardEntry(
+  profile: LeaderboardProfile,
+  scorerSlug: ScorerSlug,
+): Omit<LeaderboardEntry, "rank"> {
+  const scorerScores = Array.isArray(profile.scores)
+    ? profile.scores
+        .filter((s) => s.slug === scorerSlug)
+        .map((s) => s.points ?? 0)
+    : [];
+  const score = scorerScores.length > 0 ? Math.max(...scorerScores) : 0;
+
+  return {
+    name: profile.display_name || profile.name || "Unknown",
+    pfp: profile.image_url || undefined,
+    score,
+    rewards: "-", // To be calculated later
+    id: profile.id,
+    talent_protocol_id: profile.id,
+    humanCheckmark: profile.human_checkmark === true,
+  };
+}
+
+// Upper bound on pages walked so a runaway pagination can't loop forever
+const MAX_LEADERBOARD_PAGES = 100;
+const LEADERBOARD_WALK_PAGE_SIZE = 100;
+
+/**
+ * Walks every page of profiles with at least minScore on a scorer, highest score first,
+ * stopping early once maxEntries have been fetched. Throws rather than return part of
+ * the leaderboard when it runs past MAX_LEADERBOARD_PAGES.
+ */
+export async function fetchFullLeaderboard(
+  scorerSlug: ScorerSlug,
+  minScore: number,
+  apiKey: string,
+  maxEntries: number = Infinity,
+): Promise<Omit<LeaderboardEntry, "rank">[]> {
+  const entries: Omit<LeaderboardEntry, "rank">[] = [];
+
+  for (let page = 1; ; page++) {
+    const res = await fetchProfilesSearch(
+      buildProfilesSearchQueryString({
+        scorerSlug,
+        minScore,
+        page,
+        perPage: LEADERBOARD_WALK_PAGE_SIZE,
+      }),
+      apiKey,
+    );
+    if (!res.ok) {
+      throw new Error(`Leaderboard search failed with status ${res.status}`);
+    }
+
+    const profiles: LeaderboardProfile[] = res.body.profiles || [];
+    entries.push(
+      ...profiles.map((profile) => toLeaderboardEntry(profile, scorerSlug)),
+    );
+
+    const total = res.body.pagination?.total;
+    if (
+      profiles.length < LEADERBOARD_WALK_PAGE_SIZE ||
+      entries.length >= maxEntries ||
+      (total !== undefined && entries.length >= total)
+    ) {
+      break;
+    }
+    if (page === MAX_LEADERBOARD_PAGES) {
+      throw new Error(
+        `Leaderboard has more than ${entries.length} entries, the most that can be walked`,
+      );
+    }
+  }
+
+  return entries.slice(0, maxEntries);
+}
+
+/**
+ * Sorts by score and assigns ranks where tied scores share a rank (1, 1, 3)
+ */
+export function rankByScore<T extends { score: number }>(
+  entries: T[],
+): (T & { rank: number })[] {
+  const sorted = [...entries].sort((a, b) => b.score - a.score);
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    if (index === 0 || entry.score !== sorted[index - 1].score) {
+      rank = index + 1;
+    }
+    return { ...entry, rank };
+  });
+}
+
+/**
+ * Counts profiles with at least minScore on a scorer
+ */
+export async function countProfilesWithMinScore(
+  scorerSlug: ScorerSlug,
+  minScore: number,
+  apiKey: string,
+): Promise<number> {
+  const res = await fetchProfilesSearch(
+    buildProfilesSearchQueryString({
+      scorerSlug,
+      minScore,
+      perPage: 1, // We only need the count, not the actual profiles
+      sorted: false,
+    }),
+    apiKey,
+  );
+  if (!res.ok) {
+    throw new Error(`Leaderboard search failed with status ${res.status}`);
+  }
+  return res.body.pagination?.total ?? 0;
+}
+
+/**
+ * Competition rank for a score: one more than the number of higher scores.
+ * Scores are whole points, so anything above score is at least score + 1.
+ */
+export async function getRankForScore(
+  scorerSlug: ScorerSlug,
+  score: number,
+  apiKey: string,
+): Promise<number> {
+  return (
+    (await countProfilesWithMinScore(
+      scorerSlug,
+      Math.floor(score) + 1,
+      apiKey,
+    )) + 1
+  );
+}
+
+/**
+ * Returns the profile at a zero-based position in the leaderboard
+ */
+export async function fetchLeaderboardEntryAt(
+  scorerSlug: ScorerSlug,
+  offset: number,
+  apiKey: string,
+): Promise<Omit<LeaderboardEntry, "rank"> | null> {
+  if (offset < 0) {
+    return null;
+  }
+
+  const res = await fetchProfilesSearch(
+    buildProfilesSearchQueryString({
+      scorerSlug,
+      page: offset + 1,
+      perPage: 1,
+    }),
+    apiKey,
+  );
+  if (!res.ok) {
+    throw new Error(`Leaderboard search failed with status ${res.status}`);
+  }
+
+  const profile: LeaderboardProfile | undefined = res.body.profiles?.[0];
+  return profile ? toLeaderboardEntry(profile, scorerSlug) : null;
+}
+
+/**
+ * Orders entries like the search API pages them: score, then talent ID, both descending
+ */
+export function sortLeaderboardEntries<T extends { score: number; id: string }>(
+  entries: T[],
+): T[] {
+  return [...entries].sort(
+    (a, b) => b.score - a.score || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0),
+  );
+}
+
+/**
+ * Assigns competition ranks ("1, 2, 2, 4") to one page of the leaderboard from
+ * its offset, so ranks line up across pages. Only the first entry of a later
+ * page needs a lookup, since its tie group may have started on an earlier page;
+ * hidden profiles above it are taken back out of that rank.
+ */
+export async function rankLeaderboardPage<
+  T extends { score: number; id: string },
+>(
+  entries: T[],
+  offset: number,
+  scorerSlug: ScorerSlug,
+  apiKey: string,
+  hiddenScores: HiddenScores = {},
+): Promise<(T & { rank: number })[]> {
+  const sorted = sortLeaderboardEntries(entries);
+  const ranked: (T & { rank: number })[] = [];
+
+  for (let index = 0; index < sorted.length; index++) {
+    const entry = sorted[index];
+    let rank: number;
+    if (index > 0 && entry.score === sorted[index - 1].score) {
+      rank = ranked[index - 1].rank;
+    } else if (index === 0 && offset > 0) {
+      rank =
+        (await getRankForScore(scorerSlug, entry.score, apiKey)) -
+        countHiddenWithMinScore(hiddenScores, Math.floor(entry.score) + 1);
+    } else {
+      rank = offset + index + 1;
+    }
+    ranked.push({ ...entry, rank });
+  }
+
+  return ranked;
+}
+
+/**
+ * Returns count profiles from a zero-based position in the leaderboard, fetched
+ * in the same pages as fetchFullLeaderboard so they're shared in the cache
+ */
+async function fetchLeaderboardRange(
+  scorerSlug: ScorerSlug,
+  offset: number,
+  count: number,
+  apiKey: string,
+): Promise<Omit<LeaderboardEntry, "rank">[]> {
+  const firstPage = Math.floor(offset / LEADERBOARD_WALK_PAGE_SIZE) + 1;
+  const lastPage =
+    Math.floor((offset + count - 1) / LEADERBOARD_WALK_PAGE_SIZE) + 1;
+  const profiles: LeaderboardProfile[] = [];
+
+  for (let page = firstPage; page <= lastPage; page++) {
+    const res = await fetchProfilesSearch(
+      buildProfilesSearchQueryString({
+        scorerSlug,
+        page,
+        perPage: LEADERBOARD_WALK_PAGE_SIZE,
+      }),
+      apiKey,
+    );
+    if (!res.ok) {
+      throw new Error(`Leaderboard search failed with status ${res.status}`);
+    }
+
+    profiles.push(...(res.body.profiles || []));
+    if ((res.body.profiles || []).length < LEADERBOARD_WALK_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  const start = offset - (firstPage - 1) * LEADERBOARD_WALK_PAGE_SIZE;
+  return profiles
+    .slice(start, start + count)
+    .map((profile) => toLeaderboardEntry(profile, scorerSlug));
+}
+
+/**
+ * Finds the search API position of the visible profile at a zero-based offset,
+ * moving down past the hidden profiles ordered above it until the two agree.
+ * Returns null when the leaderboard ends first.
+ */
+async function findVisibleEntryPosition(
+  scorerSlug: ScorerSlug,
+  offset: number,
+  hiddenIds: Set<string>,
+  hiddenScores: HiddenScores,
+  apiKey: string,
+): Promise<number | null> {
+  for (let position = offset; ; ) {
+    const entry = await fetchLeaderboardEntryAt(scorerSlug, position, apiKey);
+    if (!entry) {
+      return null;
+    }
+
+    const visibleAbove = position - countHiddenAhead(hiddenScores, entry);
+    if (visibleAbove >= offset && !hiddenIds.has(entry.id)) {
+      return position;
+    }
+    position += Math.max(offset - visibleAbove, 1);
+  }
+}
+
+/**
+ * Returns one page of the leaderboard without the hidden profiles, ranked among
+ * the profiles that remain. Like the rank route, the page is found by its position
+ * in the search API and corrected for the hidden profiles above it, so any page
+ * costs a few lookups however deep it lies.
+ */
+export async function fetchVisibleLeaderboardPage(
+  scorerSlug: ScorerSlug,
+  page: number,
+  perPage: number,
+  hiddenIds: Set<string>,
+  hiddenScores: HiddenScores,
+  apiKey: string,
+): Promise<(Omit<LeaderboardEntry, "rank"> & { rank: number })[]> {
+  const offset = (page - 1) * perPage;
+  const position = await findVisibleEntryPosition(
+    scorerSlug,
+    offset,
+    hiddenIds,
+    hiddenScores,
+    apiKey,
+  );
+  if (position === null) {
+    return [];
+  }
+
+  // Enough is fetched to fill the page however many hidden profiles fall on it
+  const entries = withoutHidden(
+    await fetchLeaderboardRange(
+      scorerSlug,
+      position,
+      perPage + hiddenIds.size,
+      apiKey,
+    ),
+    hiddenIds,
+  ).slice(0, perPage);
+  return rankLeaderboardPage(entries, offset, scorerSlug, apiKey, hiddenScores);
+}
@@ -0,0 +1,363 @@
+import { redis } from "./redis";
+import { talentApiClient } from "./talent-api-client";
+import { getOrSetCached, invalidateCacheTag } from "./server-cache";
+import { isVerifiedHuman } from "./eligibility";
+import {
+  MODERATION_AUTO_FLAGS,
+  TALENT_API_CACHE_TTLS,
+  getModerationAdminFids,
+} from "./constants";
+import type {
+  HiddenProfile,
+  LeaderboardSnapshot,
+  ModerationAuditEntry,
+  ModerationFlag,
+  ModerationFlagReason,
+  ScorerSlug,
+} from "@/app/services/types";
+
+// Profiles left out of the leaderboard and payouts, keyed by Talent UUID
+const HIDDEN_PROFILES_KEY = "moderation:hidden";
+// Open flags waiting for an admin, keyed by Talent UUID
+const MODERATION_FLAGS_KEY = "moderation:flags";
+// Profiles an admin has cleared of the humanity flag, so it isn't raised again
+const DISMISSED_HUMANITY_FLAGS_KEY = "moderation:dismissed:no_humanity";
+// Newest first, trimmed to the most recent entries
+const MODERATION_AUDIT_KEY = "moderation:audit";
+const MODERATION_AUDIT_MAX_ENTRIES = 1000;
+
+// Cached data that depends on the hide list, cleared on every change to it
+export const MODERATION_CACHE_TAG = "moderation";
+
+// Hidden profiles' scores and humanity checks sent to the Talent API at a time
+const MODERATION_BATCH_SIZE = 10;
+
+// Each hidden profile's score on a scorer, keyed by Talent UUID
+export type HiddenScores = Record<string, number>;
+
+function requireRedis() {
+  if (!redis) {
+    throw new Error("Moderation needs Redis to be configured");
+  }
+  return redis;
+}
+
+async function writeAuditEntry(
+  entry: Omit<ModerationAuditEntry, "at">,
+): Promise<void> {
+  const client = requireRedis();
+  await client.lpush(MODERATION_AUDIT_KEY, {
+    ...entry,
+    at: new Date().toISOString(),
+  });
+  await client.ltrim(MODERATION_AUDIT_KEY, 0, MODERATION_AUDIT_MAX_ENTRIES - 1);
+}
+
+export function isModerationAdmin(fid: number): boolean {
+  return getModerationAdminFids().includes(fid);
+}
+
+export async function getHiddenProfiles(): Promise<HiddenProfile[]> {
+  if (!redis) {
+    return [];
+  }
+
+  const hidden =
+    (await redis.hgetall<Record<string, HiddenProfile>>(HIDDEN_PROFILES_KEY)) ??
+    {};
+  return Object.values(hidden).sort((a, b) =>
+    b.hiddenAt.localeCompare(a.hiddenAt),
+  );
+}
+
+export async function getHiddenIds(): Promise<Set<string>> {
+  if (!redis) {
+    return new Set();
+  }
+
+  return new Set(await redis.hkeys(HIDDEN_PROFILES_KEY));
+}
+
+/**
+ * Leaves out the entries of hidden profiles
+ */
+export function withoutHidden<
+  T extends { talent_protocol_id: string | number },
+>(entries: T[], hiddenIds: Set<string>): T[] {
+  return hiddenIds.size === 0
+    ? entries
+    : entries.filter(
+        (entry) => !hiddenIds.has(String(entry.talent_protocol_id)),
+      );
+}
+
+/**
+ * Hides a profile from the leaderboard and payouts, and clears any flag on it
+ */
+export async function hideProfile(
+  talentId: string,
+  reason: string,
+  actor: number,
+): Promise<HiddenProfile> {
+  const client = requireRedis();
+  const hidden: HiddenProfile = {
+    talent_protocol_id: talentId,
+    reason,
+    hiddenBy: actor,
+    hiddenAt: new Date().toISOString(),
+  };
+
+  await client.hset(HIDDEN_PROFILES_KEY, { [talentId]: hidden });
+  await client.hdel(MODERATION_FLAGS_KEY, talentId);
+  await writeAuditEntry({
+    action: "hide",
+    talent_protocol_id: talentId,
+    reason,
+    actor,
+  });
+  await invalidateCacheTag(MODERATION_CACHE_TAG);
+  return hidden;
+}
+
+/**
+ * Puts a hidden profile back; returns false when it wasn't hidden
+ */
+export async function unhideProfile(
+  talentId: string,
+  reason: string | null,
+  actor: number,
+): Promise<boolean> {
+  const client = requireRedis();
+  if ((await client.hdel(HIDDEN_PROFILES_KEY, talentId)) === 0) {
+    return false;
+  }
+
+  await writeAuditEntry({
+    action: "unhide",
+    talent_protocol_id: talentId,
+    reason,
+    actor,
+  });
+  await invalidateCacheTag(MODERATION_CACHE_TAG);
+  return true;
+}
+
+export async function getModerationFlags(): Promise<ModerationFlag[]> {
+  if (!redis) {
+    return [];
+  }
+
+  const flags =
+    (await redis.hgetall<Record<string, ModerationFlag>>(
+      MODERATION_FLAGS_KEY,
+    )) ?? {};
+  return Object.values(flags).sort((a, b) =>
+    b.flaggedAt.localeCompare(a.flaggedAt),
+  );
+}
+
+/**
+ * Closes a profile's flag without hiding it; returns false when it wasn't flagged
+ */
+export async function dismissFlag(
+  talentId: string,
+  reason: string | null,
+  actor: number,
+): Promise<boolean> {
+  const client = requireRedis();
+  const flag = await client.hget<ModerationFlag>(
+    MODERATION_FLAGS_KEY,
+    talentId,
+  );
+  if (!flag) {
+    return false;
+  }
+
+  await client.hdel(MODERATION_FLAGS_KEY, talentId);
+  if (flag.reasons.includes("no_humanity")) {
+    await client.sadd(DISMISSED_HUMANITY_FLAGS_KEY, talentId);
+  }
+  await writeAuditEntry({
+    action: "dismiss_flag",
+    talent_protocol_id: talentId,
+    reason,
+    actor,
+  });
+  return true;
+}
+
+export async function getModerationLog(
+  limit: number = 100,
+): Promise<ModerationAuditEntry[]> {
+  if (!redis) {
+    return [];
+  }
+
+  return redis.lrange<ModerationAuditEntry>(MODERATION_AUDIT_KEY, 0, limit - 1);
+}
+
+async function fetchHiddenScores(
+  scorerSlug: ScorerSlug,
+): Promise<HiddenScores> {
+  const ids = Array.from(await getHiddenIds());
+  const scores: HiddenScores = {};
+
+  for (let i = 0; i < ids.length; i += MODERATION_BATCH_SIZE) {
+    await Promise.all(
+      ids.slice(i, i + MODERATION_BATCH_SIZE).map(async (talentId) => {
+        try {
+          const res = await talentApiClient.getScore({
+            talent_protocol_id: talentId,
+            scorer_slug: scorerSlug,
+          });
+          const data = await res.json();
+          if (!res.ok || data.error) {
+            throw new Error(data.error || `HTTP ${res.status}`);
+          }
+          scores[talentId] = data.score?.points ?? 0;
+        } catch (error) {
+          console.error(
+            `[moderation] Failed to fetch the score of hidden profile ${talentId}:`,
+            error,
+          );
+        }
+      }),
+    );
+  }
+
+  return scores;
+}
+
+/**
+ * Returns each hidden profile's score on a scorer, so counts and ranks can leave them out.
+ * A profile whose score can't be fetched (e.g. a deleted account) is skipped, as it can't
+ * be counted on the leaderboard either. Cached for as long as the search results they
+ * correct, and cleared with the rest of the moderation cache when the hide list changes.
+ */
+export async function getHiddenScores(
+  scorerSlug: ScorerSlug,
+): Promise<HiddenScores> {
+  return getOrSetCached(
+    `moderation:hidden_scores:${scorerSlug}`,
+    () => fetchHiddenScores(scorerSlug),
+    {
+      ...TALENT_API_CACHE_TTLS["/search/advanced/profiles"],
+      tags: [MODERATION_CACHE_TAG],
+    },
+  );
+}
+
+/**
+ * Counts hidden profiles with at least minScore, matching countProfilesWithMinScore
+ */
+export function countHiddenWithMinScore(
+  hiddenScores: HiddenScores,
+  minScore: number,
+): number {
+  return Object.values(hiddenScores).filter((score) => score >= minScore)
+    .length;
+}
+
+/**
+ * Counts hidden profiles the search API orders before an entry, by score and
+ * then talent ID like sortLeaderboardEntries
+ */
+export function countHiddenAhead(
+  hiddenScores: HiddenScores,
+  entry: { score: number; id: string },
+): number {
+  return Object.entries(hiddenScores).filter(
+    ([talentId, score]) =>
+      score > entry.score || (score === entry.score && talentId > entry.id),
+  ).length;
+}
+
+/**
+ * Flags profiles in a round's daily snapshot for review: score spikes since the
+ * previous day, and the top of the leaderboard without a humanity credential.
+ * Hidden and already flagged profiles are skipped. Returns the number of new flags.
+ */
+export async function raiseModerationFlags(
+  snapshot: LeaderboardSnapshot,
+  previous: LeaderboardSnapshot | null,
+): Promise<number> {
+  const client = requireRedis();
+  const [hiddenIds, flagged, dismissedHumanity] = await Promise.all([
+    getHiddenIds(),
+    client.hkeys(MODERATION_FLAGS_KEY),
+    client.smembers(DISMISSED_HUMANITY_FLAGS_KEY),
+  ]);
+  const skipped = new Set([...Array.from(hiddenIds), ...flagged]);
+  const candidates = snapshot.entries.filter(
+    (entry) => !skipped.has(entry.talent_protocol_id),
+  );
+
+  const reasons = new Map<string, ModerationFlagReason[]>();
+  const addReason = (talentId: string, reason: ModerationFlagReason) =>
+    reasons.set(talentId, [...(reasons.get(talentId) ?? []), reason]);
+
+  const before = new Map(
+    (previous?.entries ?? []).map((entry) => [
+      entry.talent_protocol_id,
+      entry.score,
+    ]),
+  );
+  for (const entry of candidates) {
+    const previousScore = before.get(entry.talent_protocol_id);
+    if (
+      previousScore !== undefined &&
+      entry.score - previousScore >= MODERATION_AUTO_FLAGS.SCORE_SPIKE_PER_DAY
+    ) {
+      addReason(entry.talent_protocol_id, "score_spike");
+    }
+  }
+
+  const humanityChecked = candidates
+    .filter((entry) => entry.rank <= MODERATION_AUTO_FLAGS.HUMANITY_CHECK_TOP)
+    .filter((entry) => !dismissedHumanity.includes(entry.talent_protocol_id));
+  for (let i = 0; i < humanityChecked.length; i += MODERATION_BATCH_SIZE) {
+    const batch = humanityChecked.slice(i, i + MODERATION_BATCH_SIZE);
+    const humans = await Promise.all(
+      batch.map((entry) =>
+        isVerifiedHuman(entry.talent_protocol_id).catch((error) => {
+          // An unanswered check isn't evidence either way
+          console.error(
+            `[moderation] Humanity check failed for ${entry.talent_protocol_id}:`,
+            error,
+          );
+          return true;
+        }),
+      ),
+    );
+    batch.forEach((entry, index) => {
+      if (!humans[index]) addReason(entry.talent_protocol_id, "no_humanity");
+    });
+  }
+
+  const flaggedAt = new Date().toISOString();
+  for (const entry of candidates) {
+    const entryReasons = reasons.get(entry.talent_protocol_id);
+    if (!entryReasons) continue;
+
+    const previousScore = before.get(entry.talent_protocol_id);
+    const flag: ModerationFlag = {
+      talent_protocol_id: entry.talent_protocol_id,
+      name: entry.name,
+      reasons: entryReasons,
+      scoreDelta:
+        previousScore === undefined ? null : entry.score - previousScore,
+      flaggedAt,
+    };
+    await client.hset(MODERATION_FLAGS_KEY, {
+      [flag.talent_protocol_id]: flag,
+    });
+    await writeAuditEntry({
+      action: "flag",
+      talent_protocol_id: flag.talent_protocol_id,
+      reason: entryReasons.join(", "),
+      actor: "system",
+    });
+  }
+
+  return reasons.size;
+}
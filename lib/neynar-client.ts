@@ -7,6 +7,7 @@ import {
   withRetry,
   logApiError,
 } from "./api-utils";
+import { getNeynarApiBaseUrl } from "./constants";
 
 // Type definition for the Neynar client
 interface NeynarClientType {
@@ -23,6 +24,21 @@ interface NeynarClientType {
       };
     }>;
   }>;
+  fetchUserFollowing: (params: {
+    fid: number;
+    limit?: number;
+    cursor?: string;
+  }) => Promise<{
+    users: Array<{
+      user: {
+        fid: number;
+        username: string;
+        display_name?: string;
+        pfp_url?: string;
+      };
+    }>;
+    next: { cursor: string | null };
+  }>;
 }
 
 // Dynamic import function for Neynar SDK
@@ -32,7 +48,7 @@ async function createNeynarClient(apiKey: string): Promise<NeynarClientType> {
   }
 
   const { NeynarAPIClient } = await import("@neynar/nodejs-sdk");
-  return new NeynarAPIClient({ apiKey });
+  return new NeynarAPIClient({ apiKey, basePath: getNeynarApiBaseUrl() });
 }
 
 export interface WalletAddressesResponse {
@@ -42,6 +58,16 @@ export interface WalletAddressesResponse {
   primarySolAddress: string | null;
 }
 
+export interface FarcasterFollowedUser {
+  fid: number;
+  username: string;
+  displayName: string | null;
+  pfpUrl: string | null;
+}
+
+// Neynar returns at most 100 follows per page
+const FOLLOWING_PAGE_SIZE = 100;
+
 export interface NeynarClientOptions {
   apiKey?: string;
   enableRetry?: boolean;
@@ -166,6 +192,46 @@ export class NeynarClient {
     return createBadRequestResponse("Invalid request parameters");
   }
 
+  /**
+   * Returns the accounts a user follows, most recent first, stopping after
+   * maxUsers so accounts that follow thousands of people stay fast.
+   * truncated is set when there were more follows than were fetched.
+   */
+  async getFollowingRaw(
+    fid: number,
+    maxUsers: number,
+  ): Promise<{ users: FarcasterFollowedUser[]; truncated: boolean }> {
+    const client = await this.getClient();
+    const following: FarcasterFollowedUser[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const params = {
+        fid,
+        limit: Math.min(FOLLOWING_PAGE_SIZE, maxUsers - following.length),
+        cursor,
+      };
+      const page = this.enableRetry
+        ? await withRetry(
+            () => client.fetchUserFollowing(params),
+            this.maxRetryAttempts,
+          )
+        : await client.fetchUserFollowing(params);
+
+      following.push(
+        ...page.users.map(({ user }) => ({
+          fid: user.fid,
+          username: user.username,
+          displayName: user.display_name || null,
+          pfpUrl: user.pfp_url || null,
+        })),
+      );
+      cursor = page.next?.cursor || undefined;
+    } while (cursor && following.length < maxUsers);
+
+    return { users: following, truncated: !!cursor };
+  }
+
   // Helper method for services that need raw wallet data
   async getWalletAddressesRaw(fid: number): Promise<WalletAddressesResponse> {
     try {
@@ -4,8 +4,10 @@ import { redis } from "./redis";
 const notificationServiceKey =
   process.env.NEXT_PUBLIC_ONCHAINKIT_PROJECT_NAME ?? "minikit";
 
+const userNotificationDetailsPrefix = `${notificationServiceKey}:user:`;
+
 function getUserNotificationDetailsKey(fid: number): string {
-  return `${notificationServiceKey}:user:${fid}`;
+  return `${userNotificationDetailsPrefix}${fid}`;
 }
 
 export async function getUserNotificationDetails(
@@ -40,3 +42,29 @@ export async function deleteUserNotificationDetails(
 
   await redis.del(getUserNotificationDetailsKey(fid));
 }
+
+/**
+ * Lists the fids of every user with notifications enabled
+ */
+export async function getNotificationFids(): Promise<number[]> {
+  if (!redis) {
+    return [];
+  }
+
+  const fids: number[] = [];
+  let cursor = "0";
+  do {
+    const [next, keys] = await redis.scan(cursor, {
+      match: `${userNotificationDetailsPrefix}*`,
+      count: 100,
+    });
+    cursor = String(next);
+    fids.push(
+      ...keys
+        .map((key) => Number(key.slice(userNotificationDetailsPrefix.length)))
+        .filter(Number.isInteger),
+    );
+  } while (cursor !== "0");
+
+  return fids;
+}
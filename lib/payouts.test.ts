@@ -0,0 +1,223 @@
+import { createHash } from "crypto";
+import { describe, expect, it } from "vitest";
+import { calculatePayouts, toPayoutCsv } from "./payouts";
+import {
+  SCORER_SLUGS,
+  type PayoutManifest,
+  type RewardsRound,
+} from "@/app/services/types";
+
+function round(overrides: Partial<RewardsRound> = {}): RewardsRound {
+  return {
+    id: "test-round",
+    name: "Test Round",
+    startsAt: "2025-07-01T00:00:00Z",
+    endsAt: "2025-07-31T23:59:59Z",
+    status: "active",
+    scorerSlug: SCORER_SLUGS.CREATOR,
+    eligibilityRules: [],
+    eligibilityMinScore: 0,
+    distribution: { type: "proportional" },
+    maxPayoutPerCreator: null,
+    poolAmount: 100,
+    poolAddress: "0x0000000000000000000000000000000000000000",
+    sponsors: [],
+    ...overrides,
+  };
+}
+
+// Creators named after their Talent ID, in the order given
+function creators(...scores: [id: string, score: number][]) {
+  return scores.map(([id, score]) => ({
+    talent_protocol_id: id,
+    name: id.toUpperCase(),
+    score,
+  }));
+}
+
+function amounts(manifest: PayoutManifest): Record<string, string> {
+  return Object.fromEntries(
+    manifest.payouts.map((row) => [row.talent_protocol_id, row.amount]),
+  );
+}
+
+// Whole micro-USDC, so totals are compared without float error
+function toMicro(amount: string): number {
+  return Number(amount.replace(".", ""));
+}
+
+describe("calculatePayouts", () => {
+  it("splits a proportional pool by score", () => {
+    const manifest = calculatePayouts(
+      round(),
+      creators(["a", 300], ["b", 200], ["c", 100]),
+    );
+
+    expect(amounts(manifest)).toEqual({
+      a: "50.000000",
+      b: "33.333333",
+      c: "16.666667",
+    });
+    expect(manifest.totalPaid).toBe("100.000000");
+  });
+
+  it("leaves out creators below the minimum score", () => {
+    const manifest = calculatePayouts(
+      round({ eligibilityMinScore: 150 }),
+      creators(["a", 300], ["b", 200], ["c", 100]),
+    );
+
+    expect(amounts(manifest)).toEqual({ a: "60.000000", b: "40.000000" });
+    expect(manifest.eligibleCount).toBe(2);
+  });
+
+  it("splits each tier's share evenly within its band of ranks", () => {
+    const manifest = calculatePayouts(
+      round({
+        poolAmount: 1000,
+        distribution: {
+          type: "tiered",
+          tiers: [
+            { upToRank: 3, share: 0.3 },
+            { upToRank: 1, share: 0.5 },
+            { upToRank: 5, share: 0.2 },
+          ],
+        },
+      }),
+      creators(
+        ["a", 90],
+        ["b", 80],
+        ["c", 70],
+        ["d", 60],
+        ["e", 50],
+        ["f", 40],
+      ),
+    );
+
+    expect(amounts(manifest)).toEqual({
+      a: "500.000000",
+      b: "150.000000",
+      c: "150.000000",
+      d: "100.000000",
+      e: "100.000000",
+      f: "0.000000",
+    });
+  });
+
+  it("pays the whole pool when a tier is empty", () => {
+    const manifest = calculatePayouts(
+      round({
+        poolAmount: 1000,
+        distribution: {
+          type: "tiered",
+          tiers: [
+            { upToRank: 1, share: 0.5 },
+            { upToRank: 3, share: 0.3 },
+            { upToRank: 5, share: 0.2 },
+          ],
+        },
+      }),
+      creators(["a", 90], ["b", 80], ["c", 70]),
+    );
+
+    expect(amounts(manifest)).toEqual({
+      a: "625.000000",
+      b: "187.500000",
+      c: "187.500000",
+    });
+    expect(manifest.totalPaid).toBe("1000.000000");
+  });
+
+  it("hands what capped creators can't take to everyone under the cap", () => {
+    const manifest = calculatePayouts(
+      round({ maxPayoutPerCreator: 35 }),
+      creators(["a", 500], ["b", 300], ["c", 200]),
+    );
+
+    // a is capped first; b then goes over the cap on the redistributed share
+    expect(amounts(manifest)).toEqual({
+      a: "35.000000",
+      b: "35.000000",
+      c: "30.000000",
+    });
+    expect(manifest.totalPaid).toBe("100.000000");
+  });
+
+  it("pays out less than the pool when every creator reaches the cap", () => {
+    const manifest = calculatePayouts(
+      round({ maxPayoutPerCreator: 30 }),
+      creators(["a", 300], ["b", 200], ["c", 100]),
+    );
+
+    expect(amounts(manifest)).toEqual({
+      a: "30.000000",
+      b: "30.000000",
+      c: "30.000000",
+    });
+    expect(manifest.poolAmount).toBe("100.000000");
+    expect(manifest.totalPaid).toBe("90.000000");
+  });
+
+  it("gives rounding leftovers to tied creators by Talent ID", () => {
+    const manifest = calculatePayouts(
+      round(),
+      creators(["c", 100], ["a", 100], ["b", 100]),
+    );
+
+    expect(amounts(manifest)).toEqual({
+      a: "33.333334",
+      b: "33.333333",
+      c: "33.333333",
+    });
+  });
+
+  it("pays exactly the pool after rounding", () => {
+    const manifest = calculatePayouts(
+      round({ poolAmount: 1234.567891 }),
+      creators(
+        ["a", 97],
+        ["b", 83],
+        ["c", 71],
+        ["d", 59],
+        ["e", 47],
+        ["f", 31],
+        ["g", 13],
+        ["h", 7],
+      ),
+    );
+
+    const paid = manifest.payouts.reduce(
+      (sum, row) => sum + toMicro(row.amount),
+      0,
+    );
+    expect(paid).toBe(1234567891);
+    expect(manifest.totalPaid).toBe("1234.567891");
+  });
+
+  it("produces the same manifest and checksum for reordered input", () => {
+    const entries = creators(
+      ["a", 97],
+      ["b", 83],
+      ["c", 83],
+      ["d", 59],
+      ["e", 13],
+    );
+    const config = round({ poolAmount: 777, maxPayoutPerCreator: 200 });
+
+    const manifest = calculatePayouts(config, entries);
+    const reordered = calculatePayouts(config, [...entries].reverse());
+
+    expect(reordered).toEqual(manifest);
+    expect(manifest.checksum).toBe(
+      createHash("sha256").update(toPayoutCsv(manifest.payouts)).digest("hex"),
+    );
+  });
+
+  it("changes the checksum when an amount changes", () => {
+    const entries = creators(["a", 300], ["b", 200]);
+
+    expect(calculatePayouts(round(), entries).checksum).not.toBe(
+      calculatePayouts(round({ poolAmount: 101 }), entries).checksum,
+    );
+  });
+});
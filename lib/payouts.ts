@@ -0,0 +1,322 @@
+import { createHash } from "crypto";
+import { redis } from "./redis";
+import { getOrSetCached } from "./server-cache";
+import { fetchFullLeaderboard, rankByScore } from "./leaderboard";
+import { formatUsdcReward } from "./utils";
+import { filterEligibleEntries } from "./eligibility";
+import {
+  MODERATION_CACHE_TAG,
+  getHiddenIds,
+  withoutHidden,
+} from "./moderation";
+import type {
+  LeaderboardEntry,
+  PayoutManifest,
+  PayoutRow,
+  RewardsRound,
+} from "@/app/services/types";
+
+// USDC has 6 decimals; amounts are computed in integer micro-USDC
+const USDC_DECIMALS = 6;
+const MICRO_PER_USDC = 10 ** USDC_DECIMALS;
+
+// Live rounds are recalculated as scores move; ended rounds are recorded once
+const ACTIVE_ROUND_PAYOUTS_TTL_SECONDS = 10 * 60;
+
+type RankedEntry = Omit<PayoutRow, "amount">;
+
+function toMicro(usdc: number): number {
+  return Math.round(usdc * MICRO_PER_USDC);
+}
+
+function formatUsdcAmount(micro: number): string {
+  const whole = Math.floor(micro / MICRO_PER_USDC);
+  const fraction = String(micro % MICRO_PER_USDC).padStart(USDC_DECIMALS, "0");
+  return `${whole}.${fraction}`;
+}
+
+// Plain code point order, so the tie-break doesn't depend on the server's locale
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Each creator's weight, as a share of the pool (tiered) or their score (proportional).
+// Weights are relative, so the whole pool is paid out even when a tier is empty.
+function getWeights(round: RewardsRound, entries: RankedEntry[]): number[] {
+  const { distribution } = round;
+  if (distribution.type === "proportional") {
+    return entries.map((entry) => entry.score);
+  }
+
+  const tiers = [...distribution.tiers].sort((a, b) => a.upToRank - b.upToRank);
+  const getTierIndex = (rank: number) =>
+    tiers.findIndex((tier) => rank <= tier.upToRank);
+  const tierSizes = tiers.map(
+    (_, index) =>
+      entries.filter((entry) => getTierIndex(entry.rank) === index).length,
+  );
+
+  return entries.map((entry) => {
+    const tierIndex = getTierIndex(entry.rank);
+    return tierIndex === -1 ? 0 : tiers[tierIndex].share / tierSizes[tierIndex];
+  });
+}
+
+/**
+ * Splits the pool by weight, capping creators at capMicro and handing what they
+ * can't take to everyone still under the cap
+ */
+function allocate(
+  poolMicro: number,
+  weights: number[],
+  capMicro: number | null,
+): number[] {
+  const amounts = weights.map(() => 0);
+  let remaining = poolMicro;
+  let open = weights
+    .map((weight, index) => (weight > 0 ? index : -1))
+    .filter((index) => index !== -1);
+
+  while (open.length > 0 && remaining > 0) {
+    const totalWeight = open.reduce((sum, index) => sum + weights[index], 0);
+    const shares = open.map(
+      (index) => (remaining * weights[index]) / totalWeight,
+    );
+    const capped =
+      capMicro === null
+        ? []
+        : open.filter((index, i) => amounts[index] + shares[i] > capMicro);
+
+    if (capped.length === 0) {
+      open.forEach((index, i) => (amounts[index] += shares[i]));
+      break;
+    }
+
+    for (const index of capped) {
+      remaining -= capMicro! - amounts[index];
+      amounts[index] = capMicro!;
+    }
+    open = open.filter((index) => !capped.includes(index));
+  }
+
+  return amounts;
+}
+
+/**
+ * Rounds down to whole micro-USDC, then hands the leftover units to the largest
+ * remainders (ties go to the better rank, then talent ID) so the total is exact
+ */
+function roundAmounts(
+  amounts: number[],
+  entries: RankedEntry[],
+  capMicro: number | null,
+): number[] {
+  const rounded = amounts.map((amount) => Math.floor(amount));
+  const target = Math.round(amounts.reduce((sum, amount) => sum + amount, 0));
+  let leftover = target - rounded.reduce((sum, amount) => sum + amount, 0);
+
+  const byRemainder = amounts
+    .map((amount, index) => ({ index, remainder: amount - rounded[index] }))
+    .filter(({ remainder }) => remainder > 0)
+    .sort(
+      (a, b) =>
+        b.remainder - a.remainder ||
+        entries[a.index].rank - entries[b.index].rank ||
+        compareIds(
+          entries[a.index].talent_protocol_id,
+          entries[b.index].talent_protocol_id,
+        ),
+    );
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    if (capMicro !== null && rounded[index] + 1 > capMicro) continue;
+    rounded[index] += 1;
+    leftover -= 1;
+  }
+
+  return rounded;
+}
+
+function escapeCsvValue(value: string | number): string {
+  // Names starting with a formula character would run as formulas in spreadsheets
+  const text =
+    typeof value === "string"
+      ? value.replace(/^([=+\-@])/, "'$1")
+      : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toPayoutCsv(payouts: PayoutRow[]): string {
+  const header = "rank,talent_protocol_id,name,score,amount_usdc";
+  const rows = payouts.map((row) =>
+    [row.rank, row.talent_protocol_id, row.name, row.score, row.amount]
+      .map(escapeCsvValue)
+      .join(","),
+  );
+  return [header, ...rows].join("\n") + "\n";
+}
+
+/**
+ * Calculates a round's payouts from its eligible creators, who have already
+ * been checked against any rules beyond the minimum score.
+ * The same leaderboard always produces the same manifest, and its checksum is
+ * the sha256 of the CSV export so a downloaded file can be checked against it.
+ */
+export function calculatePayouts(
+  round: RewardsRound,
+  leaderboard: Pick<
+    LeaderboardEntry,
+    "talent_protocol_id" | "name" | "score"
+  >[],
+): PayoutManifest {
+  const entries: RankedEntry[] = rankByScore(
+    leaderboard
+      .filter((entry) => entry.score >= round.eligibilityMinScore)
+      .map((entry) => ({
+        talent_protocol_id: String(entry.talent_protocol_id),
+        name: entry.name,
+        score: entry.score,
+      })),
+  ).sort(
+    (a, b) =>
+      a.rank - b.rank || compareIds(a.talent_protocol_id, b.talent_protocol_id),
+  );
+
+  const capMicro =
+    round.maxPayoutPerCreator === null
+      ? null
+      : toMicro(round.maxPayoutPerCreator);
+  const poolMicro = toMicro(round.poolAmount);
+  const amounts = roundAmounts(
+    allocate(poolMicro, getWeights(round, entries), capMicro),
+    entries,
+    capMicro,
+  );
+
+  const payouts: PayoutRow[] = entries.map((entry, index) => ({
+    rank: entry.rank,
+    talent_protocol_id: entry.talent_protocol_id,
+    name: entry.name,
+    score: entry.score,
+    amount: formatUsdcAmount(amounts[index]),
+  }));
+  const totalPaid = amounts.reduce((sum, amount) => sum + amount, 0);
+
+  return {
+    roundId: round.id,
+    scorerSlug: round.scorerSlug,
+    eligibilityRules: round.eligibilityRules,
+    eligibilityMinScore: round.eligibilityMinScore,
+    distribution: round.distribution,
+    maxPayoutPerCreator: round.maxPayoutPerCreator,
+    poolAmount: formatUsdcAmount(poolMicro),
+    totalPaid: formatUsdcAmount(totalPaid),
+    eligibleCount: payouts.length,
+    checksum: createHash("sha256").update(toPayoutCsv(payouts)).digest("hex"),
+    payouts,
+  };
+}
+
+function getFinalPayoutsKey(roundId: string): string {
+  return `payouts:final:${roundId}`;
+}
+
+/**
+ * Walks a round's full leaderboard above the minimum score, leaving out hidden
+ * profiles, and keeps the creators who meet the round's other rules
+ */
+export async function fetchEligibleLeaderboard(
+  round: RewardsRound,
+  apiKey: string,
+): Promise<Omit<LeaderboardEntry, "rank">[]> {
+  return filterEligibleEntries(
+    round,
+    withoutHidden(
+      await fetchFullLeaderboard(
+        round.scorerSlug,
+        round.eligibilityMinScore,
+        apiKey,
+      ),
+      await getHiddenIds(),
+    ),
+  );
+}
+
+export async function hasFinalPayoutManifest(
+  roundId: string,
+): Promise<boolean> {
+  return redis ? (await redis.exists(getFinalPayoutsKey(roundId))) > 0 : false;
+}
+
+/**
+ * Records an ended round's manifest from its final eligible creators. It's kept
+ * for good; when one has already been recorded, that one is kept instead.
+ */
+export async function recordFinalPayoutManifest(
+  round: RewardsRound,
+  eligible: Pick<LeaderboardEntry, "talent_protocol_id" | "name" | "score">[],
+): Promise<PayoutManifest> {
+  if (!redis) {
+    throw new Error("Final payouts need Redis to be configured");
+  }
+
+  const key = getFinalPayoutsKey(round.id);
+  const manifest = calculatePayouts(round, eligible);
+  await redis.set(key, manifest, { nx: true });
+  return (await redis.get<PayoutManifest>(key)) ?? manifest;
+}
+
+/**
+ * Returns a round's payout manifest. A running round's is calculated from its
+ * live leaderboard and recalculated when the hide list changes; an ended round's
+ * is the one recorded from its final standings, or null until it's recorded.
+ */
+export async function getPayoutManifest(
+  round: RewardsRound,
+): Promise<PayoutManifest | null> {
+  if (round.status === "ended") {
+    return redis
+      ? redis.get<PayoutManifest>(getFinalPayoutsKey(round.id))
+      : null;
+  }
+
+  const apiKey = process.env.TALENT_API_KEY;
+  if (!apiKey) {
+    throw new Error("Missing Talent API key");
+  }
+
+  return getOrSetCached(
+    `payouts:${round.id}`,
+    async () =>
+      calculatePayouts(round, await fetchEligibleLeaderboard(round, apiKey)),
+    {
+      tags: [MODERATION_CACHE_TAG],
+      ttl: ACTIVE_ROUND_PAYOUTS_TTL_SECONDS,
+    },
+  );
+}
+
+/**
+ * Returns each eligible creator's formatted reward in the round, by Talent ID,
+ * or null if the payouts couldn't be calculated or haven't been recorded yet
+ */
+export async function getRewardsByTalentId(
+  round: RewardsRound,
+): Promise<Map<string, string> | null> {
+  try {
+    const manifest = await getPayoutManifest(round);
+    if (!manifest) {
+      return null;
+    }
+    return new Map(
+      manifest.payouts.map((row) => [
+        row.talent_protocol_id,
+        formatUsdcReward(row.amount),
+      ]),
+    );
+  } catch (error) {
+    console.error("Failed to calculate leaderboard rewards:", error);
+    return null;
+  }
+}
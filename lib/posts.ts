@@ -0,0 +1,43 @@
+import { talentApiClient } from "./talent-api-client";
+import { readJson } from "./api-utils";
+import type { Post, PostsResponse } from "@/app/services/types";
+
+// Largest page the posts endpoint returns
+const POSTS_PAGE_SIZE = 1000;
+// Upper bound on pages walked so a runaway pagination can't loop forever
+const MAX_POSTS_PAGES = 100;
+
+/**
+ * Walks every page of a creator's posts. Throws rather than return part of them
+ * when they run past MAX_POSTS_PAGES, so post counts, streaks and badges are never
+ * measured on a subset.
+ */
+export async function fetchAllPosts(talentUuid: string): Promise<Post[]> {
+  const posts: Post[] = [];
+
+  for (let page = 1; ; page++) {
+    const data = await readJson<PostsResponse>(
+      talentApiClient.getPosts({
+        talent_protocol_id: talentUuid,
+        page: String(page),
+        per_page: String(POSTS_PAGE_SIZE),
+      }),
+    );
+
+    const pagePosts: Post[] = data.posts || [];
+    posts.push(...pagePosts);
+
+    const lastPage = data.pagination?.last_page;
+    if (
+      pagePosts.length < POSTS_PAGE_SIZE ||
+      (lastPage !== undefined && page >= lastPage)
+    ) {
+      return posts;
+    }
+    if (page === MAX_POSTS_PAGES) {
+      throw new Error(
+        `Creator has more than ${posts.length} posts, the most that can be walked`,
+      );
+    }
+  }
+}
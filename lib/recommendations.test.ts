@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import { getLevelUpRecommendations } from "./recommendations";
+import { groupCredentialsByIssuer } from "@/app/services/credentialsService";
+import type { Credential } from "@/app/services/types";
+
+// A credential whose data points hold the creator's value and the tiers it scores on
+function tieredCredential(
+  issuer: string,
+  slug: string,
+  name: string,
+  points: number,
+  maxScore: number,
+  value: string | null,
+  tiers: [threshold: string, points: number][],
+): Credential {
+  return {
+    data_issuer_name: issuer,
+    data_issuer_slug: issuer.toLowerCase(),
+    name,
+    slug,
+    points,
+    max_score: maxScore,
+    description: `${name} on ${issuer}`,
+    external_url: null,
+    last_calculated_at: null,
+    category: "Activity",
+    uom: "",
+    readable_value: value,
+    points_calculation_logic: {
+      data_points: [
+        { is_maximum: true, readable_value: value, value, uom: null },
+        ...tiers.map(([threshold, tierPoints]) => ({
+          is_maximum: false,
+          readable_value: threshold,
+          value: threshold,
+          uom: null,
+          points: tierPoints,
+        })),
+      ],
+      max_points: maxScore,
+    },
+  };
+}
+
+const farcasterFollowers = tieredCredential(
+  "Farcaster",
+  "farcaster_followers",
+  "Followers",
+  24,
+  40,
+  "420",
+  [
+    ["1,000", 36],
+    ["100", 12],
+    ["500", 30],
+    ["250", 24],
+    ["5,000", 40],
+  ],
+);
+
+const paragraphPosts = tieredCredential(
+  "Paragraph",
+  "paragraph_total_posts",
+  "Total Posts",
+  5,
+  20,
+  "8",
+  [
+    ["5", 5],
+    ["10", 15],
+    ["50", 20],
+  ],
+);
+
+// Not tiered, so its whole headroom is the next step
+const zoraHolders = tieredCredential(
+  "Zora",
+  "zora_unique_holders",
+  "Unique Holders",
+  22,
+  40,
+  "1,204",
+  [],
+);
+
+describe("groupCredentialsByIssuer", () => {
+  it("reads tiers from data points, lowest threshold first", () => {
+    const [group] = groupCredentialsByIssuer([farcasterFollowers]);
+
+    expect(group.points[0].readable_value).toBe("420");
+    expect(group.points[0].tiers).toEqual([
+      { threshold: 100, points: 12 },
+      { threshold: 250, points: 24 },
+      { threshold: 500, points: 30 },
+      { threshold: 1000, points: 36 },
+      { threshold: 5000, points: 40 },
+    ]);
+  });
+
+  it("leaves tiers out for credentials without them", () => {
+    const [group] = groupCredentialsByIssuer([zoraHolders]);
+
+    expect(group.points[0].tiers).toBeUndefined();
+  });
+});
+
+describe("getLevelUpRecommendations", () => {
+  it("recommends the next tier with the points it unlocks", () => {
+    const [recommendation] = getLevelUpRecommendations(
+      groupCredentialsByIssuer([farcasterFollowers]),
+      { pointsToNextLevel: 10 },
+    );
+
+    expect(recommendation).toMatchObject({
+      id: "farcaster_followers",
+      title: "Reach 500 Farcaster Followers",
+      detail: "Currently 420",
+      points: 6,
+    });
+  });
+
+  it("ranks by the points of each next step, not the credential's headroom", () => {
+    const recommendations = getLevelUpRecommendations(
+      groupCredentialsByIssuer([
+        farcasterFollowers,
+        paragraphPosts,
+        zoraHolders,
+      ]),
+      { pointsToNextLevel: 100 },
+    );
+
+    expect(
+      recommendations.map((recommendation) => [
+        recommendation.id,
+        recommendation.points,
+      ]),
+    ).toEqual([
+      ["zora_unique_holders", 18],
+      ["paragraph_total_posts", 10],
+      ["farcaster_followers", 6],
+    ]);
+  });
+
+  it("falls back to the remaining headroom once every tier is reached", () => {
+    const [recommendation] = getLevelUpRecommendations(
+      groupCredentialsByIssuer([
+        tieredCredential(
+          "Farcaster",
+          "farcaster_followers",
+          "Followers",
+          36,
+          40,
+          "6,000",
+          [
+            ["100", 12],
+            ["5,000", 36],
+          ],
+        ),
+      ]),
+      { pointsToNextLevel: 10 },
+    );
+
+    expect(recommendation).toMatchObject({
+      title: "Grow Farcaster Followers",
+      points: 4,
+    });
+  });
+
+  it("counts only the first tier of each credential on an unconnected issuer", () => {
+    const [recommendation] = getLevelUpRecommendations(
+      groupCredentialsByIssuer([
+        tieredCredential(
+          "Farcaster",
+          "farcaster_followers",
+          "Followers",
+          0,
+          40,
+          null,
+          [
+            ["100", 12],
+            ["500", 30],
+          ],
+        ),
+      ]),
+      { pointsToNextLevel: 50 },
+    );
+
+    expect(recommendation).toMatchObject({
+      id: "connect:Farcaster",
+      title: "Connect Farcaster",
+      points: 12,
+    });
+  });
+});
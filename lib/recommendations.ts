@@ -0,0 +1,186 @@
+import type {
+  CredentialTier,
+  IssuerCredentialGroup,
+} from "@/app/services/types";
+import {
+  CREDENTIAL_CATEGORIES,
+  EXCLUDED_CREDENTIAL_SLUGS,
+  type CreatorCategoryType,
+} from "./credentialUtils";
+import {
+  cleanCredentialLabel,
+  formatReadableValue,
+  parseReadableValue,
+  shouldShowUom,
+} from "./utils";
+
+export interface LevelUpRecommendation {
+  id: string;
+  issuer: string;
+  title: string;
+  detail: string | null;
+  points: number | null; // null when the credential doesn't count towards the score yet
+  categories: CreatorCategoryType[];
+  comingSoon: boolean;
+}
+
+interface RecommendationOptions {
+  pointsToNextLevel: number | null;
+  primaryCategory?: CreatorCategoryType | null;
+  comingSoonCredentials?: IssuerCredentialGroup[];
+  limit?: number;
+}
+
+type CredentialPoint = IssuerCredentialGroup["points"][number];
+
+// Account age grows on its own, so there's nothing to recommend
+function isActionable(point: CredentialPoint): boolean {
+  if (!point.slug) return true;
+  if (point.slug.endsWith("_account_age")) return false;
+  return !(EXCLUDED_CREDENTIAL_SLUGS as readonly string[]).includes(point.slug);
+}
+
+function getCategories(slug?: string): CreatorCategoryType[] {
+  if (!slug || !(slug in CREDENTIAL_CATEGORIES)) return [];
+  return [...CREDENTIAL_CATEGORIES[slug as keyof typeof CREDENTIAL_CATEGORIES]];
+}
+
+function formatValue(value: string | null, uom: string | null): string | null {
+  if (!value) return null;
+  if (uom === "USDC") {
+    return `$${formatReadableValue(value)}`;
+  }
+  const formatted = formatReadableValue(value, uom);
+  return shouldShowUom(uom) ? `${formatted} ${uom}` : formatted;
+}
+
+/**
+ * The next tier a credential can reach, or null when it isn't tiered or every
+ * tier is already reached
+ */
+function getNextTier(point: CredentialPoint): CredentialTier | null {
+  const current = parseReadableValue(point.readable_value);
+  return (
+    point.tiers?.find(
+      (tier) => tier.threshold > current && tier.points > point.value,
+    ) ?? null
+  );
+}
+
+// Points the credential's next step is worth: its next tier, else all it has left
+function getNextStepPoints(point: CredentialPoint): number {
+  const nextTier = getNextTier(point);
+  return nextTier
+    ? nextTier.points - point.value
+    : point.max_score! - point.value;
+}
+
+// Issuers with no points and no recorded values haven't been connected yet
+function isUnconnected(group: IssuerCredentialGroup): boolean {
+  return (
+    group.total === 0 && group.points.every((point) => !point.readable_value)
+  );
+}
+
+function getIssuerRecommendations(
+  group: IssuerCredentialGroup,
+): LevelUpRecommendation[] {
+  const points = group.points.filter(
+    (point) =>
+      isActionable(point) &&
+      point.max_score !== null &&
+      point.max_score > point.value,
+  );
+  if (points.length === 0) return [];
+
+  if (isUnconnected(group)) {
+    return [
+      {
+        id: `connect:${group.issuer}`,
+        issuer: group.issuer,
+        title: `Connect ${group.issuer}`,
+        detail: `${points.length} credential${points.length === 1 ? "" : "s"} available`,
+        points: points.reduce(
+          (sum, point) => sum + getNextStepPoints(point),
+          0,
+        ),
+        categories: Array.from(
+          new Set(points.flatMap((point) => getCategories(point.slug))),
+        ),
+        comingSoon: false,
+      },
+    ];
+  }
+
+  return points.map((point) => {
+    const label = cleanCredentialLabel(point.label, group.issuer);
+    const currentValue = formatValue(point.readable_value, point.uom);
+    const nextTier = getNextTier(point);
+
+    return {
+      id: point.slug || `${group.issuer}:${point.label}`,
+      issuer: group.issuer,
+      title: nextTier
+        ? `Reach ${formatValue(String(nextTier.threshold), point.uom)} ${group.issuer} ${label}`
+        : point.value > 0
+          ? `Grow ${group.issuer} ${label}`
+          : `Earn ${group.issuer} ${label}`,
+      detail: currentValue ? `Currently ${currentValue}` : null,
+      points: getNextStepPoints(point),
+      categories: getCategories(point.slug),
+      comingSoon: false,
+    };
+  });
+}
+
+/**
+ * Ranks the actions most likely to get a profile to its next level, based on
+ * the points each one unlocks: the next tier of a tiered credential, else the
+ * points the credential still has left to give.
+ * Actions that close the gap on their own rank first, then those in the
+ * creator's primary category, then by points.
+ */
+export function getLevelUpRecommendations(
+  credentials: IssuerCredentialGroup[],
+  {
+    pointsToNextLevel,
+    primaryCategory = null,
+    comingSoonCredentials = [],
+    limit = 5,
+  }: RecommendationOptions,
+): LevelUpRecommendation[] {
+  const target = pointsToNextLevel ?? Infinity;
+  const matchesCategory = (rec: LevelUpRecommendation) =>
+    primaryCategory !== null && rec.categories.includes(primaryCategory);
+
+  const ranked = credentials
+    .flatMap(getIssuerRecommendations)
+    .sort(
+      (a, b) =>
+        Math.min(b.points!, target) - Math.min(a.points!, target) ||
+        Number(matchesCategory(b)) - Number(matchesCategory(a)) ||
+        b.points! - a.points!,
+    )
+    .slice(0, limit);
+
+  // Platforms that don't score yet are worth connecting early
+  const knownIssuers = new Set(credentials.map((group) => group.issuer));
+  const upcoming = comingSoonCredentials
+    .filter((group) => !knownIssuers.has(group.issuer))
+    .map(
+      (group): LevelUpRecommendation => ({
+        id: `coming-soon:${group.issuer}`,
+        issuer: group.issuer,
+        title: `Connect ${group.issuer}`,
+        detail: "Starts counting towards your score soon",
+        points: null,
+        categories: Array.from(
+          new Set(group.points.flatMap((point) => getCategories(point.slug))),
+        ),
+        comingSoon: true,
+      }),
+    )
+    .sort((a, b) => Number(matchesCategory(b)) - Number(matchesCategory(a)));
+
+  return [...ranked, ...upcoming.slice(0, Math.max(0, limit - ranked.length))];
+}
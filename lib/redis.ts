@@ -2,7 +2,7 @@ import { Redis } from "@upstash/redis";
 
 if (!process.env.REDIS_URL || !process.env.REDIS_TOKEN) {
   console.warn(
-    "REDIS_URL or REDIS_TOKEN environment variable is not defined, please add to enable background notifications and webhooks.",
+    "REDIS_URL or REDIS_TOKEN environment variable is not defined, please add to enable background notifications, webhooks and server-side API caching.",
   );
 }
 
@@ -0,0 +1,99 @@
+// Seed for the rewards rounds kept in Redis, newest last. A round here is only copied
+// into Redis when Redis doesn't have it yet, so later changes go through the admin
+// api/rounds endpoint instead; without Redis these are the rounds as they are.
+// The pool is the sum of its sponsors' contributions. Eligibility rules can require a
+// minimum score or level, and { type: "humanity" } a verified humanity credential.
+// A sponsor's txHash is added once their USDC transfer to the pool has been sent.
+
+import {
+  SCORER_SLUGS,
+  type RewardsRound,
+  type RoundSponsor,
+} from "@/app/services/types";
+
+export type RoundConfig = Omit<
+  RewardsRound,
+  "status" | "poolAmount" | "sponsors" | "eligibilityMinScore"
+> & {
+  sponsors: RoundSponsor[];
+};
+
+export const ROUNDS_CONFIG: RoundConfig[] = [
+  {
+    id: "2025-summer",
+    name: "Summer 2025",
+    startsAt: "2025-07-22T00:00:00Z",
+    endsAt: "2025-08-31T23:59:59Z",
+    scorerSlug: SCORER_SLUGS.CREATOR,
+    eligibilityRules: [{ type: "minLevel", level: 3 }],
+    distribution: { type: "proportional" },
+    maxPayoutPerCreator: null,
+    poolAddress: "0x3758e0f97f7f5f91372329d43eca69fcc1af48a7",
+    sponsors: [
+      {
+        id: "base",
+        name: "Base",
+        avatar:
+          "https://wrpcd.net/cdn-cgi/image/anim=false,fit=contain,f=auto,w=576/https%3A%2F%2Fi.imgur.com%2F7Q0QBrm.jpg",
+        amount: 5000,
+        date: "2025-07-15",
+      },
+      {
+        id: "zora",
+        name: "Zora",
+        avatar:
+          "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/1b471987-45b1-48e3-6af4-44929b6e4900/anim=false,fit=contain,f=auto,w=576",
+        amount: 2500,
+        date: "2025-07-18",
+      },
+      {
+        id: "farcaster",
+        name: "Farcaster",
+        avatar:
+          "https://wrpcd.net/cdn-cgi/image/anim=false,fit=contain,f=auto,w=576/https%3A%2F%2Fi.imgur.com%2FI2rEbPF.png",
+        amount: 2500,
+        date: "2025-07-12",
+      },
+      {
+        id: "talent-protocol",
+        name: "Talent Protocol",
+        avatar:
+          "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/002f0efe-2513-41e7-3d89-d38875d76800/anim=false,f=auto,w=288",
+        amount: 2500,
+        date: "2025-07-25",
+      },
+      {
+        id: "noice",
+        name: "Noice",
+        avatar:
+          "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/96aabcca-a8ce-47d6-b6f6-d2b6d1272500/anim=false,fit=contain,f=auto,w=576",
+        amount: 1250,
+        date: "2025-07-08",
+      },
+      {
+        id: "phi",
+        name: "Phi",
+        avatar:
+          "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/9b5ad594-f3e9-4160-9c33-4e0eeaf28500/anim=false,fit=contain,f=auto,w=576",
+        amount: 1250,
+        date: "2025-07-22",
+      },
+      {
+        id: "coop-records",
+        name: "Coop Records",
+        avatar:
+          "https://wrpcd.net/cdn-cgi/image/anim=false,fit=contain,f=auto,w=576/https%3A%2F%2Fi.imgur.com%2FYZRdO5m.jpg",
+        amount: 1250,
+        date: "2025-07-10",
+      },
+      {
+        id: "paragraph",
+        name: "Paragraph",
+        avatar:
+          "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/4855b0cc-c1da-482c-de24-962162497200/anim=false,fit=contain,f=auto,w=576",
+        amount: 1250,
+        date: "2025-07-28",
+      },
+    ],
+  },
+];
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  backfillFinalStandings,
+  finalizeEndedRounds,
+  getRound,
+  saveRound,
+} from "./rounds";
+import { fetchFullLeaderboard } from "./leaderboard";
+import { redis } from "./redis";
+import type { RoundConfig } from "./rounds-config";
+import type { LeaderboardSnapshot, PayoutManifest } from "@/app/services/types";
+
+const ENDS_AT = "2025-07-31T23:59:59Z";
+const HOUR_MS = 60 * 60 * 1000;
+
+// Stands in for Upstash with the few commands the rounds and snapshots use
+vi.mock("./redis", () => {
+  const store = new Map<string, unknown>();
+  const hash = (key: string) =>
+    (store.get(key) ?? {}) as Record<string, unknown>;
+  return {
+    redis: {
+      store,
+      get: async (key: string) => store.get(key) ?? null,
+      set: async (key: string, value: unknown, opts?: { nx?: boolean }) => {
+        if (opts?.nx && store.has(key)) return null;
+        store.set(key, value);
+        return "OK";
+      },
+      exists: async (key: string) => (store.has(key) ? 1 : 0),
+      hgetall: async (key: string) => (store.has(key) ? hash(key) : null),
+      hset: async (key: string, values: Record<string, unknown>) => {
+        store.set(key, { ...hash(key), ...values });
+        return Object.keys(values).length;
+      },
+      hsetnx: async (key: string, field: string, value: unknown) => {
+        if (field in hash(key)) return 0;
+        store.set(key, { ...hash(key), [field]: value });
+        return 1;
+      },
+    },
+  };
+});
+vi.mock("./rounds-config", () => ({
+  ROUNDS_CONFIG: [
+    {
+      id: "test-round",
+      name: "Test Round",
+      startsAt: "2025-07-01T00:00:00Z",
+      endsAt: "2025-07-31T23:59:59Z",
+      scorerSlug: "creator_score",
+      eligibilityRules: [],
+      distribution: { type: "proportional" },
+      maxPayoutPerCreator: null,
+      poolAddress: "0x0000000000000000000000000000000000000000",
+      sponsors: [{ id: "s", name: "S", avatar: "", amount: 100, date: "" }],
+    },
+  ],
+}));
+vi.mock("./moderation", () => ({
+  MODERATION_CACHE_TAG: "moderation",
+  getHiddenIds: async () => new Set<string>(),
+  withoutHidden: <T>(entries: T[]) => entries,
+}));
+vi.mock("./leaderboard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./leaderboard")>()),
+  fetchFullLeaderboard: vi.fn(),
+}));
+
+const store = (redis as unknown as { store: Map<string, unknown> }).store;
+
+// The live leaderboard, as the Talent API returns it
+function liveLeaderboard(...scores: [id: string, score: number][]) {
+  vi.mocked(fetchFullLeaderboard).mockResolvedValue(
+    scores.map(([id, score]) => ({
+      id,
+      talent_protocol_id: id,
+      name: id.toUpperCase(),
+      score,
+      rewards: "-",
+      humanCheckmark: false,
+    })),
+  );
+}
+
+function amounts(): Record<string, string> | undefined {
+  const manifest = store.get("payouts:final:test-round") as
+    | PayoutManifest
+    | undefined;
+  return manifest
+    ? Object.fromEntries(
+        manifest.payouts.map((row) => [row.talent_protocol_id, row.amount]),
+      )
+    : undefined;
+}
+
+describe("finalizeEndedRounds", () => {
+  beforeEach(() => {
+    store.clear();
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("doesn't finalize a round from a snapshot taken before it ended", async () => {
+    // Taken by the daily run on the round's last day, under the old rule
+    const early: LeaderboardSnapshot = {
+      roundId: "test-round",
+      date: "2025-07-31",
+      takenAt: "2025-07-31T00:05:00Z",
+      complete: true,
+      entries: [
+        { talent_protocol_id: "a", name: "A", score: 100, rank: 1 },
+        { talent_protocol_id: "b", name: "B", score: 100, rank: 1 },
+      ],
+    };
+    store.set("leaderboard_snapshots:test-round:2025-07-31", early);
+    // The last day of scoring moved b ahead
+    liveLeaderboard(["b", 300], ["a", 100]);
+    vi.setSystemTime(new Date(ENDS_AT).getTime() + HOUR_MS);
+
+    expect(await finalizeEndedRounds("test-key")).toEqual(["test-round"]);
+
+    expect(amounts()).toEqual({ a: "25.000000", b: "75.000000" });
+    const final = store.get(
+      "leaderboard_snapshots:test-round:2025-08-01",
+    ) as LeaderboardSnapshot;
+    expect(final.complete).toBe(true);
+    expect(new Date(final.takenAt!).getTime()).toBeGreaterThanOrEqual(
+      new Date(ENDS_AT).getTime(),
+    );
+  });
+
+  it("reuses a final snapshot an earlier run already took", async () => {
+    store.set("leaderboard_snapshots:test-round:2025-08-01", {
+      roundId: "test-round",
+      date: "2025-08-01",
+      takenAt: "2025-08-01T00:10:00Z",
+      complete: true,
+      entries: [{ talent_protocol_id: "a", name: "A", score: 100, rank: 1 }],
+    } satisfies LeaderboardSnapshot);
+    liveLeaderboard(["b", 300], ["a", 100]);
+    vi.setSystemTime(new Date(ENDS_AT).getTime() + 2 * HOUR_MS);
+
+    expect(await finalizeEndedRounds("test-key")).toEqual(["test-round"]);
+
+    expect(amounts()).toEqual({ a: "100.000000" });
+    expect(fetchFullLeaderboard).not.toHaveBeenCalled();
+  });
+
+  it("leaves a round unrecorded once it's too long past its end to snapshot", async () => {
+    liveLeaderboard(["a", 100]);
+    vi.setSystemTime(new Date(ENDS_AT).getTime() + 48 * HOUR_MS);
+
+    expect(await finalizeEndedRounds("test-key")).toEqual([]);
+
+    expect(amounts()).toBeUndefined();
+  });
+
+  it("backfills a round left unrecorded from the leaderboard as it is now", async () => {
+    liveLeaderboard(["b", 300], ["a", 100]);
+    vi.setSystemTime(new Date(ENDS_AT).getTime() + 48 * HOUR_MS);
+    const round = (await getRound("test-round"))!;
+
+    expect(await backfillFinalStandings(round, "test-key")).toBe(true);
+
+    expect(amounts()).toEqual({ a: "25.000000", b: "75.000000" });
+    expect(store.get("rounds:standings:test-round")).toHaveLength(2);
+    expect(await backfillFinalStandings(round, "test-key")).toBe(false);
+  });
+});
+
+describe("rounds", () => {
+  const edited = (name: string): RoundConfig => ({
+    id: "test-round",
+    name,
+    startsAt: "2025-07-01T00:00:00Z",
+    endsAt: ENDS_AT,
+    scorerSlug: "creator_score",
+    eligibilityRules: [],
+    distribution: { type: "proportional" },
+    maxPayoutPerCreator: null,
+    poolAddress: "0x0000000000000000000000000000000000000000",
+    sponsors: [{ id: "s", name: "S", avatar: "", amount: 200, date: "" }],
+  });
+
+  beforeEach(() => {
+    store.clear();
+  });
+
+  it("seeds rounds from the config without overwriting an admin's edit", async () => {
+    expect((await getRound("test-round"))?.name).toBe("Test Round");
+
+    expect(await saveRound(edited("Renamed Round"))).toBe(true);
+
+    const round = await getRound("test-round");
+    expect(round?.name).toBe("Renamed Round");
+    expect(round?.poolAmount).toBe(200);
+  });
+
+  it("refuses to change a round whose payouts are final", async () => {
+    store.set("payouts:final:test-round", { roundId: "test-round" });
+
+    expect(await saveRound(edited("Renamed Round"))).toBe(false);
+
+    expect((await getRound("test-round"))?.name).toBe("Test Round");
+  });
+});
@@ -0,0 +1,409 @@
+import Ajv from "ajv";
+import { redis } from "./redis";
+import { filterEligibleEntries, getEligibilityMinScore } from "./eligibility";
+import { ROUNDS_CONFIG, type RoundConfig } from "./rounds-config";
+import { rankByScore } from "./leaderboard";
+import {
+  getFinalSnapshot,
+  takeLeaderboardSnapshot,
+} from "./leaderboard-snapshots";
+import { hasFinalPayoutManifest, recordFinalPayoutManifest } from "./payouts";
+import {
+  SCORER_SLUGS,
+  type ArchivedRound,
+  type LeaderboardSnapshot,
+  type RewardsRound,
+  type RoundStanding,
+  type RoundStatus,
+  type RoundsResponse,
+} from "@/app/services/types";
+
+// Every round keyed by ID; ROUNDS_CONFIG seeds the ones missing from it
+const ROUNDS_KEY = "rounds:config";
+
+// How many creators are kept in a past round's final standings
+const ROUND_STANDINGS_SIZE = 50;
+// How long an ended round's rewards keep showing on the leaderboard
+const ENDED_ROUND_REWARDS_MS = 7 * 24 * 60 * 60 * 1000;
+// How long after a round ends its final snapshot can still be taken; later the
+// leaderboard has moved on too far to stand for the round's close
+const FINAL_SNAPSHOT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function getStandingsKey(roundId: string): string {
+  return `rounds:standings:${roundId}`;
+}
+
+const ROUND_CONFIG_SCHEMA = {
+  type: "object",
+  required: [
+    "id",
+    "name",
+    "startsAt",
+    "endsAt",
+    "scorerSlug",
+    "eligibilityRules",
+    "distribution",
+    "maxPayoutPerCreator",
+    "poolAddress",
+    "sponsors",
+  ],
+  additionalProperties: false,
+  properties: {
+    id: { type: "string", pattern: "^[a-z0-9-]+$" },
+    name: { type: "string", minLength: 1 },
+    startsAt: { type: "string" },
+    endsAt: { type: "string" },
+    scorerSlug: { enum: Object.values(SCORER_SLUGS) },
+    eligibilityRules: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["type"],
+        discriminator: { propertyName: "type" },
+        oneOf: [
+          {
+            type: "object",
+            required: ["type", "score"],
+            additionalProperties: false,
+            properties: {
+              type: { const: "minScore" },
+              score: { type: "number", minimum: 0 },
+            },
+          },
+          {
+            type: "object",
+            required: ["type", "level"],
+            additionalProperties: false,
+            properties: {
+              type: { const: "minLevel" },
+              level: { type: "integer", minimum: 1, maximum: 6 },
+            },
+          },
+          {
+            type: "object",
+            required: ["type"],
+            additionalProperties: false,
+            properties: { type: { const: "humanity" } },
+          },
+        ],
+      },
+    },
+    distribution: {
+      type: "object",
+      required: ["type"],
+      discriminator: { propertyName: "type" },
+      oneOf: [
+        {
+          type: "object",
+          required: ["type"],
+          additionalProperties: false,
+          properties: { type: { const: "proportional" } },
+        },
+        {
+          type: "object",
+          required: ["type", "tiers"],
+          additionalProperties: false,
+          properties: {
+            type: { const: "tiered" },
+            tiers: {
+              type: "array",
+              minItems: 1,
+              items: {
+                type: "object",
+                required: ["upToRank", "share"],
+                additionalProperties: false,
+                properties: {
+                  upToRank: { type: "integer", minimum: 1 },
+                  share: { type: "number", minimum: 0, maximum: 1 },
+                },
+              },
+            },
+          },
+        },
+      ],
+    },
+    maxPayoutPerCreator: { type: "number", minimum: 0, nullable: true },
+    poolAddress: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" },
+    sponsors: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "name", "avatar", "amount", "date"],
+        additionalProperties: false,
+        properties: {
+          id: { type: "string", minLength: 1 },
+          name: { type: "string", minLength: 1 },
+          avatar: { type: "string" },
+          amount: { type: "number", minimum: 0 },
+          date: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+          txHash: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" },
+        },
+      },
+    },
+  },
+};
+
+// The discriminator reports errors against the rule or distribution type sent
+const validateRoundConfigSchema = new Ajv({
+  allErrors: false,
+  discriminator: true,
+}).compile(ROUND_CONFIG_SCHEMA);
+
+/**
+ * Checks a round sent by an admin; returns what's wrong with it, or null when
+ * it can be saved
+ */
+export function validateRoundConfig(value: unknown): string | null {
+  if (!validateRoundConfigSchema(value)) {
+    const [firstError] = validateRoundConfigSchema.errors ?? [];
+    return `round${firstError?.instancePath ?? ""} ${firstError?.message ?? "is invalid"}`;
+  }
+
+  const { startsAt, endsAt } = value as RoundConfig;
+  const starts = new Date(startsAt).getTime();
+  const ends = new Date(endsAt).getTime();
+  if (Number.isNaN(starts) || Number.isNaN(ends)) {
+    return "startsAt and endsAt must be ISO 8601 dates";
+  }
+  if (starts >= ends) {
+    return "A round must end after it starts";
+  }
+  return null;
+}
+
+/**
+ * Returns every round, oldest first. Rounds live in Redis, where admins add and
+ * edit them; ROUNDS_CONFIG only seeds the ones Redis doesn't have yet, and is
+ * read as is when Redis isn't configured.
+ */
+async function getRoundConfigs(): Promise<RoundConfig[]> {
+  if (!redis) {
+    return ROUNDS_CONFIG;
+  }
+
+  const stored =
+    (await redis.hgetall<Record<string, RoundConfig>>(ROUNDS_KEY)) ?? {};
+  for (const seed of ROUNDS_CONFIG) {
+    if (!stored[seed.id]) {
+      // NX, so a round an admin saved in the meantime isn't overwritten
+      await redis.hsetnx(ROUNDS_KEY, seed.id, seed);
+      stored[seed.id] = seed;
+    }
+  }
+  return Object.values(stored).sort((a, b) =>
+    a.startsAt.localeCompare(b.startsAt),
+  );
+}
+
+async function getRewardsRounds(now: number): Promise<RewardsRound[]> {
+  return (await getRoundConfigs()).map((round) => toRewardsRound(round, now));
+}
+
+/**
+ * Adds a round, or replaces the one with the same ID. Returns false instead when
+ * that round's payouts are already final, as they were worked out from it as it is.
+ */
+export async function saveRound(round: RoundConfig): Promise<boolean> {
+  if (!redis) {
+    throw new Error("Saving rounds needs Redis to be configured");
+  }
+  if (await hasFinalPayoutManifest(round.id)) {
+    return false;
+  }
+
+  await redis.hset(ROUNDS_KEY, { [round.id]: round });
+  return true;
+}
+
+function getRoundStatus(round: RoundConfig, now: number): RoundStatus {
+  if (now < new Date(round.startsAt).getTime()) return "upcoming";
+  if (now > new Date(round.endsAt).getTime()) return "ended";
+  return "active";
+}
+
+function toRewardsRound(round: RoundConfig, now: number): RewardsRound {
+  return {
+    ...round,
+    status: getRoundStatus(round, now),
+    eligibilityMinScore: getEligibilityMinScore(round.eligibilityRules),
+    poolAmount: round.sponsors.reduce(
+      (sum, sponsor) => sum + sponsor.amount,
+      0,
+    ),
+    sponsors: [...round.sponsors].sort((a, b) => b.amount - a.amount),
+  };
+}
+
+/**
+ * Returns a past round's final standings, or null until they've been recorded
+ */
+async function getFinalStandings(
+  round: RewardsRound,
+): Promise<RoundStanding[] | null> {
+  if (!redis || round.status !== "ended") {
+    return null;
+  }
+
+  return redis.get<RoundStanding[]>(getStandingsKey(round.id));
+}
+
+function requireRedis() {
+  if (!redis) {
+    throw new Error("Final standings need Redis to be configured");
+  }
+  return redis;
+}
+
+// Both from the eligible creators of the round's final snapshot
+async function recordFinalStandings(
+  round: RewardsRound,
+  snapshot: LeaderboardSnapshot,
+): Promise<void> {
+  const eligible = filterEligibleEntries(round, snapshot.entries);
+  const standings: RoundStanding[] = rankByScore(
+    eligible.map((entry) => ({
+      talent_protocol_id: entry.talent_protocol_id,
+      name: entry.name,
+      pfp: entry.pfp,
+      score: entry.score,
+    })),
+  ).slice(0, ROUND_STANDINGS_SIZE);
+
+  // Another run may have recorded them first; keep whichever landed first
+  await requireRedis().set(getStandingsKey(round.id), standings, { nx: true });
+  await recordFinalPayoutManifest(round, eligible);
+}
+
+/**
+ * Records the final standings and payout manifest of every ended round that
+ * doesn't have them yet, both from the eligible creators of a complete snapshot
+ * taken once the round has ended. The snapshot is taken here unless an earlier
+ * run already took it; a round whose end is more than FINAL_SNAPSHOT_WINDOW_MS
+ * past without one is left for an admin to backfill rather than judged on the
+ * leaderboard as it is now. Run by a cron job after each round ends; once recorded
+ * they're kept for good and never change. Returns the IDs of the rounds recorded.
+ */
+export async function finalizeEndedRounds(apiKey: string): Promise<string[]> {
+  requireRedis();
+
+  const now = Date.now();
+  const finalized: string[] = [];
+  for (const round of await getRewardsRounds(now)) {
+    if (round.status !== "ended" || (await hasFinalPayoutManifest(round.id))) {
+      continue;
+    }
+
+    let snapshot = await getFinalSnapshot(round, FINAL_SNAPSHOT_WINDOW_MS);
+    if (!snapshot) {
+      if (now - new Date(round.endsAt).getTime() > FINAL_SNAPSHOT_WINDOW_MS) {
+        console.warn(
+          `[rounds] No complete snapshot of ${round.id} from when it ended; its final standings wait for an admin to backfill them`,
+        );
+        continue;
+      }
+      snapshot = await takeLeaderboardSnapshot(round, apiKey);
+    }
+
+    await recordFinalStandings(round, snapshot);
+    finalized.push(round.id);
+  }
+
+  return finalized;
+}
+
+/**
+ * Records the final standings and payout manifest of an ended round the cron job
+ * left unrecorded, e.g. one that ended before the job existed. A snapshot from the
+ * round's close is used while one is kept; otherwise the round is judged on the
+ * leaderboard as it is now, which is why this only runs when an admin asks for it.
+ * Returns false when the round's payouts are already final.
+ */
+export async function backfillFinalStandings(
+  round: RewardsRound,
+  apiKey: string,
+): Promise<boolean> {
+  requireRedis();
+  if (await hasFinalPayoutManifest(round.id)) {
+    return false;
+  }
+
+  const snapshot =
+    (await getFinalSnapshot(round, FINAL_SNAPSHOT_WINDOW_MS)) ??
+    (await takeLeaderboardSnapshot(round, apiKey));
+  await recordFinalStandings(round, snapshot);
+  return true;
+}
+
+export async function getRound(roundId: string): Promise<RewardsRound | null> {
+  const now = Date.now();
+  return (await getRewardsRounds(now)).find((r) => r.id === roundId) ?? null;
+}
+
+/**
+ * Returns every round currently running
+ */
+export async function getActiveRounds(): Promise<RewardsRound[]> {
+  return (await getRewardsRounds(Date.now())).filter(
+    (round) => round.status === "active",
+  );
+}
+
+/**
+ * Returns the round leaderboard rewards are shown for: the active round, or
+ * between rounds the one that ended last, for a week after it ended
+ */
+function pickRewardsRound(
+  rounds: RewardsRound[],
+  now: number,
+): RewardsRound | null {
+  return (
+    rounds.find((round) => round.status === "active") ??
+    rounds
+      .filter(
+        (round) =>
+          round.status === "ended" &&
+          now - new Date(round.endsAt).getTime() <= ENDED_ROUND_REWARDS_MS,
+      )
+      .sort(
+        (a, b) => new Date(b.endsAt).getTime() - new Date(a.endsAt).getTime(),
+      )[0] ??
+    null
+  );
+}
+
+export async function getRewardsRound(): Promise<RewardsRound | null> {
+  const now = Date.now();
+  return pickRewardsRound(await getRewardsRounds(now), now);
+}
+
+/**
+ * Returns the active round (or the next one when between rounds), the round
+ * rewards are shown for and the archive of ended rounds, newest first
+ */
+export async function getRounds(): Promise<RoundsResponse> {
+  const now = Date.now();
+  const rounds = await getRewardsRounds(now);
+
+  const current =
+    rounds.find((round) => round.status === "active") ??
+    rounds.find((round) => round.status === "upcoming") ??
+    null;
+
+  const past: ArchivedRound[] = await Promise.all(
+    rounds
+      .filter((round) => round.status === "ended")
+      .sort(
+        (a, b) => new Date(b.endsAt).getTime() - new Date(a.endsAt).getTime(),
+      )
+      .map(async (round) => {
+        try {
+          return { ...round, standings: await getFinalStandings(round) };
+        } catch (error) {
+          console.error(`Failed to load standings for ${round.id}:`, error);
+          return { ...round, standings: null };
+        }
+      }),
+  );
+
+  return { current, rewards: pickRewardsRound(rounds, now), past };
+}
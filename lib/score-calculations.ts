@@ -0,0 +1,86 @@
+import { redis } from "./redis";
+
+export interface PendingScoreCalculation {
+  talentUuid: string;
+  scorerSlug: string;
+  fid: number; // who to notify when the calculation finishes
+  requestedAt: number;
+}
+
+// All pending calculations live in one hash so the completion check can list them
+const PENDING_CALCULATIONS_KEY = "score_calculations:pending";
+
+function getCalculationField(talentUuid: string, scorerSlug: string): string {
+  return `${scorerSlug}:${talentUuid}`;
+}
+
+export async function trackScoreCalculation(
+  calculation: PendingScoreCalculation,
+): Promise<void> {
+  if (!redis) {
+    return;
+  }
+
+  await redis.hset(PENDING_CALCULATIONS_KEY, {
+    [getCalculationField(calculation.talentUuid, calculation.scorerSlug)]:
+      calculation,
+  });
+}
+
+export async function clearScoreCalculation(
+  talentUuid: string,
+  scorerSlug: string,
+): Promise<void> {
+  if (!redis) {
+    return;
+  }
+
+  await redis.hdel(
+    PENDING_CALCULATIONS_KEY,
+    getCalculationField(talentUuid, scorerSlug),
+  );
+}
+
+/**
+ * Stops tracking a calculation once a score calculated after the request is seen.
+ * With requesterFid, only the user who requested it can complete it.
+ * Returns the finished calculation, or null if none was pending or it hasn't finished.
+ */
+export async function completeScoreCalculation(
+  talentUuid: string,
+  scorerSlug: string,
+  lastCalculatedAt: string,
+  requesterFid?: number,
+): Promise<PendingScoreCalculation | null> {
+  if (!redis) {
+    return null;
+  }
+
+  const pending = await redis.hget<PendingScoreCalculation>(
+    PENDING_CALCULATIONS_KEY,
+    getCalculationField(talentUuid, scorerSlug),
+  );
+  if (
+    !pending ||
+    (requesterFid !== undefined && pending.fid !== requesterFid) ||
+    new Date(lastCalculatedAt).getTime() < pending.requestedAt
+  ) {
+    return null;
+  }
+
+  await clearScoreCalculation(talentUuid, scorerSlug);
+  return pending;
+}
+
+export async function getPendingScoreCalculations(): Promise<
+  PendingScoreCalculation[]
+> {
+  if (!redis) {
+    return [];
+  }
+
+  const pending = await redis.hgetall<Record<string, PendingScoreCalculation>>(
+    PENDING_CALCULATIONS_KEY,
+  );
+  return pending ? Object.values(pending) : [];
+}
@@ -0,0 +1,84 @@
+import { redis } from "./redis";
+
+export interface ScoreSnapshot {
+  date: string; // UTC day, YYYY-MM-DD
+  score: number;
+  lastCalculatedAt: string | null;
+  credentials: Record<string, number>; // credential slug -> points
+  recordedAt: number;
+}
+
+const SCORE_HISTORY_PREFIX = "score_history";
+
+// One hash per profile and scorer, with a field per day
+function getScoreHistoryKey(talentUuid: string, scorerSlug: string): string {
+  return `${SCORE_HISTORY_PREFIX}:${scorerSlug}:${talentUuid}`;
+}
+
+function getSnapshotDate(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Stores today's score for a profile, replacing any earlier snapshot from the same day.
+ * When credentials are omitted, the credentials already recorded today are kept.
+ */
+export async function recordScoreSnapshot(
+  talentUuid: string,
+  scorerSlug: string,
+  snapshot: {
+    score: number;
+    lastCalculatedAt: string | null;
+    credentials?: Record<string, number>;
+  },
+): Promise<void> {
+  if (!redis) {
+    return;
+  }
+
+  try {
+    const key = getScoreHistoryKey(talentUuid, scorerSlug);
+    const date = getSnapshotDate();
+    const existing = snapshot.credentials
+      ? null
+      : await redis.hget<ScoreSnapshot>(key, date);
+
+    const entry: ScoreSnapshot = {
+      date,
+      score: snapshot.score,
+      lastCalculatedAt: snapshot.lastCalculatedAt,
+      credentials: snapshot.credentials ?? existing?.credentials ?? {},
+      recordedAt: Date.now(),
+    };
+
+    await redis.hset(key, { [date]: entry });
+  } catch (error) {
+    // History is best-effort and must never break the request that triggered it
+    console.error(`[scoreHistory] Failed to record ${talentUuid}:`, error);
+  }
+}
+
+/**
+ * Returns daily score snapshots for a profile, oldest first
+ */
+export async function getScoreHistory(
+  talentUuid: string,
+  scorerSlug: string,
+  days: number,
+): Promise<ScoreSnapshot[]> {
+  if (!redis) {
+    return [];
+  }
+
+  const snapshots = await redis.hgetall<Record<string, ScoreSnapshot>>(
+    getScoreHistoryKey(talentUuid, scorerSlug),
+  );
+  if (!snapshots) {
+    return [];
+  }
+
+  const since = getSnapshotDate(Date.now() - days * 24 * 60 * 60 * 1000);
+  return Object.values(snapshots)
+    .filter((snapshot) => snapshot.date >= since)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,85 @@
+import { redis } from "./redis";
+import { SCORE_REFRESH_LIMITS } from "./constants";
+
+function requireRedis() {
+  if (!redis) {
+    throw new Error("Score refresh limits need Redis to be configured");
+  }
+  return redis;
+}
+
+function getCooldownKey(talentUuid: string, scorerSlug: string): string {
+  return `score_refresh:cooldown:${scorerSlug}:${talentUuid}`;
+}
+
+function getRateLimitKey(fid: number): string {
+  return `score_refresh:rate_limit:${fid}`;
+}
+
+/**
+ * Returns the seconds left before a profile's score can be refreshed again, 0 if it can
+ */
+export async function getRefreshCooldown(
+  talentUuid: string,
+  scorerSlug: string,
+): Promise<number> {
+  if (!redis) {
+    return 0;
+  }
+
+  const ttl = await redis.ttl(getCooldownKey(talentUuid, scorerSlug));
+  return Math.max(ttl, 0);
+}
+
+/**
+ * Starts a profile's cooldown unless one is already running, in a single step so
+ * concurrent refreshes can't both get through.
+ * Returns the seconds left on the running cooldown, 0 if this refresh claimed it.
+ */
+export async function claimRefreshCooldown(
+  talentUuid: string,
+  scorerSlug: string,
+): Promise<number> {
+  const client = requireRedis();
+  const key = getCooldownKey(talentUuid, scorerSlug);
+  const claimed = await client.set(key, Date.now(), {
+    nx: true,
+    ex: SCORE_REFRESH_LIMITS.COOLDOWN_SECONDS,
+  });
+  if (claimed !== null) {
+    return 0;
+  }
+
+  const ttl = await client.ttl(key);
+  return ttl > 0 ? ttl : SCORE_REFRESH_LIMITS.COOLDOWN_SECONDS;
+}
+
+/**
+ * Lifts a cooldown claimed by a refresh that didn't go through
+ */
+export async function releaseRefreshCooldown(
+  talentUuid: string,
+  scorerSlug: string,
+): Promise<void> {
+  await requireRedis().del(getCooldownKey(talentUuid, scorerSlug));
+}
+
+/**
+ * Counts a refresh against the caller's rate limit.
+ * Returns the seconds until they can refresh again, 0 if this one is allowed.
+ */
+export async function consumeRefreshRateLimit(fid: number): Promise<number> {
+  const client = requireRedis();
+  const key = getRateLimitKey(fid);
+  const count = await client.incr(key);
+  if (count === 1) {
+    await client.expire(key, SCORE_REFRESH_LIMITS.RATE_LIMIT_WINDOW_SECONDS);
+  }
+
+  if (count <= SCORE_REFRESH_LIMITS.RATE_LIMIT_MAX) {
+    return 0;
+  }
+
+  const ttl = await client.ttl(key);
+  return ttl > 0 ? ttl : SCORE_REFRESH_LIMITS.RATE_LIMIT_WINDOW_SECONDS;
+}
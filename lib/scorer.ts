@@ -0,0 +1,57 @@
+import { SCORER_SLUGS, type ScorerSlug } from "@/app/services/types";
+
+// Query param that carries the selected scorer in profile and leaderboard URLs
+export const SCORER_QUERY_PARAM = "scorer";
+
+const SCORERS: Record<
+  ScorerSlug,
+  { param: string; label: string; searchName: string }
+> = {
+  [SCORER_SLUGS.CREATOR]: {
+    param: "creator",
+    label: "Creator Score",
+    searchName: "Creator Score",
+  },
+  [SCORER_SLUGS.BUILDER]: {
+    param: "builder",
+    label: "Builder Score",
+    searchName: "Builder Score",
+  },
+};
+
+/**
+ * Reads a scorer from a URL param or API param, defaulting to Creator Score.
+ * Accepts both the short form ("builder") and the slug ("builder_score").
+ */
+export function parseScorerSlug(value: string | null | undefined): ScorerSlug {
+  const match = (Object.keys(SCORERS) as ScorerSlug[]).find(
+    (slug) => slug === value || SCORERS[slug].param === value,
+  );
+  return match ?? SCORER_SLUGS.CREATOR;
+}
+
+export function getScorerLabel(scorerSlug: ScorerSlug): string {
+  return SCORERS[scorerSlug].label;
+}
+
+// Scorer name used by the Talent advanced search API
+export function getScorerSearchName(scorerSlug: ScorerSlug): string {
+  return SCORERS[scorerSlug].searchName;
+}
+
+/**
+ * Adds the scorer to an app link so shared URLs keep it.
+ * Creator Score is the default and stays out of the URL.
+ */
+export function withScorerParam(href: string, scorerSlug: ScorerSlug): string {
+  if (scorerSlug === SCORER_SLUGS.CREATOR) return href;
+  const separator = href.includes("?") ? "&" : "?";
+  return `${href}${separator}${SCORER_QUERY_PARAM}=${SCORERS[scorerSlug].param}`;
+}
+
+export function getScorerOptions(): Array<{ slug: ScorerSlug; label: string }> {
+  return [SCORER_SLUGS.CREATOR, SCORER_SLUGS.BUILDER].map((slug) => ({
+    slug,
+    label: SCORERS[slug].label,
+  }));
+}
@@ -0,0 +1,138 @@
+import { redis } from "./redis";
+
+export interface ServerCacheOptions<T> {
+  ttl: number; // seconds an entry is served as fresh
+  staleWhileRevalidate?: number; // extra seconds a stale entry is served while refetching
+  tags?: string[]; // used to invalidate groups of entries (e.g. per talent ID)
+  shouldCache?: (data: T) => boolean;
+}
+
+interface ServerCacheEntry<T> {
+  data: T;
+  cachedAt: number;
+}
+
+const CACHE_PREFIX = "server_cache";
+// Tag sets outlive every entry they reference so invalidation never misses one
+const TAG_TTL_SECONDS = 24 * 60 * 60;
+
+// In-flight request tracking to coalesce identical concurrent fetches
+const inFlightRequests = new Map<string, Promise<unknown>>();
+
+function getEntryKey(key: string): string {
+  return `${CACHE_PREFIX}:${key}`;
+}
+
+function getTagKey(tag: string): string {
+  return `${CACHE_PREFIX}:tag:${tag}`;
+}
+
+function coalesce<T>(key: string, operation: () => Promise<T>): Promise<T> {
+  const existing = inFlightRequests.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+
+  const requestPromise = operation().finally(() => {
+    inFlightRequests.delete(key);
+  });
+  inFlightRequests.set(key, requestPromise);
+
+  return requestPromise;
+}
+
+async function fetchAndStore<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: ServerCacheOptions<T>,
+): Promise<T> {
+  const data = await fetcher();
+
+  if (!redis || (options.shouldCache && !options.shouldCache(data))) {
+    return data;
+  }
+
+  try {
+    const entry: ServerCacheEntry<T> = { data, cachedAt: Date.now() };
+    const expiresIn = options.ttl + (options.staleWhileRevalidate ?? 0);
+    await redis.set(getEntryKey(key), entry, { ex: expiresIn });
+
+    for (const tag of options.tags ?? []) {
+      await redis.sadd(getTagKey(tag), key);
+      await redis.expire(getTagKey(tag), Math.max(TAG_TTL_SECONDS, expiresIn));
+    }
+  } catch (error) {
+    // Caching is best-effort, the fetched data is still valid
+    console.error(`[serverCache] Failed to store ${key}:`, error);
+  }
+
+  return data;
+}
+
+/**
+ * Returns cached data for a key, fetching and storing it on a miss.
+ * Stale entries are served immediately while a background refetch runs,
+ * and identical concurrent fetches share a single upstream request.
+ */
+export async function getOrSetCached<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: ServerCacheOptions<T>,
+): Promise<T> {
+  if (!redis) {
+    return coalesce(key, fetcher);
+  }
+
+  let entry: ServerCacheEntry<T> | null = null;
+  try {
+    entry = await redis.get<ServerCacheEntry<T>>(getEntryKey(key));
+  } catch (error) {
+    console.error(`[serverCache] Failed to read ${key}:`, error);
+  }
+
+  if (entry) {
+    const ageSeconds = (Date.now() - entry.cachedAt) / 1000;
+    if (ageSeconds >= options.ttl) {
+      coalesce(key, () => fetchAndStore(key, fetcher, options)).catch(
+        (error) => {
+          console.error(`[serverCache] Revalidation failed for ${key}:`, error);
+        },
+      );
+    }
+    return entry.data;
+  }
+
+  return coalesce(key, () => fetchAndStore(key, fetcher, options));
+}
+
+/**
+ * Removes every cached entry stored under the given tag
+ */
+export async function invalidateCacheTag(tag: string): Promise<void> {
+  if (!redis) {
+    return;
+  }
+
+  try {
+    const tagKey = getTagKey(tag);
+    const keys = await redis.smembers(tagKey);
+    if (keys.length > 0) {
+      await redis.del(...keys.map(getEntryKey));
+    }
+    await redis.del(tagKey);
+  } catch (error) {
+    console.error(`[serverCache] Failed to invalidate tag ${tag}:`, error);
+  }
+}
+
+export function getTalentCacheTag(talentId: string | number): string {
+  return `talent:${talentId}`;
+}
+
+// Tags responses looked up by an account rather than by talent ID
+export function getTalentAccountCacheTag(
+  accountSource: string,
+  identifier: string | number,
+): string {
+  return `talent_account:${accountSource}:${String(identifier).toLowerCase()}`;
+}
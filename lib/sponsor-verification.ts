@@ -0,0 +1,204 @@
+import {
+  createPublicClient,
+  erc20Abi,
+  formatUnits,
+  http,
+  isAddressEqual,
+  isHash,
+  parseEventLogs,
+  parseUnits,
+  TransactionReceiptNotFoundError,
+  type Address,
+  type Hash,
+} from "viem";
+import { base } from "viem/chains";
+import { redis } from "./redis";
+import { getOrSetCached } from "./server-cache";
+import { BASE_USDC_ADDRESS, getBaseRpcUrl } from "./constants";
+import type {
+  RewardsRound,
+  RoundSponsor,
+  SponsorVerification,
+} from "@/app/services/types";
+
+const USDC_DECIMALS = 6;
+// Confirmed transactions never change, so results are kept for a day
+const SPONSOR_VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+// A transaction that isn't found may just not be indexed yet, so isn't cached
+const TX_NOT_FOUND_REASON = "Transaction not found";
+
+function createBaseClient() {
+  return createPublicClient({
+    chain: base,
+    transport: http(getBaseRpcUrl()),
+  });
+}
+
+let _client: ReturnType<typeof createBaseClient> | null = null;
+
+function getBaseClient() {
+  if (!_client) {
+    _client = createBaseClient();
+  }
+  return _client;
+}
+
+function unverified(reason: string): SponsorVerification {
+  return {
+    status: "unverified",
+    onchainAmount: null,
+    blockTimestamp: null,
+    reason,
+  };
+}
+
+// String() and toFixed() switch to exponent notation from 1e21, which parseUnits rejects
+function toUsdcUnits(amount: number): bigint {
+  const decimal = Number.isInteger(amount)
+    ? BigInt(amount).toString()
+    : amount.toFixed(USDC_DECIMALS);
+  return parseUnits(decimal, USDC_DECIMALS);
+}
+
+// Each transaction can only back one sponsor, whichever was verified with it first
+function getSponsorTxKey(txHash: string): string {
+  return `sponsor_tx:${txHash.toLowerCase()}`;
+}
+
+/**
+ * Records the transaction as used by this sponsor unless another sponsor already
+ * claimed it. Returns whether the sponsor holds the transaction.
+ */
+async function claimSponsorTransaction(
+  txHash: string,
+  sponsorKey: string,
+): Promise<boolean> {
+  if (!redis) {
+    throw new Error("Sponsor transactions need Redis to be recorded");
+  }
+
+  const key = getSponsorTxKey(txHash);
+  const claimed = await redis.set(key, sponsorKey, { nx: true });
+  return claimed !== null || (await redis.get<string>(key)) === sponsorKey;
+}
+
+async function readSponsorTransfer(
+  txHash: Hash,
+  poolAddress: Address,
+  claimedAmount: number,
+): Promise<SponsorVerification> {
+  const client = getBaseClient();
+
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: txHash });
+  } catch (error) {
+    // Anything but a missing transaction may be the RPC having a bad moment, so isn't cached
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return unverified(TX_NOT_FOUND_REASON);
+    }
+    throw error;
+  }
+
+  if (receipt.status !== "success") {
+    return unverified("Transaction failed");
+  }
+
+  const transferred = parseEventLogs({
+    abi: erc20Abi,
+    eventName: "Transfer",
+    logs: receipt.logs,
+  })
+    .filter(
+      (log) =>
+        isAddressEqual(log.address, BASE_USDC_ADDRESS) &&
+        isAddressEqual(log.args.to, poolAddress),
+    )
+    .reduce((sum, log) => sum + log.args.value, BigInt(0));
+
+  if (transferred === BigInt(0)) {
+    return unverified("No USDC transfer to the rewards pool");
+  }
+
+  const block = await client.getBlock({ blockNumber: receipt.blockNumber });
+  const onchainAmount = Number(formatUnits(transferred, USDC_DECIMALS));
+  const movedClaimedAmount = transferred >= toUsdcUnits(claimedAmount);
+
+  return {
+    status: movedClaimedAmount ? "verified" : "unverified",
+    onchainAmount,
+    blockTimestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+    ...(movedClaimedAmount
+      ? {}
+      : { reason: "Transferred less than the claimed amount" }),
+  };
+}
+
+/**
+ * Checks a sponsor's transaction on Base for USDC sent to the rewards pool.
+ * A sponsor is verified when the transaction moved at least the claimed amount
+ * and hasn't already verified another sponsor.
+ */
+export async function verifySponsor(
+  round: RewardsRound,
+  sponsor: RoundSponsor,
+): Promise<SponsorVerification> {
+  if (!sponsor.txHash) {
+    return unverified("No transaction recorded");
+  }
+  if (!isHash(sponsor.txHash)) {
+    return unverified("Invalid transaction hash");
+  }
+
+  const verification = await getOrSetCached(
+    `sponsor_verification:${sponsor.txHash.toLowerCase()}:${round.poolAddress.toLowerCase()}:${sponsor.amount}`,
+    () =>
+      readSponsorTransfer(
+        sponsor.txHash as Hash,
+        round.poolAddress as Address,
+        sponsor.amount,
+      ),
+    {
+      ttl: SPONSOR_VERIFICATION_TTL_SECONDS,
+      shouldCache: (result) => result.reason !== TX_NOT_FOUND_REASON,
+    },
+  );
+
+  if (
+    verification.status === "verified" &&
+    !(await claimSponsorTransaction(
+      sponsor.txHash,
+      `${round.id}:${sponsor.id}`,
+    ))
+  ) {
+    return {
+      ...verification,
+      status: "unverified",
+      reason: "Transaction already verified another sponsor",
+    };
+  }
+  return verification;
+}
+
+/**
+ * Returns a round's sponsors with the onchain verification of their contributions.
+ * Sponsors whose transaction couldn't be read are returned without one.
+ */
+export async function withSponsorVerification(
+  round: RewardsRound,
+): Promise<RewardsRound> {
+  const sponsors = await Promise.all(
+    round.sponsors.map(async (sponsor) => {
+      try {
+        return {
+          ...sponsor,
+          verification: await verifySponsor(round, sponsor),
+        };
+      } catch (error) {
+        console.error(`Failed to verify sponsor ${sponsor.id}:`, error);
+        return sponsor;
+      }
+    }),
+  );
+  return { ...round, sponsors };
+}
@@ -0,0 +1,109 @@
+import type { Post, PostingStreaks, Streak } from "@/app/services/types";
+
+export type { PostingStreaks, Streak } from "@/app/services/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 1970-01-01 was a Thursday; shifting by 3 days makes weeks start on Monday
+const EPOCH_TO_MONDAY_DAYS = 3;
+
+/**
+ * Falls back to UTC for anything Intl doesn't recognise as a time zone
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return "UTC";
+  }
+}
+
+// Calendar date of an instant in a time zone
+function getLocalDate(
+  date: Date,
+  formatter: Intl.DateTimeFormat,
+): { year: number; month: number; day: number } {
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value]),
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+  };
+}
+
+function getWeekIndex(local: { year: number; month: number; day: number }) {
+  const dayIndex = Date.UTC(local.year, local.month - 1, local.day) / DAY_MS;
+  return Math.floor((dayIndex + EPOCH_TO_MONDAY_DAYS) / 7);
+}
+
+function getMonthIndex(local: { year: number; month: number }) {
+  return local.year * 12 + (local.month - 1);
+}
+
+/**
+ * Longest run of consecutive periods, and the run still going: one that
+ * reaches the current period or the one before, which may yet continue
+ */
+function getStreak(periods: Set<number>, currentPeriod: number): Streak {
+  const sorted = Array.from(periods).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    run = i > 0 && sorted[i] === sorted[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  let current = 0;
+  let period = periods.has(currentPeriod) ? currentPeriod : currentPeriod - 1;
+  while (periods.has(period)) {
+    current++;
+    period--;
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Weekly (Monday to Sunday) and monthly posting streaks, with periods taken
+ * from each post's date in the given time zone
+ */
+export function calculatePostingStreaks(
+  posts: Pick<Post, "onchain_created_at">[],
+  timeZone: string = "UTC",
+  now: Date = new Date(),
+): PostingStreaks {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(timeZone),
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  });
+
+  const weeks = new Set<number>();
+  const months = new Set<number>();
+  posts.forEach((post) => {
+    const date = new Date(post.onchain_created_at);
+    if (Number.isNaN(date.getTime())) return;
+
+    const local = getLocalDate(date, formatter);
+    weeks.add(getWeekIndex(local));
+    months.add(getMonthIndex(local));
+  });
+
+  const today = getLocalDate(now, formatter);
+  return {
+    weekly: getStreak(weeks, getWeekIndex(today)),
+    monthly: getStreak(months, getMonthIndex(today)),
+  };
+}
+
+/**
+ * The browser's time zone, reported as the creator's when they view their own badges
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
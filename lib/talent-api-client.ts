@@ -11,9 +11,20 @@ import {
   createNotFoundResponse,
 } from "./api-utils";
 import { NextResponse } from "next/server";
-
-// API endpoints
-const TALENT_API_BASE = "https://api.talentprotocol.com";
+import { TALENT_API_CACHE_TTLS, getTalentApiBaseUrl } from "./constants";
+import {
+  getOrSetCached,
+  getTalentAccountCacheTag,
+  getTalentCacheTag,
+  invalidateCacheTag,
+} from "./server-cache";
+import {
+  type TalentApiEndpoint,
+  type TalentApiResponses,
+  TalentApiSchemaError,
+  validateTalentApiResponse,
+  createSchemaErrorResponse,
+} from "./talent-api-schemas";
 
 export interface TalentApiClientOptions {
   apiKey?: string;
@@ -62,12 +73,54 @@ export class TalentApiClient {
     return urlParams;
   }
 
-  private async makeRequest(
-    endpoint: string,
+  private getCacheTags(params: URLSearchParams): string[] {
+    const id = params.get("id") || params.get("talent_id");
+    if (!id) {
+      return [];
+    }
+    // Account lookups are invalidated through the talent's accounts, see invalidateTalentCache
+    const accountSource = params.get("account_source");
+    return [
+      accountSource
+        ? getTalentAccountCacheTag(accountSource, id)
+        : getTalentCacheTag(id),
+    ];
+  }
+
+  /**
+   * Drops every cached response about a talent, including the ones looked up
+   * by any of their accounts, so the next read fetches fresh data
+   */
+  async invalidateTalentCache(talentId: string): Promise<void> {
+    const tags = [getTalentCacheTag(talentId)];
+    try {
+      const { accounts } = await this.makeRequest(
+        "/accounts",
+        new URLSearchParams({ id: talentId }),
+      );
+      for (const account of accounts ?? []) {
+        tags.push(getTalentAccountCacheTag(account.source, account.identifier));
+        if (account.username) {
+          tags.push(getTalentAccountCacheTag(account.source, account.username));
+        }
+      }
+    } catch (error) {
+      // The talent ID lookups are still invalidated; account ones expire on their own
+      logApiError(
+        "invalidateTalentCache",
+        talentId,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    await Promise.all(tags.map((tag) => invalidateCacheTag(tag)));
+  }
+
+  private async fetchFromApi<E extends TalentApiEndpoint>(
+    endpoint: E,
     params: URLSearchParams,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  ): Promise<any> {
-    const url = buildApiUrl(`${TALENT_API_BASE}${endpoint}`, params);
+  ): Promise<TalentApiResponses[E]> {
+    const url = buildApiUrl(`${getTalentApiBaseUrl()}${endpoint}`, params);
     const headers = createTalentApiHeaders(this.apiKey);
 
     const response = await fetch(url, { headers });
@@ -84,7 +137,29 @@ export class TalentApiClient {
       );
     }
 
-    return data;
+    // Validate before caching so malformed responses are never stored
+    return validateTalentApiResponse(endpoint, data);
+  }
+
+  private async makeRequest<E extends TalentApiEndpoint>(
+    endpoint: E,
+    params: URLSearchParams,
+    shouldCache?: (data: TalentApiResponses[E]) => boolean,
+  ): Promise<TalentApiResponses[E]> {
+    const cacheTtl = TALENT_API_CACHE_TTLS[endpoint];
+    if (!cacheTtl) {
+      return this.fetchFromApi(endpoint, params);
+    }
+
+    return getOrSetCached(
+      `talent_api:${endpoint}?${params.toString()}`,
+      () => this.fetchFromApi(endpoint, params),
+      {
+        ...cacheTtl,
+        tags: this.getCacheTags(params),
+        shouldCache,
+      },
+    );
   }
 
   async getScore(params: TalentProtocolParams): Promise<NextResponse> {
@@ -100,19 +175,16 @@ export class TalentApiClient {
 
     try {
       const urlParams = this.buildRequestParams(params);
-      const url = buildApiUrl(`${TALENT_API_BASE}/score`, urlParams);
-      const headers = createTalentApiHeaders(this.apiKey);
-      const response = await fetch(url, { headers });
-
-      if (!validateJsonResponse(response)) {
-        throw new Error("Invalid response format from Talent API");
-      }
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(
-          data.error || `HTTP ${response.status}: ${response.statusText}`,
-        );
-      }
+      // Don't cache while a calculation is running so the result shows up as soon as it lands
+      const data = await this.makeRequest(
+        "/score",
+        urlParams,
+        (result) =>
+          !result.score?.calculating_score &&
+          !result.scores?.some(
+            (score: { calculating_score?: boolean }) => score.calculating_score,
+          ),
+      );
       // Transform Farcaster response to match wallet response format
       if (params.account_source === "farcaster" && data.scores?.[0]) {
         const transformed = {
@@ -129,6 +201,9 @@ export class TalentApiClient {
       }
       return NextResponse.json(data);
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       const identifier =
         params.account_source === "wallet" ? params.address : params.fid;
       logApiError(
@@ -164,7 +239,7 @@ export class TalentApiClient {
         urlParams.append("scorer_slug", params.scorer_slug);
       }
 
-      const url = `${TALENT_API_BASE}/score/refresh_scorer?${urlParams.toString()}`;
+      const url = `${getTalentApiBaseUrl()}/score/refresh_scorer?${urlParams.toString()}`;
       console.log("📤 Making PUT request to:", url);
       console.log("📤 Headers:", createTalentApiHeaders(this.apiKey));
 
@@ -195,8 +270,12 @@ export class TalentApiClient {
       }
 
       console.log("✅ refreshScore successful");
+      await this.invalidateTalentCache(talentId!);
       return NextResponse.json(data);
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       const identifier = params.talent_protocol_id || params.id;
       console.log("❌ Exception in refreshScore:", error);
       logApiError(
@@ -224,6 +303,9 @@ export class TalentApiClient {
       const data = await this.makeRequest("/credentials", urlParams);
       return NextResponse.json(data);
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       const identifier =
         params.account_source === "wallet" ? params.address : params.fid;
       logApiError(
@@ -262,6 +344,9 @@ export class TalentApiClient {
       const data = await this.makeRequest("/socials", urlParams);
       return NextResponse.json(data);
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       const identifier = params.talent_protocol_id || params.id;
 
       if (error instanceof Error && error.message.includes("404")) {
@@ -309,13 +394,12 @@ export class TalentApiClient {
       const accounts = Array.isArray(profile.accounts) ? profile.accounts : [];
 
       const farcasterAccount = accounts.find(
-        (acc: { source: string; username?: string }) =>
-          acc.source === "farcaster" && acc.username,
+        (acc) => acc.source === "farcaster" && acc.username,
       );
       const fid = farcasterAccount ? Number(farcasterAccount.identifier) : null;
 
       const walletAccount = accounts.find(
-        (acc: { identifier: string; source: string }) =>
+        (acc) =>
           acc.source === "wallet" &&
           acc.identifier &&
           acc.identifier.startsWith("0x"),
@@ -325,16 +409,14 @@ export class TalentApiClient {
         : profile.user?.main_wallet || null;
 
       const githubAccount = accounts.find(
-        (acc: { username?: string; source: string }) =>
-          acc.source === "github" && acc.username,
+        (acc) => acc.source === "github" && acc.username,
       );
 
       const fname = farcasterAccount?.username || null;
       const github = githubAccount ? githubAccount.username : null;
-      const talentUuid: string | null = profile.id || null;
 
+      // profile.id is guaranteed by the /profile schema
       return NextResponse.json({
-        id: talentUuid,
         fid,
         wallet,
         github,
@@ -344,6 +426,9 @@ export class TalentApiClient {
         ...profile,
       });
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       logApiError(
         "getProfile",
         params.id || "unknown",
@@ -391,6 +476,9 @@ export class TalentApiClient {
       );
       return NextResponse.json(data);
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       const identifier = params.talent_protocol_id || params.id;
 
       if (error instanceof Error && error.message.includes("404")) {
@@ -432,6 +520,9 @@ export class TalentApiClient {
 
       return NextResponse.json(response, { status: 200 });
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       logApiError(
         "getAccounts",
         params.id || params.talent_protocol_id || "unknown",
@@ -470,6 +561,9 @@ export class TalentApiClient {
 
       return NextResponse.json(response, { status: 200 });
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       logApiError(
         "getHumanityCredentials",
         params.id || params.talent_protocol_id || "unknown",
@@ -529,24 +623,15 @@ export class TalentApiClient {
         );
       });
 
-      const url = `${TALENT_API_BASE}/search/advanced/profiles?${queryParams.toString()}`;
-
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          "X-API-Key": this.apiKey,
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Talent API error (${response.status}): ${errorText}`);
-      }
-
-      const data = await response.json();
+      const data = await this.makeRequest(
+        "/search/advanced/profiles",
+        queryParams,
+      );
       return NextResponse.json(data, { status: 200 });
     } catch (error) {
+      if (error instanceof TalentApiSchemaError) {
+        return createSchemaErrorResponse(error);
+      }
       logApiError(
         "searchProfiles",
         params.query,
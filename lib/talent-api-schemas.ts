@@ -0,0 +1,402 @@
+import Ajv, { type ValidateFunction } from "ajv";
+import { NextResponse } from "next/server";
+import { logApiError } from "./api-utils";
+
+// Response shapes returned by the Talent Protocol API.
+// Only the fields the app relies on are required; everything else passes through.
+
+export interface TalentApiScore {
+  points: number | null;
+  last_calculated_at?: string | null;
+  calculating_score?: boolean;
+  calculating_score_enqueued_at?: string | null;
+  slug?: string;
+}
+
+export interface TalentScoreApiResponse {
+  score?: TalentApiScore;
+  scores?: TalentApiScore[];
+}
+
+export interface TalentApiCredential {
+  name: string;
+  slug: string;
+  data_issuer_name: string;
+  data_issuer_slug?: string;
+  points: number;
+  max_score: number;
+  readable_value?: string | null;
+  uom?: string | null;
+  external_url?: string | null;
+  last_calculated_at?: string | null;
+  points_calculation_logic?: {
+    data_points?: Array<{
+      is_maximum?: boolean;
+      readable_value: string | null;
+      value: string | null;
+      uom: string | null;
+      points?: number | null;
+    }> | null;
+    max_points?: number | null;
+  } | null;
+  [key: string]: unknown;
+}
+
+export interface TalentCredentialsApiResponse {
+  credentials: TalentApiCredential[];
+}
+
+export interface TalentSocialsApiResponse {
+  socials: Array<{
+    source: string;
+    handle: string | null;
+    followers_count?: number | null;
+    owned_since?: string | null;
+    profile_url?: string | null;
+    image_url?: string | null;
+  }>;
+}
+
+export interface TalentApiAccount {
+  source: string;
+  identifier: string;
+  username?: string | null;
+  [key: string]: unknown;
+}
+
+export interface TalentProfileApiResponse {
+  profile?: {
+    id: string;
+    display_name?: string | null;
+    name?: string | null;
+    image_url?: string | null;
+    bio?: string | null;
+    human_checkmark?: boolean | null;
+    accounts?: TalentApiAccount[] | null;
+    user?: { main_wallet?: string | null } | null;
+    [key: string]: unknown;
+  } | null;
+}
+
+export interface TalentAccountsApiResponse {
+  accounts?: TalentApiAccount[];
+}
+
+export interface TalentHumanityApiResponse {
+  credentials?: Array<{
+    slug: string;
+    points: number;
+    [key: string]: unknown;
+  }>;
+  [key: string]: unknown;
+}
+
+export interface TalentPostsApiResponse {
+  posts: Array<{
+    platform: string;
+    onchain_created_at: string;
+    [key: string]: unknown;
+  }>;
+  pagination?: {
+    current_page: number;
+    last_page: number;
+  };
+}
+
+export interface TalentApiSearchProfile {
+  id: string;
+  display_name?: string | null;
+  name?: string | null;
+  image_url?: string | null;
+  human_checkmark?: boolean | null;
+  scores?: Array<{ slug: string; points?: number | null }> | null;
+  [key: string]: unknown;
+}
+
+export interface TalentSearchApiResponse {
+  profiles: TalentApiSearchProfile[];
+  pagination?: {
+    current_page?: number;
+    last_page?: number;
+    total?: number;
+  };
+}
+
+export interface TalentApiResponses {
+  "/score": TalentScoreApiResponse;
+  "/credentials": TalentCredentialsApiResponse;
+  "/socials": TalentSocialsApiResponse;
+  "/profile": TalentProfileApiResponse;
+  "/accounts": TalentAccountsApiResponse;
+  "/human_checkmark": TalentHumanityApiResponse;
+  "/creator_posts/profile_posts": TalentPostsApiResponse;
+  "/search/advanced/profiles": TalentSearchApiResponse;
+}
+
+export type TalentApiEndpoint = keyof TalentApiResponses;
+
+const nullableString = { type: "string", nullable: true } as const;
+
+const scoreSchema = {
+  type: "object",
+  required: ["points"],
+  properties: {
+    points: { type: "number", nullable: true },
+    last_calculated_at: nullableString,
+    calculating_score: { type: "boolean" },
+    calculating_score_enqueued_at: nullableString,
+    slug: { type: "string" },
+  },
+};
+
+const accountSchema = {
+  type: "object",
+  required: ["source", "identifier"],
+  properties: {
+    source: { type: "string" },
+    identifier: { type: "string" },
+    username: nullableString,
+  },
+};
+
+const TALENT_API_SCHEMAS: Record<TalentApiEndpoint, object> = {
+  "/score": {
+    type: "object",
+    properties: {
+      score: scoreSchema,
+      scores: { type: "array", items: scoreSchema },
+    },
+    anyOf: [{ required: ["score"] }, { required: ["scores"] }],
+  },
+  "/credentials": {
+    type: "object",
+    required: ["credentials"],
+    properties: {
+      credentials: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["name", "slug", "data_issuer_name", "points", "max_score"],
+          properties: {
+            name: { type: "string" },
+            slug: { type: "string" },
+            data_issuer_name: { type: "string" },
+            points: { type: "number" },
+            max_score: { type: "number" },
+            readable_value: nullableString,
+            uom: nullableString,
+            external_url: nullableString,
+            points_calculation_logic: {
+              type: "object",
+              nullable: true,
+              properties: {
+                data_points: {
+                  type: "array",
+                  nullable: true,
+                  items: {
+                    type: "object",
+                    properties: {
+                      is_maximum: { type: "boolean" },
+                      readable_value: nullableString,
+                      value: nullableString,
+                      uom: nullableString,
+                      points: { type: "number", nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  "/socials": {
+    type: "object",
+    required: ["socials"],
+    properties: {
+      socials: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["source", "handle"],
+          properties: {
+            source: { type: "string" },
+            handle: nullableString,
+            followers_count: { type: "number", nullable: true },
+            owned_since: nullableString,
+            profile_url: nullableString,
+            image_url: nullableString,
+          },
+        },
+      },
+    },
+  },
+  "/profile": {
+    type: "object",
+    properties: {
+      profile: {
+        type: "object",
+        nullable: true,
+        required: ["id"],
+        properties: {
+          id: { type: "string" },
+          display_name: nullableString,
+          name: nullableString,
+          image_url: nullableString,
+          bio: nullableString,
+          human_checkmark: { type: "boolean", nullable: true },
+          accounts: { type: "array", nullable: true, items: accountSchema },
+        },
+      },
+    },
+  },
+  "/accounts": {
+    type: "object",
+    properties: {
+      accounts: { type: "array", items: accountSchema },
+    },
+  },
+  "/human_checkmark": {
+    type: "object",
+    properties: {
+      credentials: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["slug", "points"],
+          properties: {
+            slug: { type: "string" },
+            points: { type: "number" },
+          },
+        },
+      },
+    },
+  },
+  "/creator_posts/profile_posts": {
+    type: "object",
+    required: ["posts"],
+    properties: {
+      posts: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["platform", "onchain_created_at"],
+          properties: {
+            platform: { type: "string" },
+            onchain_created_at: { type: "string" },
+          },
+        },
+      },
+      pagination: {
+        type: "object",
+        required: ["current_page", "last_page"],
+        properties: {
+          current_page: { type: "integer" },
+          last_page: { type: "integer" },
+        },
+      },
+    },
+  },
+  "/search/advanced/profiles": {
+    type: "object",
+    required: ["profiles"],
+    properties: {
+      profiles: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string" },
+            display_name: nullableString,
+            name: nullableString,
+            image_url: nullableString,
+            human_checkmark: { type: "boolean", nullable: true },
+            scores: {
+              type: "array",
+              nullable: true,
+              items: {
+                type: "object",
+                required: ["slug"],
+                properties: {
+                  slug: { type: "string" },
+                  points: { type: "number", nullable: true },
+                },
+              },
+            },
+          },
+        },
+      },
+      pagination: {
+        type: "object",
+        properties: {
+          current_page: { type: "integer" },
+          last_page: { type: "integer" },
+          total: { type: "integer" },
+        },
+      },
+    },
+  },
+};
+
+const ajv = new Ajv({ allErrors: false });
+
+// Compile lazily so only the endpoints actually used pay the cost
+const validators = new Map<TalentApiEndpoint, ValidateFunction>();
+
+function getValidator(endpoint: TalentApiEndpoint): ValidateFunction {
+  let validator = validators.get(endpoint);
+  if (!validator) {
+    validator = ajv.compile(TALENT_API_SCHEMAS[endpoint]);
+    validators.set(endpoint, validator);
+  }
+  return validator;
+}
+
+/**
+ * Thrown when a Talent API response doesn't match the expected schema
+ */
+export class TalentApiSchemaError extends Error {
+  readonly endpoint: TalentApiEndpoint;
+  readonly path: string;
+
+  constructor(endpoint: TalentApiEndpoint, path: string, detail: string) {
+    super(`Unexpected ${endpoint} response at ${path}: ${detail}`);
+    this.name = "TalentApiSchemaError";
+    this.endpoint = endpoint;
+    this.path = path;
+  }
+}
+
+/**
+ * Validates a raw Talent API response, throwing TalentApiSchemaError on mismatch
+ */
+export function validateTalentApiResponse<E extends TalentApiEndpoint>(
+  endpoint: E,
+  data: unknown,
+): TalentApiResponses[E] {
+  const validate = getValidator(endpoint);
+  if (!validate(data)) {
+    const [firstError] = validate.errors ?? [];
+    throw new TalentApiSchemaError(
+      endpoint,
+      firstError?.instancePath || "/",
+      firstError?.message || "invalid response",
+    );
+  }
+  return data as TalentApiResponses[E];
+}
+
+/**
+ * Logs a schema mismatch and surfaces it as a 502 naming the offending field
+ */
+export function createSchemaErrorResponse(
+  error: TalentApiSchemaError,
+): NextResponse {
+  logApiError("talentApiSchema", error.endpoint, error.message);
+  return NextResponse.json(
+    { error: error.message, endpoint: error.endpoint, path: error.path },
+    { status: 502 },
+  );
+}
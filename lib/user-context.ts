@@ -6,6 +6,31 @@ type UserContext = {
   pfpUrl?: string;
 };
 
+const DEFAULT_DEV_USER: UserContext = {
+  fid: 374478,
+  username: "macedo",
+  displayName: "Filipe Macedo",
+  pfpUrl: "https://i.imgur.com/YgNTMUI.jpg",
+};
+
+/**
+ * Development user, configurable so local work can target mock fixture profiles
+ * (e.g. NEXT_PUBLIC_DEV_FID=100001 NEXT_PUBLIC_DEV_USERNAME=alice)
+ */
+export function getDevUserContext(): UserContext {
+  const fid = Number(process.env.NEXT_PUBLIC_DEV_FID);
+  if (!fid) {
+    return DEFAULT_DEV_USER;
+  }
+
+  const username = process.env.NEXT_PUBLIC_DEV_USERNAME || undefined;
+  return {
+    fid,
+    username,
+    displayName: username,
+  };
+}
+
 /**
  * Get user context from Farcaster MiniApp
  * Returns the user context if available, otherwise undefined
@@ -13,14 +38,9 @@ type UserContext = {
 export function getUserContext(
   context: { user?: UserContext } | null,
 ): UserContext | undefined {
-  // Development mode: return hardcoded user data for FID 8446
+  // Development mode: impersonate NEXT_PUBLIC_DEV_FID, or the default dev user
   if (process.env.NODE_ENV === "development") {
-    return {
-      fid: 374478,
-      username: "macedo",
-      displayName: "Filipe Macedo",
-      pfpUrl: "https://i.imgur.com/YgNTMUI.jpg",
-    };
+    return getDevUserContext();
   }
 
   // Return the actual Farcaster context if available
@@ -257,6 +257,12 @@ export function formatReadableValue(
   return num.toString();
 }
 
+// Readable values look like "1,204" or "812"
+export function parseReadableValue(value: string | null): number {
+  const parsed = Number((value ?? "").replace(/,/g, ""));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
 export function cleanCredentialLabel(label: string, issuer: string): string {
   // Remove the issuer name from the beginning of the label if it exists
   const issuerPrefix = `${issuer} `;
@@ -307,11 +313,22 @@ export function setCachedData<T>(key: string, data: T): void {
   }
 }
 
+export function clearCachedData(key: string): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Storage unavailable, nothing to clear
+  }
+}
+
 // Cache duration constants
 export const CACHE_DURATIONS = {
   PROFILE_DATA: 5 * 60 * 1000, // 5 minutes
   SCORE_BREAKDOWN: 30 * 60 * 1000, // 30 minutes (until profile updates)
   ETH_PRICE: 24 * 60 * 60 * 1000, // 24 hours
+  CREDENTIALS_SNAPSHOT: 30 * 24 * 60 * 60 * 1000, // 30 days
 } as const;
 
 export { resolveTalentUser } from "./user-resolver";
@@ -392,3 +409,12 @@ export function formatPostDate(dateString: string): string {
     year: "numeric",
   });
 }
+
+// Formats a USDC payout amount for the leaderboard: whole dollars, cents below $1
+export function formatUsdcReward(amount: string | number): string {
+  const value = Number(amount);
+  if (value >= 1) {
+    return `$${value.toFixed(0)}`;
+  }
+  return `$${value.toFixed(2)}`;
+}
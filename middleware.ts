@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { REQUEST_PATH_HEADER } from "@/lib/constants";
+
+/**
+ * Passes the requested path on to server components, so profile redirects to
+ * the canonical identifier can keep the tab that was asked for
+ */
+export function middleware(req: NextRequest) {
+  const requestHeaders = new Headers(req.headers);
+  requestHeaders.set(
+    REQUEST_PATH_HEADER,
+    req.nextUrl.pathname + req.nextUrl.search,
+  );
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: ["/((?!api|_next/static|_next/image|.*\\..*).*)"],
+};
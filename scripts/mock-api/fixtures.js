@@ -0,0 +1,355 @@
+// Fixture profiles served by the local mock API server (scripts/mock-api/server.js)
+// Each profile exercises a different edge case of the Talent Protocol and Neynar APIs.
+
+const NOW = Date.now();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days) {
+  return new Date(NOW - days * DAY_MS).toISOString();
+}
+
+function credential(issuer, slug, name, points, maxScore, value, uom) {
+  return {
+    name,
+    slug,
+    data_issuer_name: issuer,
+    data_issuer_slug: issuer.toLowerCase().replace(/\s+/g, "_"),
+    category: "Activity",
+    description: `${name} on ${issuer}`,
+    points,
+    max_score: maxScore,
+    readable_value: value,
+    uom,
+    external_url: null,
+    last_calculated_at: daysAgo(1),
+    points_calculation_logic: {
+      data_points: [
+        {
+          is_maximum: true,
+          readable_value: value,
+          value: value === null ? null : String(value).replace(/,/g, ""),
+          uom,
+        },
+      ],
+      max_points: maxScore,
+    },
+  };
+}
+
+const PROFILES = [
+  {
+    // Fully populated creator, the default development user
+    id: "0b6a7c52-2f1e-4c1a-9d3e-5a4f8e1c2b01",
+    fid: 100001,
+    username: "alice",
+    displayName: "Alice Writes",
+    bio: "Onchain writer and collector",
+    imageUrl: "https://i.pravatar.cc/300?u=alice",
+    wallet: "0x1111111111111111111111111111111111111111",
+    github: "alice-dev",
+    scores: { builder_score: 88, creator_score: 142 },
+    calculating: false,
+    human: true,
+    credentials: [
+      credential(
+        "Farcaster",
+        "farcaster_followers",
+        "Followers",
+        24,
+        40,
+        "12,480",
+        null,
+      ),
+      credential(
+        "Farcaster",
+        "farcaster_account_age",
+        "Account Age",
+        8,
+        10,
+        "812",
+        "days",
+      ),
+      credential(
+        "Paragraph",
+        "paragraph_total_posts",
+        "Total Posts",
+        18,
+        20,
+        "63",
+        null,
+      ),
+      credential(
+        "Paragraph",
+        "paragraph_creator_rewards",
+        "Creator Rewards",
+        30,
+        60,
+        "1.84",
+        "ETH",
+      ),
+      credential(
+        "Zora",
+        "zora_unique_holders",
+        "Unique Holders",
+        22,
+        40,
+        "1,204",
+        null,
+      ),
+      credential(
+        "Zora",
+        "zora_coin_earnings",
+        "Coin Earnings",
+        12,
+        30,
+        "0.42",
+        "ETH",
+      ),
+      credential(
+        "Warpcast",
+        "warpcast_rewards_usdc",
+        "Rewards",
+        16,
+        30,
+        "640",
+        "USDC",
+      ),
+      credential(
+        "Mirror",
+        "mirror_total_posts",
+        "Total Posts",
+        0,
+        20,
+        null,
+        null,
+      ),
+      credential(
+        "Talent Protocol",
+        "talent_protocol_human_checkmark",
+        "Human Checkmark",
+        12,
+        12,
+        "1",
+        null,
+      ),
+    ],
+    socials: [
+      {
+        source: "farcaster",
+        handle: "alice",
+        followers_count: 12480,
+        owned_since: daysAgo(812),
+      },
+      {
+        source: "twitter",
+        handle: "alice_writes",
+        followers_count: 3204,
+        owned_since: daysAgo(2900),
+      },
+      {
+        source: "github",
+        handle: "alice-dev",
+        followers_count: 87,
+        owned_since: daysAgo(3650),
+      },
+      {
+        source: "lens",
+        handle: "alice.lens",
+        followers_count: 410,
+        owned_since: daysAgo(600),
+      },
+    ],
+    postCount: 42,
+  },
+  {
+    // Brand new profile that has never been scored
+    id: "0b6a7c52-2f1e-4c1a-9d3e-5a4f8e1c2b02",
+    fid: 100002,
+    username: "newbie",
+    displayName: "New Builder",
+    bio: null,
+    imageUrl: null,
+    wallet: "0x2222222222222222222222222222222222222222",
+    github: null,
+    scores: null,
+    calculating: false,
+    human: false,
+    credentials: [],
+    socials: [
+      {
+        source: "farcaster",
+        handle: "newbie",
+        followers_count: 3,
+        owned_since: daysAgo(2),
+      },
+    ],
+    postCount: 0,
+  },
+  {
+    // Score calculation enqueued and still running
+    id: "0b6a7c52-2f1e-4c1a-9d3e-5a4f8e1c2b03",
+    fid: 100003,
+    username: "pending",
+    displayName: "Pending Pat",
+    bio: "Waiting on my score",
+    imageUrl: "https://i.pravatar.cc/300?u=pending",
+    wallet: "0x3333333333333333333333333333333333333333",
+    github: null,
+    scores: { builder_score: 31, creator_score: 57 },
+    calculating: true,
+    human: true,
+    credentials: [
+      credential(
+        "Farcaster",
+        "farcaster_followers",
+        "Followers",
+        10,
+        40,
+        "980",
+        null,
+      ),
+      credential(
+        "Zora",
+        "zora_unique_holders",
+        "Unique Holders",
+        6,
+        40,
+        "88",
+        null,
+      ),
+    ],
+    socials: [
+      {
+        source: "farcaster",
+        handle: "pending",
+        followers_count: 980,
+        owned_since: daysAgo(300),
+      },
+    ],
+    postCount: 5,
+  },
+  {
+    // Socials endpoint returns 404 for this profile
+    id: "0b6a7c52-2f1e-4c1a-9d3e-5a4f8e1c2b04",
+    fid: 100004,
+    username: "ghost",
+    displayName: "Ghost Account",
+    bio: null,
+    imageUrl: "https://i.pravatar.cc/300?u=ghost",
+    wallet: "0x4444444444444444444444444444444444444444",
+    github: null,
+    scores: { builder_score: 12, creator_score: 44 },
+    calculating: false,
+    human: false,
+    credentials: [
+      credential(
+        "Zora",
+        "zora_creator_rewards",
+        "Creator Rewards",
+        14,
+        40,
+        "0.08",
+        "ETH",
+      ),
+    ],
+    socials: null,
+    postCount: 3,
+  },
+  {
+    // Prolific poster, exercises pagination and "all posts" fetches
+    id: "0b6a7c52-2f1e-4c1a-9d3e-5a4f8e1c2b05",
+    fid: 100005,
+    username: "prolific",
+    displayName: "Prolific Poster",
+    bio: "Posting every hour since 2021",
+    imageUrl: "https://i.pravatar.cc/300?u=prolific",
+    wallet: "0x5555555555555555555555555555555555555555",
+    github: null,
+    scores: { builder_score: 64, creator_score: 268 },
+    calculating: false,
+    human: true,
+    credentials: [
+      credential(
+        "Paragraph",
+        "paragraph_total_posts",
+        "Total Posts",
+        20,
+        20,
+        "25,000",
+        null,
+      ),
+      credential(
+        "Paragraph",
+        "paragraph_unique_collectors",
+        "Unique Collectors",
+        38,
+        40,
+        "9,812",
+        null,
+      ),
+      credential(
+        "Zora",
+        "zora_coin_earnings",
+        "Coin Earnings",
+        30,
+        30,
+        "12.7",
+        "ETH",
+      ),
+    ],
+    socials: [
+      {
+        source: "farcaster",
+        handle: "prolific",
+        followers_count: 88210,
+        owned_since: daysAgo(1400),
+      },
+    ],
+    postCount: 25000,
+  },
+];
+
+// Filler profiles so leaderboard pagination has something to page through
+const FILLER_COUNT = 120;
+for (let i = 0; i < FILLER_COUNT; i++) {
+  const n = String(i + 1).padStart(3, "0");
+  PROFILES.push({
+    id: `0b6a7c52-2f1e-4c1a-9d3e-5a4f8e1c3${n}`,
+    fid: 200000 + i,
+    username: `creator${n}`,
+    displayName: `Creator ${n}`,
+    bio: null,
+    imageUrl: `https://i.pravatar.cc/300?u=creator${n}`,
+    wallet: `0x${String(6000 + i).padStart(40, "0")}`,
+    github: null,
+    // Repeat scores every 7 profiles so ties show up in rankings
+    scores: {
+      builder_score: 20 + (i % 50),
+      creator_score: Math.max(1, 240 - Math.floor(i / 7) * 12),
+    },
+    calculating: false,
+    human: i % 3 !== 0,
+    credentials: [
+      credential(
+        "Farcaster",
+        "farcaster_followers",
+        "Followers",
+        5 + (i % 30),
+        40,
+        String(100 * (i + 1)),
+        null,
+      ),
+    ],
+    socials: [
+      {
+        source: "farcaster",
+        handle: `creator${n}`,
+        followers_count: 100 * (i + 1),
+        owned_since: daysAgo(100 + i),
+      },
+    ],
+    postCount: i % 10,
+  });
+}
+
+module.exports = { PROFILES, daysAgo };
@@ -0,0 +1,389 @@
+#!/usr/bin/env node
+
+// Local stand-in for the Talent Protocol and Neynar APIs, used for offline development.
+// Run with `npm run mock:api` and point TALENT_API_BASE_URL / NEYNAR_API_BASE_URL at it.
+
+const http = require("http");
+const { PROFILES, daysAgo } = require("./fixtures");
+
+const PORT = Number(process.env.MOCK_API_PORT) || 4010;
+const LATENCY_MS = Number(process.env.MOCK_API_LATENCY_MS) || 0;
+// How long a refresh keeps a profile in the "calculating" state
+const REFRESH_DURATION_MS = 15 * 1000;
+
+const SCORER_SLUGS_BY_NAME = {
+  "Builder Score": "builder_score",
+  "Creator Score": "creator_score",
+};
+
+// talent ID -> timestamp when a refresh triggered through the mock finishes
+const refreshingUntil = new Map();
+
+function findProfile(id, accountSource) {
+  if (!id) return null;
+  const needle = String(id).toLowerCase();
+
+  if (accountSource === "wallet") {
+    return PROFILES.find((p) => p.wallet.toLowerCase() === needle) || null;
+  }
+  if (accountSource === "farcaster") {
+    return (
+      PROFILES.find((p) => String(p.fid) === needle || p.username === needle) ||
+      null
+    );
+  }
+  return PROFILES.find((p) => p.id === needle) || null;
+}
+
+function isCalculating(profile) {
+  const until = refreshingUntil.get(profile.id);
+  if (until && until > Date.now()) return true;
+  return profile.calculating;
+}
+
+function getPoints(profile, scorerSlug) {
+  if (!profile.scores) return 0;
+  return profile.scores[scorerSlug || "builder_score"] ?? 0;
+}
+
+function buildScore(profile, scorerSlug) {
+  const calculating = isCalculating(profile);
+  return {
+    slug: scorerSlug || "builder_score",
+    points: getPoints(profile, scorerSlug),
+    last_calculated_at: profile.scores ? daysAgo(1) : null,
+    calculating_score: calculating,
+    calculating_score_enqueued_at: calculating ? daysAgo(0) : null,
+  };
+}
+
+function buildAccounts(profile) {
+  const accounts = [
+    {
+      source: "farcaster",
+      identifier: String(profile.fid),
+      username: profile.username,
+      handle: profile.username,
+      imported_from: null,
+      connected_at: daysAgo(400),
+      owned_since: daysAgo(800),
+      invalid_token: false,
+    },
+    {
+      source: "wallet",
+      identifier: profile.wallet,
+      username: null,
+      handle: null,
+      imported_from: "farcaster",
+      connected_at: daysAgo(400),
+      owned_since: daysAgo(900),
+      invalid_token: false,
+    },
+  ];
+
+  if (profile.github) {
+    accounts.push({
+      source: "github",
+      identifier: profile.github,
+      username: profile.github,
+      handle: profile.github,
+      imported_from: null,
+      connected_at: daysAgo(200),
+      owned_since: daysAgo(3650),
+      invalid_token: false,
+    });
+  }
+
+  return accounts;
+}
+
+function buildSearchProfile(profile) {
+  return {
+    id: profile.id,
+    display_name: profile.displayName,
+    name: profile.displayName,
+    image_url: profile.imageUrl,
+    bio: profile.bio,
+    human_checkmark: profile.human,
+    scores: ["builder_score", "creator_score"].map((slug) => ({
+      slug,
+      points: getPoints(profile, slug),
+    })),
+    accounts: buildAccounts(profile),
+  };
+}
+
+// Posts are generated on demand so huge post counts don't bloat the fixtures
+function buildPost(profile, index) {
+  const postId = profile.postCount - index;
+  return {
+    chain: "base",
+    name: `${profile.displayName} post #${postId}`,
+    platform: index % 4 === 0 ? "zora" : "paragraph",
+    onchain_created_at: new Date(
+      Date.now() - (index + 1) * 60 * 60 * 1000,
+    ).toISOString(),
+    url: `https://paragraph.com/@${profile.username}/post-${postId}`,
+    description: `Fixture post ${postId}`,
+    image_url: `https://picsum.photos/seed/${profile.username}-${postId}/600/400`,
+    metadata: {
+      symbol: "POST",
+      post_id: String(postId),
+      block_number: 20000000 + postId,
+      transaction_hash: `0x${String(postId).padStart(64, "0")}`,
+    },
+    onchain_address: profile.wallet,
+    owner_address: profile.wallet,
+  };
+}
+
+function buildHumanityCredentials(profile) {
+  return [
+    {
+      account_source: "wallet",
+      calculating_score: false,
+      category: "Identity",
+      data_issuer_name: "World",
+      data_issuer_slug: "world",
+      description: "Verified with World ID",
+      external_url: "https://world.org",
+      immutable: true,
+      last_calculated_at: daysAgo(1),
+      max_score: 1,
+      name: "World ID",
+      points: profile.human ? 1 : 0,
+      points_calculation_logic: {},
+      slug: "world_id_human",
+      uom: "",
+      updated_at: daysAgo(1),
+    },
+  ];
+}
+
+function parseJsonParam(value) {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+function paginate(total, page, perPage) {
+  const lastPage = Math.max(1, Math.ceil(total / perPage));
+  const start = (page - 1) * perPage;
+  return { start, end: Math.min(start + perPage, total), lastPage };
+}
+
+function handleTalent(method, pathname, query) {
+  const id = query.get("id") || query.get("talent_id");
+  const accountSource = query.get("account_source");
+  const scorerSlug = query.get("scorer_slug");
+
+  if (method === "PUT" && pathname === "/score/refresh_scorer") {
+    const profile = findProfile(id, accountSource);
+    if (!profile) return [404, { error: "Profile not found" }];
+    refreshingUntil.set(profile.id, Date.now() + REFRESH_DURATION_MS);
+    return [200, { score: buildScore(profile, scorerSlug) }];
+  }
+
+  if (method !== "GET") return null;
+
+  if (pathname === "/search/advanced/profiles") {
+    const search = parseJsonParam(query.get("query"));
+    const sort = parseJsonParam(query.get("sort"));
+    const page = Math.max(1, Number(query.get("page")) || 1);
+    const perPage = Math.max(1, Number(query.get("per_page")) || 10);
+
+    const filterSlug =
+      SCORER_SLUGS_BY_NAME[search.score?.scorer] || "builder_score";
+    const sortSlug =
+      SCORER_SLUGS_BY_NAME[sort.score?.scorer] || "builder_score";
+    const identity = search.identity ? search.identity.toLowerCase() : null;
+
+    const matches = PROFILES.filter((p) => {
+      if (identity) {
+        const haystack = `${p.username} ${p.displayName}`.toLowerCase();
+        if (!haystack.includes(identity)) return false;
+      }
+      if (search.score?.min !== undefined) {
+        return getPoints(p, filterSlug) >= search.score.min;
+      }
+      return true;
+    }).sort((a, b) => {
+      const direction = sort.score?.order === "asc" ? 1 : -1;
+      return direction * (getPoints(a, sortSlug) - getPoints(b, sortSlug));
+    });
+
+    const { start, end, lastPage } = paginate(matches.length, page, perPage);
+    return [
+      200,
+      {
+        profiles: matches.slice(start, end).map(buildSearchProfile),
+        pagination: {
+          current_page: page,
+          last_page: lastPage,
+          total: matches.length,
+        },
+      },
+    ];
+  }
+
+  const profile = findProfile(id, accountSource);
+  if (!profile) return [404, { error: "Profile not found" }];
+
+  switch (pathname) {
+    case "/score":
+      return [200, { score: buildScore(profile, scorerSlug) }];
+    case "/credentials":
+      return [200, { credentials: profile.credentials }];
+    case "/socials":
+      if (!profile.socials) return [404, { error: "Socials not found" }];
+      return [
+        200,
+        {
+          socials: profile.socials.map((social) => ({
+            ...social,
+            profile_url: `https://example.com/${social.source}/${social.handle}`,
+            image_url: profile.imageUrl,
+          })),
+        },
+      ];
+    case "/profile":
+      return [
+        200,
+        {
+          profile: {
+            id: profile.id,
+            display_name: profile.displayName,
+            name: profile.displayName,
+            image_url: profile.imageUrl,
+            bio: profile.bio,
+            human_checkmark: profile.human,
+            accounts: buildAccounts(profile),
+            user: { main_wallet: profile.wallet },
+          },
+        },
+      ];
+    case "/accounts":
+      return [200, { accounts: buildAccounts(profile) }];
+    case "/human_checkmark":
+      return [
+        200,
+        {
+          humanity: profile.human,
+          credentials: buildHumanityCredentials(profile),
+        },
+      ];
+    case "/human_checkmark/data_points":
+      return [200, { credentials: buildHumanityCredentials(profile) }];
+    case "/creator_posts/profile_posts": {
+      const page = Math.max(1, Number(query.get("page")) || 1);
+      const perPage = Math.min(
+        Math.max(1, Number(query.get("per_page")) || 25),
+        1000,
+      );
+      const { start, end, lastPage } = paginate(
+        profile.postCount,
+        page,
+        perPage,
+      );
+      const posts = [];
+      for (let i = start; i < end; i++) {
+        posts.push(buildPost(profile, i));
+      }
+      return [
+        200,
+        { posts, pagination: { current_page: page, last_page: lastPage } },
+      ];
+    }
+    default:
+      return null;
+  }
+}
+
+function buildNeynarUser(profile) {
+  return {
+    object: "user",
+    fid: profile.fid,
+    username: profile.username,
+    display_name: profile.displayName,
+    pfp_url: profile.imageUrl,
+    custody_address: profile.wallet,
+    follower_count:
+      profile.socials?.find((s) => s.source === "farcaster")?.followers_count ??
+      0,
+    verifications: [profile.wallet],
+    verified_addresses: {
+      eth_addresses: [profile.wallet],
+      sol_addresses: [],
+      primary: { eth_address: profile.wallet, sol_address: null },
+    },
+  };
+}
+
+// Everyone follows every fourth profile, so following lists are stable
+function getFollowing(fid) {
+  return PROFILES.filter(
+    (profile, index) => index % 4 === 0 && String(profile.fid) !== fid,
+  );
+}
+
+function handleNeynar(method, pathname, query) {
+  if (method === "GET" && pathname === "/v2/farcaster/following") {
+    const following = getFollowing(query.get("fid"));
+    const limit = Math.min(Math.max(1, Number(query.get("limit")) || 25), 100);
+    const offset = Number(query.get("cursor")) || 0;
+    const next = offset + limit < following.length ? offset + limit : null;
+    return [
+      200,
+      {
+        users: following
+          .slice(offset, offset + limit)
+          .map((profile) => ({
+            object: "follow",
+            user: buildNeynarUser(profile),
+          })),
+        next: { cursor: next === null ? null : String(next) },
+      },
+    ];
+  }
+
+  if (method !== "GET" || pathname !== "/v2/farcaster/user/bulk") {
+    return null;
+  }
+
+  const fids = (query.get("fids") || "")
+    .split(",")
+    .map((fid) => fid.trim())
+    .filter(Boolean);
+
+  const users = fids
+    .map((fid) => findProfile(fid, "farcaster"))
+    .filter(Boolean)
+    .map(buildNeynarUser);
+
+  return [200, { users }];
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const result = handleNeynar(req.method, url.pathname, url.searchParams) ||
+    handleTalent(req.method, url.pathname, url.searchParams) || [
+      404,
+      { error: `No mock for ${req.method} ${url.pathname}` },
+    ];
+  const [status, body] = result;
+
+  setTimeout(() => {
+    console.log(`${req.method} ${url.pathname}${url.search} -> ${status}`);
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }, LATENCY_MS);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Talent/Neynar API listening on http://localhost:${PORT}`);
+  console.log(`  TALENT_API_BASE_URL=http://localhost:${PORT}`);
+  console.log(`  NEYNAR_API_BASE_URL=http://localhost:${PORT}/v2`);
+});